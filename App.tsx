@@ -1,16 +1,74 @@
 import React from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
 import { AppProvider } from './src/context/AppContext';
+import { SecurityProvider, useSecurity } from './src/context/SecurityContext';
+import { SyncProvider } from './src/context/SyncContext';
+import { BackupProvider } from './src/context/BackupContext';
 import { AppNavigator } from './src/navigation/AppNavigator';
+import { AppLockGate } from './src/navigation/AppLockGate';
+import { UndoLayer } from './src/navigation/UndoLayer';
+import { PasscodeScreen } from './src/screens';
+import { EmptyState } from './src/components';
+import { Colors } from './src/utils/colors';
+
+// Client data is only loaded once the passcode has unlocked it
+function SecureApp() {
+  const { status, isDataOpen, storageError } = useSecurity();
+
+  // Never offer a new passcode over data that's only out of reach
+  if (storageError) {
+    return (
+      <View style={styles.loading}>
+        <EmptyState title="Unable to Open Data" message={storageError} />
+      </View>
+    );
+  }
+
+  if (status === 'loading') {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator color={Colors.primary} />
+      </View>
+    );
+  }
+
+  if (!isDataOpen) {
+    return <PasscodeScreen />;
+  }
+
+  return (
+    <AppProvider>
+      <SyncProvider>
+        <BackupProvider>
+          <AppLockGate>
+            <UndoLayer>
+              <AppNavigator />
+            </UndoLayer>
+          </AppLockGate>
+        </BackupProvider>
+      </SyncProvider>
+    </AppProvider>
+  );
+}
 
 export default function App() {
   return (
     <SafeAreaProvider>
-      <AppProvider>
+      <SecurityProvider>
         <StatusBar style="auto" />
-        <AppNavigator />
-      </AppProvider>
+        <SecureApp />
+      </SecurityProvider>
     </SafeAreaProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.background,
+  },
+});
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+// Reference sync server for Speech Therapy Pro
+//
+// Implements the protocol in README.md with nothing but Node's standard
+// library, keeping every record in one JSON file. Meant for a clinic's local
+// network and for testing; put it behind HTTPS before client data crosses
+// anything you don't control.
+//
+//   PORT=8787 SYNC_TOKEN=secret node server/sync-server.js
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '0.0.0.0';
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(__dirname, 'data', 'sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 500;
+const MAX_PAGE_SIZE = 1000;
+const ENTITY_TYPES = ['client', 'goal', 'session'];
+
+// Storage
+//
+// records maps "<entityType>:<id>" to the merged change, plus seq: the
+// position of its latest change in the feed that /pull reads from
+
+const loadStore = () => {
+  try {
+    return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    return { seq: 0, records: {} };
+  }
+};
+
+// Written to a temporary file and renamed, so a crash never leaves half a file
+const saveStore = (store) => {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  const temporaryFile = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(temporaryFile, JSON.stringify(store));
+  fs.renameSync(temporaryFile, DATA_FILE);
+};
+
+const store = loadStore();
+
+// Merging: the same rules as the app's src/services/sync.ts
+
+const isSame = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+const defaultFieldTimestamps = (record) => {
+  const timestamp = record.updatedAt || record.createdAt || '';
+  const timestamps = {};
+  Object.keys(record).forEach((field) => {
+    if (field !== 'id') timestamps[field] = timestamp;
+  });
+  return timestamps;
+};
+
+const isNewer = (time, otherTime, value, otherValue) =>
+  time > otherTime ||
+  (time === otherTime && JSON.stringify(value ?? null) > JSON.stringify(otherValue ?? null));
+
+const mergeChanges = (stored, incoming) => {
+  if (!stored) return incoming;
+
+  // Purging is final
+  if (!stored.record) return stored;
+  if (!incoming.record) return incoming;
+
+  const storedTimes = { ...defaultFieldTimestamps(stored.record), ...stored.fieldTimestamps };
+  const incomingTimes = { ...defaultFieldTimestamps(incoming.record), ...incoming.fieldTimestamps };
+  const fields = new Set([
+    ...Object.keys(stored.record),
+    ...Object.keys(incoming.record),
+    ...Object.keys(storedTimes),
+    ...Object.keys(incomingTimes),
+  ]);
+  fields.delete('id');
+
+  const record = { id: stored.id };
+  const fieldTimestamps = {};
+  fields.forEach((field) => {
+    const useIncoming = isNewer(
+      incomingTimes[field] || '',
+      storedTimes[field] || '',
+      incoming.record[field],
+      stored.record[field]
+    );
+    const value = useIncoming ? incoming.record[field] : stored.record[field];
+    const time = useIncoming ? incomingTimes[field] : storedTimes[field];
+    if (value !== undefined) record[field] = value;
+    if (time) fieldTimestamps[field] = time;
+  });
+
+  return { entityType: stored.entityType, id: stored.id, record, fieldTimestamps };
+};
+
+// Returns a problem with a pushed change, or null if it's usable
+const checkChange = (change) => {
+  if (typeof change !== 'object' || change === null) return 'must be an object';
+  if (!ENTITY_TYPES.includes(change.entityType)) return `entityType must be one of ${ENTITY_TYPES.join(', ')}`;
+  if (typeof change.id !== 'string' || !change.id) return 'id must be a non-empty string';
+  if (typeof change.fieldTimestamps !== 'object' || change.fieldTimestamps === null) {
+    return 'fieldTimestamps must be an object';
+  }
+  if (change.record === null) {
+    return typeof change.purgedAt === 'string' ? null : 'purgedAt is required when record is null';
+  }
+  if (typeof change.record !== 'object' || change.record.id !== change.id) {
+    return 'record must be an object with the same id, or null';
+  }
+  return null;
+};
+
+// Handlers
+
+const handlePush = (body) => {
+  if (typeof body !== 'object' || body === null || !Array.isArray(body.changes)) {
+    return [400, { error: 'Expected { deviceId, changes: [...] }' }];
+  }
+
+  const problems = body.changes
+    .map((change, index) => {
+      const problem = checkChange(change);
+      return problem && `changes[${index}]: ${problem}`;
+    })
+    .filter(Boolean);
+  if (problems.length > 0) {
+    return [400, { error: 'Invalid changes', details: problems.slice(0, 20) }];
+  }
+
+  let accepted = 0;
+  body.changes.forEach((incoming) => {
+    const key = `${incoming.entityType}:${incoming.id}`;
+    const stored = store.records[key];
+    const { seq, ...storedChange } = stored || {};
+    const merged = mergeChanges(stored ? storedChange : null, {
+      entityType: incoming.entityType,
+      id: incoming.id,
+      record: incoming.record,
+      fieldTimestamps: incoming.fieldTimestamps,
+      ...(incoming.record === null && { purgedAt: incoming.purgedAt }),
+    });
+    if (stored && isSame(merged, storedChange)) return;
+
+    store.seq += 1;
+    store.records[key] = { ...merged, seq: store.seq };
+    accepted += 1;
+  });
+
+  if (accepted > 0) saveStore(store);
+  console.log(`push from ${body.deviceId || 'unknown device'}: ${accepted} of ${body.changes.length} changed`);
+  return [200, { accepted, cursor: String(store.seq) }];
+};
+
+const handlePull = (query) => {
+  const since = Number.parseInt(query.get('since') || '0', 10) || 0;
+  const requested = Number.parseInt(query.get('limit') || '', 10) || DEFAULT_PAGE_SIZE;
+  const limit = Math.min(Math.max(requested, 1), MAX_PAGE_SIZE);
+
+  const newer = Object.values(store.records)
+    .filter((entry) => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const page = newer.slice(0, limit);
+
+  return [
+    200,
+    {
+      changes: page.map(({ seq, ...change }) => change),
+      cursor: String(page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0)),
+      hasMore: newer.length > limit,
+    },
+  ];
+};
+
+// HTTP
+
+const isAuthorized = (request) => {
+  if (!TOKEN) return true;
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  const given = Buffer.from(request.headers.authorization || '');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const readBody = (request) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    request.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null'));
+      } catch {
+        reject(Object.assign(new Error('Request body is not valid JSON'), { status: 400 }));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const send = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const server = http.createServer(async (request, response) => {
+  // The web build of the app runs on another origin
+  response.setHeader('Access-Control-Allow-Origin', '*');
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  response.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204);
+    response.end();
+    return;
+  }
+
+  const url = new URL(request.url, `http://${request.headers.host || 'localhost'}`);
+  const route = `${request.method} ${url.pathname.replace(/\/+$/, '')}`;
+
+  try {
+    if (route === 'GET /v1/health') {
+      send(response, 200, { ok: true, protocol: 1 });
+      return;
+    }
+    if (!isAuthorized(request)) {
+      send(response, 401, { error: 'Missing or incorrect access token' });
+      return;
+    }
+
+    if (route === 'POST /v1/push') {
+      const [status, body] = handlePush(await readBody(request));
+      send(response, status, body);
+    } else if (route === 'GET /v1/pull') {
+      const [status, body] = handlePull(url.searchParams);
+      send(response, status, body);
+    } else {
+      send(response, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    console.error(error);
+    send(response, error.status || 500, { error: error.status ? error.message : 'Server error' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT}`);
+  console.log(`Data file: ${DATA_FILE}`);
+  if (!TOKEN) console.log('No SYNC_TOKEN set: any device on the network can sync');
+});
@@ -1,6 +1,11 @@
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
   tauri::Builder::default()
+    .plugin(tauri_plugin_sql::Builder::default().build())
+    .plugin(tauri_plugin_fs::init())
+    .plugin(tauri_plugin_dialog::init())
+    // Keeps access to a backup folder picked in the dialog after a restart
+    .plugin(tauri_plugin_persisted_scope::init())
     .setup(|app| {
       if cfg!(debug_assertions) {
         app.handle().plugin(
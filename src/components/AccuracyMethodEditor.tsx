@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../utils/colors';
+import { AccuracyMethod } from '../types';
+
+interface AccuracyMethodEditorProps {
+  value: AccuracyMethod;
+  onChange: (method: AccuracyMethod) => void;
+}
+
+const KIND_OPTIONS: { method: AccuracyMethod; label: string }[] = [
+  { method: { kind: 'lastSessions', sessions: 3 }, label: 'Last sessions' },
+  { method: { kind: 'trialWindow', trials: 50 }, label: 'Last trials' },
+  { method: { kind: 'exponential', weight: 0.5 }, label: 'Weighted' },
+];
+
+const SESSION_OPTIONS = [1, 3, 5];
+const TRIAL_OPTIONS = [20, 50, 100];
+const WEIGHT_OPTIONS = [0.3, 0.5, 0.7];
+
+export const AccuracyMethodEditor: React.FC<AccuracyMethodEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.option, isSelected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Method</Text>
+      <View style={styles.optionRow}>
+        {KIND_OPTIONS.map(({ method, label }) =>
+          renderOption(label, value.kind === method.kind, () => {
+            if (value.kind !== method.kind) onChange(method);
+          })
+        )}
+      </View>
+
+      {value.kind === 'lastSessions' && (
+        <>
+          <Text style={styles.label}>Sessions Averaged</Text>
+          <View style={styles.optionRow}>
+            {SESSION_OPTIONS.map((sessions) =>
+              renderOption(String(sessions), value.sessions === sessions, () =>
+                onChange({ kind: 'lastSessions', sessions })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      {value.kind === 'trialWindow' && (
+        <>
+          <Text style={styles.label}>Trials Counted</Text>
+          <View style={styles.optionRow}>
+            {TRIAL_OPTIONS.map((trials) =>
+              renderOption(String(trials), value.trials === trials, () =>
+                onChange({ kind: 'trialWindow', trials })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      {value.kind === 'exponential' && (
+        <>
+          <Text style={styles.label}>Weight on the Latest Session</Text>
+          <View style={styles.optionRow}>
+            {WEIGHT_OPTIONS.map((weight) =>
+              renderOption(`${Math.round(weight * 100)}%`, value.weight === weight, () =>
+                onChange({ kind: 'exponential', weight })
+              )
+            )}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  optionSelected: {
+    backgroundColor: Colors.primary + '20',
+    borderColor: Colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,96 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { Colors } from '../utils/colors';
+import { GoalAlert, getAlertTitle } from '../services/alerts';
+
+interface GoalAlertCardProps {
+  alert: GoalAlert;
+  title: string; // the goal, and on caseload lists its client
+  onPress: () => void;
+  onDismiss: () => void;
+  onSnooze: (days: number) => void;
+}
+
+export const GoalAlertCard: React.FC<GoalAlertCardProps> = ({
+  alert,
+  title,
+  onPress,
+  onDismiss,
+  onSnooze,
+}) => {
+  const color = alert.severity === 'error' ? Colors.error : Colors.warning;
+
+  const handleSnooze = () => {
+    Alert.alert('Snooze Alert', 'Hide this alert for how long?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: '1 Week', onPress: () => onSnooze(7) },
+      { text: '4 Weeks', onPress: () => onSnooze(28) },
+    ]);
+  };
+
+  return (
+    <View style={[styles.container, { borderLeftColor: color }]}>
+      <TouchableOpacity onPress={onPress}>
+        <Text style={[styles.kind, { color }]}>{getAlertTitle(alert.kind)}</Text>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+        <Text style={styles.reason}>{alert.reason}</Text>
+        <Text style={styles.suggestion}>{alert.suggestion}</Text>
+      </TouchableOpacity>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={handleSnooze}>
+          <Text style={styles.action}>Snooze</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={onDismiss}>
+          <Text style={styles.action}>Dismiss</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.surface,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderLeftWidth: 4,
+    padding: 12,
+    marginBottom: 8,
+  },
+  kind: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  reason: {
+    fontSize: 14,
+    color: Colors.text,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  suggestion: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+    marginTop: 8,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+});
@@ -0,0 +1,109 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Colors } from '../utils/colors';
+import { MasteryCriteria } from '../types';
+
+interface MasteryCriteriaEditorProps {
+  value: MasteryCriteria;
+  onChange: (criteria: MasteryCriteria) => void;
+}
+
+const SESSION_OPTIONS: { sessionsMet: number; outOfSessions: number; label: string }[] = [
+  { sessionsMet: 1, outOfSessions: 1, label: '1 session' },
+  { sessionsMet: 2, outOfSessions: 2, label: '2 in a row' },
+  { sessionsMet: 3, outOfSessions: 3, label: '3 in a row' },
+  { sessionsMet: 2, outOfSessions: 3, label: '2 of 3' },
+  { sessionsMet: 3, outOfSessions: 4, label: '3 of 4' },
+  { sessionsMet: 4, outOfSessions: 5, label: '4 of 5' },
+];
+
+const MIN_TRIAL_OPTIONS = [0, 10, 20, 30];
+
+export const MasteryCriteriaEditor: React.FC<MasteryCriteriaEditorProps> = ({
+  value,
+  onChange,
+}) => {
+  const renderOption = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.option, isSelected && styles.optionSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Sessions at Target</Text>
+      <View style={styles.optionRow}>
+        {SESSION_OPTIONS.map(({ sessionsMet, outOfSessions, label }) =>
+          renderOption(
+            label,
+            value.sessionsMet === sessionsMet && value.outOfSessions === outOfSessions,
+            () => onChange({ ...value, sessionsMet, outOfSessions })
+          )
+        )}
+      </View>
+
+      <Text style={styles.label}>Minimum Trials per Session</Text>
+      <View style={styles.optionRow}>
+        {MIN_TRIAL_OPTIONS.map((minTrials) =>
+          renderOption(
+            minTrials === 0 ? 'Any' : String(minTrials),
+            value.minTrials === minTrials,
+            () => onChange({ ...value, minTrials })
+          )
+        )}
+      </View>
+
+      <Text style={styles.label}>Cue Level</Text>
+      <View style={styles.optionRow}>
+        {renderOption('Any cue level', !value.independentOnly, () =>
+          onChange({ ...value, independentOnly: false })
+        )}
+        {renderOption('Independent only', value.independentOnly, () =>
+          onChange({ ...value, independentOnly: true })
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  optionSelected: {
+    backgroundColor: Colors.primary + '20',
+    borderColor: Colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  optionTextSelected: {
+    color: Colors.primary,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ViewStyle } from 'react-native';
+import { Badge } from './Badge';
+import { GoalTrend } from '../types';
+import { getTrendLabel } from '../utils/helpers';
+
+interface TrendBadgeProps {
+  trend?: GoalTrend; // nothing is shown without a trend
+  style?: ViewStyle;
+}
+
+const TREND_VARIANTS = {
+  improving: 'success',
+  stable: 'info',
+  declining: 'error',
+} as const;
+
+export const TrendBadge: React.FC<TrendBadgeProps> = ({ trend, style }) =>
+  trend ? (
+    <Badge
+      label={getTrendLabel(trend)}
+      variant={TREND_VARIANTS[trend]}
+      size="small"
+      style={style}
+    />
+  ) : null;
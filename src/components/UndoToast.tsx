@@ -0,0 +1,75 @@
+import React, { useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Colors } from '../utils/colors';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 5000,
+}) => {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.toast}>
+        <Text style={styles.message} numberOfLines={2}>
+          {message}
+        </Text>
+        <TouchableOpacity onPress={onUndo} style={styles.action}>
+          <Text style={styles.actionText}>Undo</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 96,
+    alignItems: 'center',
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 480,
+    width: '100%',
+    paddingLeft: 16,
+    paddingRight: 4,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.text,
+    shadowColor: Colors.shadowDark,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 1,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textOnPrimary,
+  },
+  action: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: Colors.primaryLight,
+  },
+});
@@ -5,3 +5,8 @@ export { Avatar } from './Avatar';
 export { EmptyState } from './EmptyState';
 export { ProgressBar } from './ProgressBar';
 export { Badge } from './Badge';
+export { UndoToast } from './UndoToast';
+export { MasteryCriteriaEditor } from './MasteryCriteriaEditor';
+export { AccuracyMethodEditor } from './AccuracyMethodEditor';
+export { TrendBadge } from './TrendBadge';
+export { GoalAlertCard } from './GoalAlertCard';
@@ -1,23 +1,64 @@
 // App Context for global state management
 
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
-import { Client, Goal, Session, AppSettings } from '../types';
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  ReactNode,
+} from 'react';
+import { Client, Goal, Session, AppSettings, GoalAlertState } from '../types';
 import {
   ClientStorage,
   GoalStorage,
   SessionStorage,
   SettingsStorage,
+  TrashStorage,
+  AlertStorage,
+  migrateStorage,
+  DEFAULT_SETTINGS,
 } from '../services/storage';
+import { TrashGroup, isDeleted, buildTrashGroups } from '../services/trash';
+import { isSameAccuracyMethod } from '../services/accuracy';
+import { GoalAlert, findGoalAlerts, isAlertVisible } from '../services/alerts';
+import {
+  Snapshot,
+  SnapshotIds,
+  captureSnapshot,
+  recaptureSnapshot,
+  applySnapshot,
+} from '../services/history';
+import { addDays } from 'date-fns';
+
+// An action that can be undone: the records it touched, as they were before
+interface HistoryEntry {
+  label: string;
+  snapshot: Snapshot;
+}
+
+// Shown briefly after destructive or status-changing actions
+export interface UndoToastMessage {
+  id: number;
+  message: string;
+}
+
+const MAX_HISTORY = 50;
 
 interface AppContextType {
-  // Data
+  // Data (records in the trash are left out)
   clients: Client[];
   goals: Goal[];
   sessions: Session[];
   settings: AppSettings;
+  trash: TrashGroup[];
+  alerts: GoalAlert[]; // not dismissed or snoozed, most severe first
 
   // Loading states
   isLoading: boolean;
+  storageError: string | null;
 
   // Client operations
   addClient: (client: Client) => Promise<boolean>;
@@ -37,82 +78,217 @@ interface AppContextType {
   addSession: (session: Session) => Promise<boolean>;
   updateSession: (session: Session) => Promise<boolean>;
   deleteSession: (id: string) => Promise<boolean>;
+  completeSession: (session: Session) => Promise<boolean>;
   getSession: (id: string) => Session | undefined;
   getSessionsByClient: (clientId: string) => Session[];
   getSessionsByGoal: (goalId: string) => Session[];
 
+  // Trash operations
+  restoreFromTrash: (groupId: string) => Promise<boolean>;
+  purgeFromTrash: (groupIds: string[]) => Promise<boolean>;
+
   // Settings operations
   updateSettings: (settings: AppSettings) => Promise<boolean>;
 
+  // Alert operations (not undoable)
+  dismissAlert: (alert: GoalAlert) => Promise<boolean>;
+  snoozeAlert: (alert: GoalAlert, days: number) => Promise<boolean>;
+
+  // Undo/redo of the operations above (trash operations excepted)
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  undoToast: UndoToastMessage | null;
+  dismissUndoToast: () => void;
+
   // Refresh data
   refreshData: () => Promise<void>;
+  // Re-read records changed outside the operations above (by sync)
+  reloadRecords: () => Promise<void>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [clients, setClients] = useState<Client[]>([]);
-  const [goals, setGoals] = useState<Goal[]>([]);
-  const [sessions, setSessions] = useState<Session[]>([]);
-  const [settings, setSettings] = useState<AppSettings>({
-    defaultSessionDuration: 30,
-    defaultTargetAccuracy: 80,
-    enableNotifications: true,
-    theme: 'system',
-    cueLevels: ['independent', 'verbal_cue', 'visual_cue', 'model', 'partial_physical', 'full_physical'],
-    responseOptions: ['correct', 'incorrect', 'approximation', 'no_response'],
-  });
+  // Every stored record, including those in the trash
+  const [allClients, setAllClients] = useState<Client[]>([]);
+  const [allGoals, setAllGoals] = useState<Goal[]>([]);
+  const [allSessions, setAllSessions] = useState<Session[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [alertStates, setAlertStates] = useState<Record<string, GoalAlertState>>({});
   const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<UndoToastMessage | null>(null);
+  const isApplyingHistory = useRef(false);
+
+  const clients = useMemo(() => allClients.filter((c) => !isDeleted(c)), [allClients]);
+  const goals = useMemo(() => allGoals.filter((g) => !isDeleted(g)), [allGoals]);
+  const sessions = useMemo(() => allSessions.filter((s) => !isDeleted(s)), [allSessions]);
+  const trash = useMemo(
+    () => buildTrashGroups(allClients, allGoals, allSessions),
+    [allClients, allGoals, allSessions]
+  );
+  const alerts = useMemo(
+    () =>
+      findGoalAlerts(goals, sessions, settings).filter((alert) =>
+        isAlertVisible(alert, alertStates[alert.id])
+      ),
+    [goals, sessions, settings, alertStates]
+  );
+
+  // Re-read records after changes that touch several at once
+  const loadRecords = useCallback(async () => {
+    const [loadedClients, loadedGoals, loadedSessions] = await Promise.all([
+      ClientStorage.getAll(),
+      GoalStorage.getAll(),
+      SessionStorage.getAll(),
+    ]);
+
+    setAllClients(loadedClients);
+    setAllGoals(loadedGoals);
+    setAllSessions(loadedSessions);
+  }, []);
 
   // Load all data on mount
   const loadData = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [loadedClients, loadedGoals, loadedSessions, loadedSettings] = await Promise.all([
-        ClientStorage.getAll(),
-        GoalStorage.getAll(),
-        SessionStorage.getAll(),
-        SettingsStorage.get(),
-      ]);
-
-      setClients(loadedClients);
-      setGoals(loadedGoals);
-      setSessions(loadedSessions);
+      // Stored data must be on the current schema before anything reads it
+      const migration = await migrateStorage();
+      if (migration.status === 'newer') {
+        setStorageError(
+          `Your data was saved by a newer version of the app (schema ${migration.version}). Update the app to open it.`
+        );
+        return;
+      }
+      if (migration.status === 'failed') {
+        setStorageError('Your data could not be upgraded. Restart the app to try again.');
+        return;
+      }
+      setStorageError(null);
+
+      // Snapshots taken before a reload (an import, say) no longer apply
+      setUndoStack([]);
+      setRedoStack([]);
+      setUndoToast(null);
+
+      const loadedSettings = await SettingsStorage.get();
+      await TrashStorage.purgeExpired(loadedSettings.trashRetentionDays);
+
+      await loadRecords();
       setSettings(loadedSettings);
+      setAlertStates(await AlertStorage.getStates());
     } catch (error) {
       console.error('Error loading data:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [loadRecords]);
 
   useEffect(() => {
     loadData();
   }, [loadData]);
 
+  // History
+  const pushHistory = (label: string, snapshot: Snapshot, showToast: boolean = false) => {
+    setUndoStack((prev) => [...prev, { label, snapshot }].slice(-MAX_HISTORY));
+    setRedoStack([]);
+    setUndoToast(showToast ? { id: Date.now(), message: label } : null);
+  };
+
+  // Run a storage write, recording the touched records for undo if it succeeds
+  const withHistory = async (
+    label: string,
+    ids: SnapshotIds,
+    write: () => Promise<boolean>,
+    showToast: boolean = false
+  ): Promise<boolean> => {
+    const before = await captureSnapshot(ids);
+    const success = await write();
+    if (success) {
+      pushHistory(label, before, showToast);
+    }
+    return success;
+  };
+
+  // Write a snapshot back and move the entry to the other stack
+  const applyHistory = async (
+    from: HistoryEntry[],
+    setFrom: React.Dispatch<React.SetStateAction<HistoryEntry[]>>,
+    setTo: React.Dispatch<React.SetStateAction<HistoryEntry[]>>
+  ): Promise<boolean> => {
+    const entry = from[from.length - 1];
+    if (!entry || isApplyingHistory.current) return false;
+
+    isApplyingHistory.current = true;
+    try {
+      const current = await recaptureSnapshot(entry.snapshot);
+      const success = await applySnapshot(entry.snapshot);
+      if (success) {
+        setFrom((prev) => prev.slice(0, -1));
+        setTo((prev) => [...prev, { label: entry.label, snapshot: current }]);
+        await loadRecords();
+        if (entry.snapshot.settings) {
+          setSettings(await SettingsStorage.get());
+        }
+      }
+      setUndoToast(null);
+      return success;
+    } finally {
+      isApplyingHistory.current = false;
+    }
+  };
+
+  const undo = (): Promise<boolean> => applyHistory(undoStack, setUndoStack, setRedoStack);
+
+  const redo = (): Promise<boolean> => applyHistory(redoStack, setRedoStack, setUndoStack);
+
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+
   // Client operations
   const addClient = async (client: Client): Promise<boolean> => {
-    const success = await ClientStorage.save(client);
+    const success = await withHistory('Client added', { clients: [client.id] }, () =>
+      ClientStorage.save(client)
+    );
     if (success) {
-      setClients((prev) => [...prev, client]);
+      setAllClients((prev) => [...prev, client]);
     }
     return success;
   };
 
   const updateClient = async (client: Client): Promise<boolean> => {
-    const success = await ClientStorage.save(client);
+    const previous = allClients.find((c) => c.id === client.id);
+    const activeChanged = !!previous && previous.isActive !== client.isActive;
+    const success = await withHistory(
+      activeChanged ? `Client marked ${client.isActive ? 'active' : 'inactive'}` : 'Client updated',
+      { clients: [client.id] },
+      () => ClientStorage.save(client),
+      activeChanged
+    );
     if (success) {
-      setClients((prev) => prev.map((c) => (c.id === client.id ? client : c)));
+      setAllClients((prev) => prev.map((c) => (c.id === client.id ? client : c)));
     }
     return success;
   };
 
+  // Moves the client, its goals and its sessions to the trash
   const deleteClient = async (id: string): Promise<boolean> => {
-    const success = await ClientStorage.delete(id);
+    const ids = {
+      clients: [id],
+      goals: goals.filter((g) => g.clientId === id).map((g) => g.id),
+      sessions: sessions.filter((s) => s.clientId === id).map((s) => s.id),
+    };
+    const success = await withHistory(
+      'Client moved to trash',
+      ids,
+      () => ClientStorage.delete(id),
+      true
+    );
     if (success) {
-      setClients((prev) => prev.filter((c) => c.id !== id));
-      setGoals((prev) => prev.filter((g) => g.clientId !== id));
-      setSessions((prev) => prev.filter((s) => s.clientId !== id));
+      await loadRecords();
     }
     return success;
   };
@@ -123,25 +299,41 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   // Goal operations
   const addGoal = async (goal: Goal): Promise<boolean> => {
-    const success = await GoalStorage.save(goal);
+    const success = await withHistory('Goal added', { goals: [goal.id] }, () =>
+      GoalStorage.save(goal)
+    );
     if (success) {
-      setGoals((prev) => [...prev, goal]);
+      setAllGoals((prev) => [...prev, goal]);
     }
     return success;
   };
 
   const updateGoal = async (goal: Goal): Promise<boolean> => {
-    const success = await GoalStorage.save(goal);
+    const previous = allGoals.find((g) => g.id === goal.id);
+    const statusChanged = !!previous && previous.status !== goal.status;
+    const success = await withHistory(
+      statusChanged ? `Goal marked ${goal.status}` : 'Goal updated',
+      { goals: [goal.id] },
+      () => GoalStorage.save(goal),
+      statusChanged
+    );
     if (success) {
-      setGoals((prev) => prev.map((g) => (g.id === goal.id ? goal : g)));
+      // Storage works out the accuracy, so keep the goal as it was saved
+      const saved = (await GoalStorage.getById(goal.id)) ?? goal;
+      setAllGoals((prev) => prev.map((g) => (g.id === goal.id ? saved : g)));
     }
     return success;
   };
 
   const deleteGoal = async (id: string): Promise<boolean> => {
-    const success = await GoalStorage.delete(id);
+    const success = await withHistory(
+      'Goal moved to trash',
+      { goals: [id, ...goals.filter((g) => g.parentGoalId === id).map((g) => g.id)] },
+      () => GoalStorage.delete(id),
+      true
+    );
     if (success) {
-      setGoals((prev) => prev.filter((g) => g.id !== id));
+      await loadRecords();
     }
     return success;
   };
@@ -159,26 +351,59 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   // Session operations
+  // Saving or deleting a session works out its goals' accuracy again, so
+  // undo needs those goals too
+  const sessionGoalIds = (...changed: (Session | undefined)[]): string[] => [
+    ...new Set(changed.flatMap((session) => session?.goals ?? [])),
+  ];
+
   const addSession = async (session: Session): Promise<boolean> => {
-    const success = await SessionStorage.save(session);
+    const success = await withHistory(
+      'Session added',
+      { sessions: [session.id], goals: sessionGoalIds(session) },
+      () => SessionStorage.save(session)
+    );
     if (success) {
-      setSessions((prev) => [...prev, session]);
+      await loadRecords();
     }
     return success;
   };
 
   const updateSession = async (session: Session): Promise<boolean> => {
-    const success = await SessionStorage.save(session);
+    const previous = sessions.find((s) => s.id === session.id);
+    const success = await withHistory(
+      'Session updated',
+      { sessions: [session.id], goals: sessionGoalIds(session, previous) },
+      () => SessionStorage.save(session)
+    );
     if (success) {
-      setSessions((prev) => prev.map((s) => (s.id === session.id ? session : s)));
+      await loadRecords();
     }
     return success;
   };
 
   const deleteSession = async (id: string): Promise<boolean> => {
-    const success = await SessionStorage.delete(id);
+    const success = await withHistory(
+      'Session moved to trash',
+      { sessions: [id], goals: sessionGoalIds(sessions.find((s) => s.id === id)) },
+      () => SessionStorage.delete(id),
+      true
+    );
+    if (success) {
+      await loadRecords();
+    }
+    return success;
+  };
+
+  // Save a finished session; storage works out its goals' accuracy again
+  const completeSession = async (session: Session): Promise<boolean> => {
+    const success = await withHistory(
+      'Session saved',
+      { sessions: [session.id], goals: sessionGoalIds(session) },
+      () => SessionStorage.save(session)
+    );
     if (success) {
-      setSessions((prev) => prev.filter((s) => s.id !== id));
+      await loadRecords();
     }
     return success;
   };
@@ -199,15 +424,64 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
   };
 
+  // Trash operations
+  const restoreFromTrash = async (groupId: string): Promise<boolean> => {
+    const success = await TrashStorage.restore(groupId);
+    if (success) {
+      await loadRecords();
+    }
+    return success;
+  };
+
+  const purgeFromTrash = async (groupIds: string[]): Promise<boolean> => {
+    const success = await TrashStorage.purge(groupIds);
+    if (success) {
+      // Undoing an earlier delete would bring purged records back
+      setUndoStack([]);
+      setRedoStack([]);
+      setUndoToast(null);
+      await loadRecords();
+    }
+    return success;
+  };
+
   // Settings operations
   const updateSettings = async (newSettings: AppSettings): Promise<boolean> => {
-    const success = await SettingsStorage.save(newSettings);
+    // A new accuracy method recalculates every goal
+    const methodChanged = !isSameAccuracyMethod(
+      settings.accuracyMethod,
+      newSettings.accuracyMethod
+    );
+    const success = await withHistory(
+      'Settings updated',
+      { settings: true, goals: methodChanged ? goals.map((g) => g.id) : [] },
+      () => SettingsStorage.save(newSettings)
+    );
     if (success) {
       setSettings(newSettings);
+      if (methodChanged) {
+        await loadRecords();
+      }
+    }
+    return success;
+  };
+
+  // Alert operations
+  const saveAlertState = async (alert: GoalAlert, state: GoalAlertState): Promise<boolean> => {
+    const success = await AlertStorage.saveState(alert.id, state);
+    if (success) {
+      setAlertStates((prev) => ({ ...prev, [alert.id]: state }));
     }
     return success;
   };
 
+  // Hidden until the alert is raised on newer sessions or another target date
+  const dismissAlert = (alert: GoalAlert): Promise<boolean> =>
+    saveAlertState(alert, { dismissedBasis: alert.basis });
+
+  const snoozeAlert = (alert: GoalAlert, days: number): Promise<boolean> =>
+    saveAlertState(alert, { snoozedUntil: addDays(new Date(), days).toISOString() });
+
   // Refresh data
   const refreshData = async (): Promise<void> => {
     await loadData();
@@ -218,7 +492,10 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     goals,
     sessions,
     settings,
+    trash,
+    alerts,
     isLoading,
+    storageError,
     addClient,
     updateClient,
     deleteClient,
@@ -232,11 +509,23 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     addSession,
     updateSession,
     deleteSession,
+    completeSession,
     getSession,
     getSessionsByClient,
     getSessionsByGoal,
+    restoreFromTrash,
+    purgeFromTrash,
     updateSettings,
+    dismissAlert,
+    snoozeAlert,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undo,
+    redo,
+    undoToast,
+    dismissUndoToast,
     refreshData,
+    reloadRecords: loadRecords,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
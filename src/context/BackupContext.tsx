@@ -0,0 +1,162 @@
+// Backup context: automatic backups on schedule, and restoring them
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import {
+  BackupFolder,
+  BackupSnapshot,
+  createSnapshot,
+  listSnapshots,
+  restoreSnapshot as restoreFromFolder,
+  runScheduledBackup,
+} from '../services/autoBackup';
+import { openBackupFolder } from '../services/backupFolder';
+import { useApp } from './AppContext';
+import { useSecurity } from './SecurityContext';
+
+interface BackupContextType {
+  isAvailable: boolean; // false in a plain browser, which has nowhere to keep files
+  folderLocation: string | null;
+  snapshots: BackupSnapshot[]; // newest first
+  isBackingUp: boolean;
+  backUpNow: () => Promise<boolean>;
+  restoreSnapshot: (snapshot: BackupSnapshot) => Promise<boolean>;
+  refreshSnapshots: () => Promise<void>;
+}
+
+// How often to check whether a scheduled backup is due while the app is open
+const CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Changes are backed up this long after the last one, so finishing a session
+// and editing it straight after makes one backup
+const CHANGE_CHECK_DELAY = 30 * 1000;
+
+const BackupContext = createContext<BackupContextType | undefined>(undefined);
+
+export const BackupProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { status: securityStatus } = useSecurity();
+  const { clients, sessions, settings, isLoading, refreshData } = useApp();
+  const [folder, setFolder] = useState<BackupFolder | null>(null);
+  const [snapshots, setSnapshots] = useState<BackupSnapshot[]>([]);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const isRunning = useRef(false);
+
+  // Storage can't be read while locked
+  const isUnlocked = securityStatus === 'unlocked';
+
+  useEffect(() => {
+    if (!isUnlocked) return;
+    let isCurrent = true;
+
+    openBackupFolder(settings.autoBackupFolder)
+      .then(async (opened) => {
+        if (!isCurrent) return;
+        setFolder(opened);
+        setSnapshots(opened ? await listSnapshots(opened) : []);
+      })
+      .catch((error) => {
+        console.error('Error opening the backup folder:', error);
+        if (isCurrent) {
+          setFolder(null);
+          setSnapshots([]);
+        }
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [isUnlocked, settings.autoBackupFolder]);
+
+  const refreshSnapshots = useCallback(async () => {
+    if (!folder) return;
+    try {
+      setSnapshots(await listSnapshots(folder));
+    } catch (error) {
+      console.error('Error listing backups:', error);
+    }
+  }, [folder]);
+
+  // Only one backup or restore at a time
+  const runExclusive = useCallback(
+    async (task: (folder: BackupFolder) => Promise<boolean>): Promise<boolean> => {
+      if (!folder || isRunning.current) return false;
+      isRunning.current = true;
+      setIsBackingUp(true);
+      try {
+        return await task(folder);
+      } catch (error) {
+        console.error('Error with automatic backups:', error);
+        return false;
+      } finally {
+        isRunning.current = false;
+        setIsBackingUp(false);
+        await refreshSnapshots();
+      }
+    },
+    [folder, refreshSnapshots]
+  );
+
+  const backUpNow = useCallback(
+    () =>
+      runExclusive(async (target) => {
+        await createSnapshot(target, settings.autoBackupKeep);
+        return true;
+      }),
+    [runExclusive, settings.autoBackupKeep]
+  );
+
+  const backUpIfDue = useCallback(
+    () =>
+      runExclusive(async (target) => {
+        await runScheduledBackup(target, settings, { clients, sessions });
+        return true;
+      }),
+    [runExclusive, settings, clients, sessions]
+  );
+
+  // On start, after changes and then periodically
+  useEffect(() => {
+    if (!isUnlocked || isLoading || !folder) return;
+    const timer = setTimeout(backUpIfDue, CHANGE_CHECK_DELAY);
+    const interval = setInterval(backUpIfDue, CHECK_INTERVAL);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(interval);
+    };
+  }, [isUnlocked, isLoading, folder, backUpIfDue]);
+
+  const restoreSnapshot = (snapshot: BackupSnapshot): Promise<boolean> =>
+    runExclusive(async (source) => {
+      const result = await restoreFromFolder(source, snapshot);
+      if (!result) return false;
+      await refreshData();
+      return true;
+    });
+
+  const value: BackupContextType = {
+    isAvailable: folder !== null,
+    folderLocation: folder?.location ?? null,
+    snapshots,
+    isBackingUp,
+    backUpNow,
+    restoreSnapshot,
+    refreshSnapshots,
+  };
+
+  return <BackupContext.Provider value={value}>{children}</BackupContext.Provider>;
+};
+
+export const useBackups = (): BackupContextType => {
+  const context = useContext(BackupContext);
+  if (!context) {
+    throw new Error('useBackups must be used within a BackupProvider');
+  }
+  return context;
+};
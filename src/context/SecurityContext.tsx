@@ -0,0 +1,106 @@
+// Security context: passcode setup, unlock and the encryption key lifecycle
+
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { SecurityStorage, SecurityStatus } from '../services/storage';
+
+interface SecurityContextType {
+  status: SecurityStatus | 'loading';
+  // True once data has been decrypted this run. Locking after that keeps the
+  // app mounted behind the lock screen so unsaved work (like a session in
+  // progress) survives an auto-lock; it stays in memory, but the key to the
+  // stored data doesn't.
+  isDataOpen: boolean;
+  // Set while wrong attempts have unlocking on hold
+  lockedUntil: string | null;
+  // Set when the storage holding the data can't be opened
+  storageError: string | null;
+
+  setupPasscode: (passcode: string) => Promise<boolean>;
+  unlock: (passcode: string) => Promise<boolean>;
+  changePasscode: (currentPasscode: string, newPasscode: string) => Promise<boolean>;
+  lock: () => void;
+}
+
+const SecurityContext = createContext<SecurityContextType | undefined>(undefined);
+
+export const SecurityProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [status, setStatus] = useState<SecurityStatus | 'loading'>('loading');
+  const [isDataOpen, setIsDataOpen] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const [loadedStatus, lockout] = await Promise.all([
+        SecurityStorage.getStatus(),
+        SecurityStorage.getLockout(),
+      ]);
+      setLockedUntil(lockout.lockedUntil);
+      setStatus(loadedStatus);
+    } catch (error) {
+      console.error('Error opening storage:', error);
+      setStorageError(
+        error instanceof Error ? error.message : 'Your data could not be opened.'
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const setupPasscode = async (passcode: string): Promise<boolean> => {
+    const success = await SecurityStorage.setup(passcode);
+    if (success) {
+      setIsDataOpen(true);
+      setStatus('unlocked');
+    }
+    return success;
+  };
+
+  const unlock = async (passcode: string): Promise<boolean> => {
+    const result = await SecurityStorage.unlock(passcode);
+    if (result.success) {
+      setLockedUntil(null);
+      setIsDataOpen(true);
+      setStatus('unlocked');
+      return true;
+    }
+    setLockedUntil(result.lockedUntil);
+    return false;
+  };
+
+  const changePasscode = async (
+    currentPasscode: string,
+    newPasscode: string
+  ): Promise<boolean> => {
+    return SecurityStorage.changePasscode(currentPasscode, newPasscode);
+  };
+
+  // The key is derived again from the passcode on unlock
+  const lock = useCallback(() => {
+    setStatus((prev) => (prev === 'unlocked' ? 'locked' : prev));
+    SecurityStorage.lock().catch((error) => console.error('Error locking storage:', error));
+  }, []);
+
+  const value: SecurityContextType = {
+    status,
+    isDataOpen,
+    lockedUntil,
+    storageError,
+    setupPasscode,
+    unlock,
+    changePasscode,
+    lock,
+  };
+
+  return <SecurityContext.Provider value={value}>{children}</SecurityContext.Provider>;
+};
+
+export const useSecurity = (): SecurityContextType => {
+  const context = useContext(SecurityContext);
+  if (!context) {
+    throw new Error('useSecurity must be used within a SecurityProvider');
+  }
+  return context;
+};
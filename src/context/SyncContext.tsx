@@ -0,0 +1,143 @@
+// Sync context: background sync with the clinic's server and its status
+
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useRef,
+  ReactNode,
+} from 'react';
+import { SyncState } from '../types';
+import { SyncStorage } from '../services/storage';
+import { SyncResult, runSync, configureSync as saveSyncConfig } from '../services/syncEngine';
+import { useApp } from './AppContext';
+import { useSecurity } from './SecurityContext';
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error';
+
+interface SyncContextType {
+  syncState: SyncState | null;
+  status: SyncStatus;
+  pendingCount: number; // records changed here and not pushed yet
+  syncNow: () => Promise<SyncResult>;
+  configureSync: (serverUrl: string, token: string) => Promise<boolean>;
+}
+
+// Sync this often while the app is open, to pick up other devices' changes
+const SYNC_INTERVAL = 5 * 60 * 1000;
+
+// Local changes are pushed this long after the last one
+const CHANGE_SYNC_DELAY = 10 * 1000;
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { status: securityStatus } = useSecurity();
+  const { clients, goals, sessions, reloadRecords } = useApp();
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isRunning = useRef(false);
+
+  // Storage can't be read or written while locked
+  const isUnlocked = securityStatus === 'unlocked';
+  const isConfigured = !!syncState?.serverUrl;
+
+  const loadSyncState = useCallback(async () => {
+    try {
+      const [state, count] = await Promise.all([
+        SyncStorage.getState(),
+        SyncStorage.getPendingCount(),
+      ]);
+      setSyncState(state);
+      setPendingCount(count);
+    } catch (error) {
+      console.error('Error loading sync state:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isUnlocked) loadSyncState();
+  }, [isUnlocked, loadSyncState]);
+
+  const syncNow = useCallback(async (): Promise<SyncResult> => {
+    if (isRunning.current) {
+      return { success: false, error: 'A sync is already in progress' };
+    }
+
+    isRunning.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await runSync();
+      if (result.success && result.pulled > 0) {
+        await reloadRecords();
+      }
+      return result;
+    } finally {
+      isRunning.current = false;
+      setIsSyncing(false);
+      await loadSyncState();
+    }
+  }, [reloadRecords, loadSyncState]);
+
+  // On start and then periodically. A failed sync just waits for the next
+  // one, so working offline needs nothing special.
+  useEffect(() => {
+    if (!isUnlocked || !isConfigured) return;
+    syncNow();
+    const interval = setInterval(syncNow, SYNC_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isUnlocked, isConfigured, syncNow]);
+
+  // Push local changes shortly after they're made
+  useEffect(() => {
+    if (!isUnlocked) return;
+    let isCurrent = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    SyncStorage.getPendingCount().then((count) => {
+      if (!isCurrent) return;
+      setPendingCount(count);
+      if (count > 0 && isConfigured) {
+        timer = setTimeout(syncNow, CHANGE_SYNC_DELAY);
+      }
+    });
+
+    return () => {
+      isCurrent = false;
+      if (timer) clearTimeout(timer);
+    };
+  }, [clients, goals, sessions, isUnlocked, isConfigured, syncNow]);
+
+  const configureSync = async (serverUrl: string, token: string): Promise<boolean> => {
+    const success = await saveSyncConfig(serverUrl, token);
+    await loadSyncState();
+    return success;
+  };
+
+  const getStatus = (): SyncStatus => {
+    if (!isConfigured) return 'off';
+    if (isSyncing) return 'syncing';
+    return syncState?.lastError ? 'error' : 'idle';
+  };
+
+  const value: SyncContextType = {
+    syncState,
+    status: getStatus(),
+    pendingCount,
+    syncNow,
+    configureSync,
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
+
+export const useSync = (): SyncContextType => {
+  const context = useContext(SyncContext);
+  if (!context) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+};
@@ -0,0 +1,104 @@
+import React, { useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { View, Text, StyleSheet, AppState, Platform } from 'react-native';
+import { useApp } from '../context/AppContext';
+import { useSecurity } from '../context/SecurityContext';
+import { PasscodeScreen } from '../screens';
+import { Colors } from '../utils/colors';
+
+// How often to check for inactivity while the app is in the foreground
+const IDLE_CHECK_INTERVAL = 10 * 1000;
+
+// Locks the app after settings.autoLockMinutes without a touch or key press,
+// and hides client data whenever the app is in the background
+export const AppLockGate: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { status, lock } = useSecurity();
+  const { settings } = useApp();
+  const [isBackgrounded, setIsBackgrounded] = useState(AppState.currentState !== 'active');
+  const lastActivity = useRef(Date.now());
+
+  const timeoutMs = settings.autoLockMinutes * 60 * 1000;
+  const isLocked = status === 'locked';
+
+  const recordActivity = useCallback(() => {
+    lastActivity.current = Date.now();
+  }, []);
+
+  const lockIfIdle = useCallback(() => {
+    if (timeoutMs > 0 && Date.now() - lastActivity.current >= timeoutMs) {
+      lock();
+    }
+  }, [timeoutMs, lock]);
+
+  // Idle timer
+  useEffect(() => {
+    if (isLocked || timeoutMs === 0) return;
+    recordActivity();
+    const interval = setInterval(lockIfIdle, IDLE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isLocked, timeoutMs, lockIfIdle, recordActivity]);
+
+  // Timers don't run in the background, so check the elapsed time on return
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        lockIfIdle();
+        setIsBackgrounded(false);
+      } else {
+        setIsBackgrounded(true);
+      }
+    });
+    return () => subscription.remove();
+  }, [lockIfIdle]);
+
+  // Typing counts as activity on web and the desktop app
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+    document.addEventListener('keydown', recordActivity);
+    return () => document.removeEventListener('keydown', recordActivity);
+  }, [recordActivity]);
+
+  return (
+    <View
+      style={styles.container}
+      onStartShouldSetResponderCapture={() => {
+        recordActivity();
+        return false;
+      }}
+    >
+      {children}
+
+      {isLocked && (
+        <View style={StyleSheet.absoluteFill}>
+          <PasscodeScreen />
+        </View>
+      )}
+
+      {isBackgrounded && !isLocked && (
+        <View style={[StyleSheet.absoluteFill, styles.privacyCover]}>
+          <Text style={styles.privacyIcon}>🔒</Text>
+          <Text style={styles.privacyText}>Speech Therapy Pro</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  privacyCover: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.background,
+  },
+  privacyIcon: {
+    fontSize: 40,
+    marginBottom: 12,
+  },
+  privacyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+});
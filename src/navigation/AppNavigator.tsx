@@ -1,8 +1,11 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
-import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { NavigationContainer, useNavigation } from '@react-navigation/native';
+import {
+  createNativeStackNavigator,
+  NativeStackNavigationProp,
+} from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { Text, View, StyleSheet } from 'react-native';
+import { Text, View, StyleSheet, TouchableOpacity } from 'react-native';
 
 import {
   ClientsScreen,
@@ -17,8 +20,19 @@ import {
   ReportsScreen,
   ScheduleScreen,
   SettingsScreen,
+  TrashScreen,
+  AuditLogScreen,
+  BackupsScreen,
+  DataExportScreen,
+  RosterImportScreen,
+  IntegrityScreen,
+  DeidentifiedExportScreen,
+  SearchScreen,
+  AlertsScreen,
 } from '../screens';
 
+import { useApp } from '../context/AppContext';
+import { EmptyState } from '../components';
 import { Colors } from '../utils/colors';
 import { RootStackParamList, MainTabsParamList } from '../types';
 
@@ -51,6 +65,16 @@ const TabIcon: React.FC<{ name: string; focused: boolean }> = ({ name, focused }
   );
 };
 
+// Opens search from a tab's header
+const SearchButton: React.FC = () => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  return (
+    <TouchableOpacity style={styles.headerButton} onPress={() => navigation.navigate('Search')}>
+      <Text style={styles.headerButtonText}>Search</Text>
+    </TouchableOpacity>
+  );
+};
+
 const MainTabs: React.FC = () => {
   return (
     <Tab.Navigator
@@ -83,6 +107,7 @@ const MainTabs: React.FC = () => {
         options={{
           tabBarIcon: ({ focused }) => <TabIcon name="Clients" focused={focused} />,
           headerTitle: 'My Clients',
+          headerRight: () => <SearchButton />,
         }}
       />
       <Tab.Screen
@@ -126,6 +151,17 @@ const ReportsOverviewScreen: React.FC = () => {
 };
 
 export const AppNavigator: React.FC = () => {
+  const { storageError } = useApp();
+
+  // Never show screens over data we can't safely read
+  if (storageError) {
+    return (
+      <View style={styles.storageError}>
+        <EmptyState title="Unable to Open Data" message={storageError} />
+      </View>
+    );
+  }
+
   return (
     <NavigationContainer>
       <Stack.Navigator
@@ -195,6 +231,51 @@ export const AppNavigator: React.FC = () => {
           component={SettingsScreen}
           options={{ title: 'Settings' }}
         />
+        <Stack.Screen
+          name="Trash"
+          component={TrashScreen}
+          options={{ title: 'Trash' }}
+        />
+        <Stack.Screen
+          name="AuditLog"
+          component={AuditLogScreen}
+          options={{ title: 'Audit Log' }}
+        />
+        <Stack.Screen
+          name="Backups"
+          component={BackupsScreen}
+          options={{ title: 'Automatic Backups' }}
+        />
+        <Stack.Screen
+          name="DataExport"
+          component={DataExportScreen}
+          options={{ title: 'Export to Spreadsheet' }}
+        />
+        <Stack.Screen
+          name="RosterImport"
+          component={RosterImportScreen}
+          options={{ title: 'Import Roster' }}
+        />
+        <Stack.Screen
+          name="Integrity"
+          component={IntegrityScreen}
+          options={{ title: 'Data Integrity' }}
+        />
+        <Stack.Screen
+          name="DeidentifiedExport"
+          component={DeidentifiedExportScreen}
+          options={{ title: 'De-identified Export' }}
+        />
+        <Stack.Screen
+          name="Search"
+          component={SearchScreen}
+          options={{ title: 'Search' }}
+        />
+        <Stack.Screen
+          name="Alerts"
+          component={AlertsScreen}
+          options={{ title: 'Needs Attention' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -212,6 +293,18 @@ const styles = StyleSheet.create({
   tabIconFocused: {
     opacity: 1,
   },
+  headerButton: {
+    paddingHorizontal: 16,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: Colors.primary,
+  },
+  storageError: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
   reportsOverview: {
     flex: 1,
     justifyContent: 'center',
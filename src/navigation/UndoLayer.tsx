@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, ReactNode } from 'react';
+import { View, StyleSheet, Platform } from 'react-native';
+import { useApp } from '../context/AppContext';
+import { useSecurity } from '../context/SecurityContext';
+import { UndoToast } from '../components';
+
+// Text fields keep their own undo, so shortcuts typed in them are left alone
+const isEditingText = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable;
+};
+
+// Shows the Undo toast, and on web and the desktop app handles
+// Ctrl/Cmd+Z to undo and Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+export const UndoLayer: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { status } = useSecurity();
+  const { undo, redo, undoToast, dismissUndoToast } = useApp();
+
+  // The listener is added once, so it reads the latest handlers from a ref
+  const handlers = useRef({ undo, redo, isUnlocked: status === 'unlocked' });
+  handlers.current = { undo, redo, isUnlocked: status === 'unlocked' };
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!handlers.current.isUnlocked || isEditingText(event.target)) return;
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handlers.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && event.ctrlKey)) {
+        event.preventDefault();
+        handlers.current.redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      {children}
+
+      {undoToast && (
+        <UndoToast
+          key={undoToast.id}
+          message={undoToast.message}
+          onUndo={undo}
+          onDismiss={dismissUndoToast}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
@@ -15,7 +15,7 @@ import { useApp } from '../context/AppContext';
 import { Button, Input, Card } from '../components';
 import { Colors } from '../utils/colors';
 import { RootStackParamList, Client } from '../types';
-import { generateId } from '../utils/helpers';
+import { generateId, isValidDateInput, formatDateForStorage } from '../utils/helpers';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -48,8 +48,7 @@ export const AddClientScreen: React.FC = () => {
       newErrors.firstName = 'First name is required';
     }
     if (dateOfBirth.trim()) {
-      const dateRegex = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})$/;
-      if (!dateRegex.test(dateOfBirth.trim())) {
+      if (!isValidDateInput(dateOfBirth.trim())) {
         newErrors.dateOfBirth = 'Enter date as MM/DD/YYYY';
       }
     }
@@ -57,15 +56,6 @@ export const AddClientScreen: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const formatDateForStorage = (date: string): string => {
-    if (!date) return '';
-    if (date.includes('/')) {
-      const [month, day, year] = date.split('/');
-      return year + '-' + month.padStart(2, '0') + '-' + day.padStart(2, '0');
-    }
-    return date;
-  };
-
   const handleSave = async () => {
     if (!validateForm()) return;
     setIsLoading(true);
@@ -12,10 +12,23 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useApp } from '../context/AppContext';
-import { Button, Input, Card } from '../components';
+import { Button, Input, Card, MasteryCriteriaEditor, AccuracyMethodEditor } from '../components';
 import { Colors, GoalCategoryColors } from '../utils/colors';
-import { RootStackParamList, Goal, GoalCategory } from '../types';
-import { generateId, getGoalCategoryLabel } from '../utils/helpers';
+import {
+  RootStackParamList,
+  Goal,
+  GoalCategory,
+  MasteryCriteria,
+  AccuracyMethod,
+} from '../types';
+import {
+  generateId,
+  getGoalCategoryLabel,
+  isValidDateInput,
+  formatDateForStorage,
+} from '../utils/helpers';
+import { describeMastery } from '../services/mastery';
+import { describeAccuracyMethod } from '../services/accuracy';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RouteProps = RouteProp<RootStackParamList, 'AddGoal'>;
@@ -45,16 +58,28 @@ const GOAL_TEMPLATES = [
 export const AddGoalScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RouteProps>();
-  const { clientId } = route.params;
+  const { clientId, parentGoalId: initialParentId } = route.params;
+
+  const { addGoal, settings, getGoalsByClient, getGoal } = useApp();
 
-  const { addGoal, settings } = useApp();
+  // Objectives sit under a long-term goal that isn't an objective itself
+  const longTermGoals = getGoalsByClient(clientId).filter(
+    (goal) => !goal.parentGoalId && goal.status !== 'discontinued'
+  );
 
+  const [parentGoalId, setParentGoalId] = useState<string | undefined>(initialParentId);
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
-  const [category, setCategory] = useState<GoalCategory>('articulation');
+  const [category, setCategory] = useState<GoalCategory>(
+    (initialParentId && getGoal(initialParentId)?.category) || 'articulation'
+  );
   const [targetAccuracy, setTargetAccuracy] = useState(
     settings.defaultTargetAccuracy.toString()
   );
+  const [targetDate, setTargetDate] = useState('');
+  // Left unset, the goal follows the default criteria from settings
+  const [mastery, setMastery] = useState<MasteryCriteria | undefined>(undefined);
+  const [accuracyMethod, setAccuracyMethod] = useState<AccuracyMethod | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showTemplates, setShowTemplates] = useState(false);
@@ -72,6 +97,10 @@ export const AddGoalScreen: React.FC = () => {
       newErrors.targetAccuracy = 'Enter a value between 1 and 100';
     }
 
+    if (targetDate.trim() && !isValidDateInput(targetDate.trim())) {
+      newErrors.targetDate = 'Enter date as MM/DD/YYYY or YYYY-MM-DD';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -87,7 +116,11 @@ export const AddGoalScreen: React.FC = () => {
       name: name.trim(),
       description: description.trim() || name.trim(),
       category,
+      parentGoalId: parentGoalId || undefined,
+      mastery,
+      accuracyMethod,
       targetAccuracy: parseInt(targetAccuracy),
+      targetDate: targetDate.trim() ? formatDateForStorage(targetDate.trim()) : undefined,
       currentAccuracy: 0,
       status: 'active',
       createdAt: new Date().toISOString(),
@@ -105,6 +138,11 @@ export const AddGoalScreen: React.FC = () => {
     }
   };
 
+  const chooseParent = (goal?: Goal) => {
+    setParentGoalId(goal?.id);
+    if (goal) setCategory(goal.category);
+  };
+
   const applyTemplate = (template: typeof GOAL_TEMPLATES[0]) => {
     setName(template.name);
     setDescription(template.description);
@@ -150,8 +188,44 @@ export const AddGoalScreen: React.FC = () => {
           </View>
         )}
 
+        {longTermGoals.length > 0 && (
+          <>
+            <Text style={styles.label}>Part Of</Text>
+            <View style={styles.categoryGrid}>
+              <TouchableOpacity
+                style={[styles.categoryButton, !parentGoalId && styles.parentSelected]}
+                onPress={() => chooseParent()}
+              >
+                <Text style={[styles.categoryText, !parentGoalId && styles.parentSelectedText]}>
+                  None (long-term goal)
+                </Text>
+              </TouchableOpacity>
+              {longTermGoals.map((goal) => (
+                <TouchableOpacity
+                  key={goal.id}
+                  style={[
+                    styles.categoryButton,
+                    parentGoalId === goal.id && styles.parentSelected,
+                  ]}
+                  onPress={() => chooseParent(goal)}
+                >
+                  <Text
+                    style={[
+                      styles.categoryText,
+                      parentGoalId === goal.id && styles.parentSelectedText,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {goal.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
         <Input
-          label="Goal Name"
+          label={parentGoalId ? 'Objective Name' : 'Goal Name'}
           placeholder="e.g., /s/ in initial position"
           value={name}
           onChangeText={setName}
@@ -208,7 +282,49 @@ export const AddGoalScreen: React.FC = () => {
           onChangeText={setTargetAccuracy}
           error={errors.targetAccuracy}
           keyboardType="number-pad"
-          hint="Goal is achieved when this accuracy is reached"
+          hint="Accuracy a session needs to count toward mastery"
+        />
+
+        <Input
+          label="Target Date"
+          placeholder="MM/DD/YYYY (optional)"
+          value={targetDate}
+          onChangeText={setTargetDate}
+          error={errors.targetDate}
+          keyboardType="numbers-and-punctuation"
+          hint="Flagged for attention if it passes well short of the target"
+        />
+
+        <Text style={styles.label}>Mastery Criteria</Text>
+        <Text style={styles.masterySummary}>
+          {describeMastery(mastery ?? settings.defaultMastery, parseInt(targetAccuracy) || 0)}
+          {mastery ? '' : ' (default)'}
+        </Text>
+        {mastery && <MasteryCriteriaEditor value={mastery} onChange={setMastery} />}
+        <Button
+          title={mastery ? 'Use Default Criteria' : 'Customize Criteria'}
+          variant="ghost"
+          size="small"
+          onPress={() => setMastery(mastery ? undefined : settings.defaultMastery)}
+          style={styles.masteryToggle}
+        />
+
+        <Text style={styles.label}>Accuracy Method</Text>
+        <Text style={styles.masterySummary}>
+          {describeAccuracyMethod(accuracyMethod ?? settings.accuracyMethod)}
+          {accuracyMethod ? '' : ' (default)'}
+        </Text>
+        {accuracyMethod && (
+          <AccuracyMethodEditor value={accuracyMethod} onChange={setAccuracyMethod} />
+        )}
+        <Button
+          title={accuracyMethod ? 'Use Default Method' : 'Customize Method'}
+          variant="ghost"
+          size="small"
+          onPress={() =>
+            setAccuracyMethod(accuracyMethod ? undefined : settings.accuracyMethod)
+          }
+          style={styles.masteryToggle}
         />
 
         <View style={styles.buttons}>
@@ -219,7 +335,7 @@ export const AddGoalScreen: React.FC = () => {
             style={styles.button}
           />
           <Button
-            title="Add Goal"
+            title={parentGoalId ? 'Add Objective' : 'Add Goal'}
             onPress={handleSave}
             loading={isLoading}
             style={styles.buttonPrimary}
@@ -272,6 +388,10 @@ const styles = StyleSheet.create({
   },
   categoryDot: { width: 8, height: 8, borderRadius: 4, marginRight: 6 },
   categoryText: { fontSize: 14, color: Colors.textSecondary },
+  parentSelected: { backgroundColor: Colors.primary + '20', borderColor: Colors.primary },
+  parentSelectedText: { color: Colors.primary },
+  masterySummary: { fontSize: 14, color: Colors.textSecondary, marginBottom: 12 },
+  masteryToggle: { alignSelf: 'flex-start' },
   buttons: { flexDirection: 'row', gap: 12, marginTop: 24 },
   button: { flex: 1 },
   buttonPrimary: { flex: 2 },
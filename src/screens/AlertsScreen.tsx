@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, FlatList, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useApp } from '../context/AppContext';
+import { EmptyState, GoalAlertCard } from '../components';
+import { Colors } from '../utils/colors';
+import { RootStackParamList } from '../types';
+import { GoalAlert } from '../services/alerts';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+// Alerts across the caseload: every active client's goals
+export const AlertsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { alerts, clients, goals, dismissAlert, snoozeAlert } = useApp();
+
+  const caseloadAlerts = useMemo(() => {
+    const activeClientIds = new Set(clients.filter((c) => c.isActive).map((c) => c.id));
+    return alerts.filter((alert) => activeClientIds.has(alert.clientId));
+  }, [alerts, clients]);
+
+  const getTitle = (alert: GoalAlert) => {
+    const client = clients.find((c) => c.id === alert.clientId);
+    const goal = goals.find((g) => g.id === alert.goalId);
+    return `${client?.firstName ?? ''} ${client?.lastName ?? ''} • ${goal?.name ?? ''}`;
+  };
+
+  const handleAlertAction = async (action: Promise<boolean>) => {
+    if (!(await action)) {
+      Alert.alert('Error', 'Failed to update the alert. Please try again.');
+    }
+  };
+
+  const renderAlert = ({ item }: { item: GoalAlert }) => (
+    <GoalAlertCard
+      alert={item}
+      title={getTitle(item)}
+      onPress={() =>
+        navigation.navigate('GoalDetail', { goalId: item.goalId, clientId: item.clientId })
+      }
+      onDismiss={() => handleAlertAction(dismissAlert(item))}
+      onSnooze={(days) => handleAlertAction(snoozeAlert(item, days))}
+    />
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={caseloadAlerts}
+        renderItem={renderAlert}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          caseloadAlerts.length > 0 ? (
+            <Text style={styles.description}>
+              Goals that have plateaued, slipped after mastery or passed their target date well
+              short of it. Dismissed alerts come back when there are new sessions to judge by.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="Nothing Needs Attention"
+            message="Goals that plateau, slip after mastery or pass their target date far below target will show up here."
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  list: {
+    padding: 16,
+    paddingBottom: 32,
+    flexGrow: 1,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+});
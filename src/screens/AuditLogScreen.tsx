@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { format, parseISO } from 'date-fns';
+import { useApp } from '../context/AppContext';
+import { Card, Badge, EmptyState } from '../components';
+import { Colors } from '../utils/colors';
+import { AuditStorage, SyncStorage } from '../services/storage';
+import { filterAuditLog } from '../services/audit';
+import { RootStackParamList, AuditEntry, AuditAction, AuditFieldChange } from '../types';
+
+type AuditLogRouteProp = RouteProp<RootStackParamList, 'AuditLog'>;
+
+export const AuditLogScreen: React.FC = () => {
+  const route = useRoute<AuditLogRouteProp>();
+  const { clients, goals, sessions, settings } = useApp();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [clientFilter, setClientFilter] = useState<string | undefined>(route.params?.clientId);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    SyncStorage.getState()
+      .then((state) => setDeviceId(state.deviceId))
+      .catch((error) => console.error('Error loading sync state:', error));
+  }, []);
+
+  // Reload whenever the data changes, since every change adds entries
+  useEffect(() => {
+    let isCurrent = true;
+    AuditStorage.getAll().then((loaded) => {
+      if (!isCurrent) return;
+      setEntries(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      isCurrent = false;
+    };
+  }, [clients, goals, sessions, settings]);
+
+  // Every client that appears in the log, named as most recently recorded
+  const clientOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach((entry) => {
+      if (entry.entityType === 'client') names.set(entry.entityId, entry.label);
+    });
+    clients.forEach((c) => names.set(c.id, `${c.firstName} ${c.lastName}`));
+    return [...names.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries, clients]);
+
+  const visibleEntries = useMemo(
+    () => filterAuditLog(entries, clientFilter).slice().reverse(),
+    [entries, clientFilter]
+  );
+
+  const renderChange = (change: AuditFieldChange, action: AuditAction) => (
+    <Text key={change.field} style={styles.changeText}>
+      <Text style={styles.changeField}>{formatFieldName(change.field)}: </Text>
+      {action === 'create'
+        ? formatAuditValue(change.after)
+        : `${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`}
+    </Text>
+  );
+
+  const renderEntry = ({ item }: { item: AuditEntry }) => {
+    const source = describeSource(item, deviceId);
+    return (
+      <Card>
+        <View style={styles.entryHeader}>
+          <Badge
+            label={`${ACTION_LABELS[item.action]} ${ENTITY_LABELS[item.entityType]}`}
+            variant={ACTION_VARIANTS[item.action]}
+            size="small"
+          />
+          <Text style={styles.timestamp}>
+            {format(parseISO(item.timestamp), 'MMM d, yyyy h:mm a')}
+          </Text>
+        </View>
+        <Text style={styles.entryLabel}>{item.label}</Text>
+        {source && <Text style={styles.sourceText}>{source}</Text>}
+        {item.changes
+          .slice(0, MAX_LISTED_CHANGES)
+          .map((change) => renderChange(change, item.action))}
+        {item.changes.length > MAX_LISTED_CHANGES && (
+          <Text style={styles.changeText}>
+            …and {item.changes.length - MAX_LISTED_CHANGES} more fields
+          </Text>
+        )}
+      </Card>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filterBar}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.filterRow}>
+            {[{ id: undefined, name: 'All Clients' }, ...clientOptions].map((option) => (
+              <TouchableOpacity
+                key={option.id ?? 'all'}
+                style={[styles.filterChip, clientFilter === option.id && styles.filterChipActive]}
+                onPress={() => setClientFilter(option.id)}
+              >
+                <Text
+                  style={[
+                    styles.filterText,
+                    clientFilter === option.id && styles.filterTextActive,
+                  ]}
+                >
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={visibleEntries}
+        keyExtractor={(item) => item.id}
+        renderItem={renderEntry}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <EmptyState
+            title="No Changes Recorded"
+            message="Every change to clients, goals, sessions and settings is recorded here."
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const MAX_LISTED_CHANGES = 12;
+const MAX_VALUE_LENGTH = 60;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  restore: 'Restored',
+  purge: 'Purged',
+};
+
+const ACTION_VARIANTS: Record<AuditAction, 'success' | 'info' | 'warning' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'warning',
+  restore: 'success',
+  purge: 'error',
+};
+
+const ENTITY_LABELS: Record<AuditEntry['entityType'], string> = {
+  client: 'Client',
+  goal: 'Goal',
+  session: 'Session',
+  settings: 'Settings',
+};
+
+// Where an entry's change came from, when not made on this device
+const describeSource = (entry: AuditEntry, deviceId: string | null): string | null => {
+  if (entry.source === 'sync') return 'Synced from another device';
+  if (entry.source === 'import') return 'Imported from a file';
+  if (entry.deviceId && deviceId && entry.deviceId !== deviceId) return 'Made on another device';
+  return null;
+};
+
+// targetAccuracy -> Target Accuracy
+const formatFieldName = (field: string): string =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase());
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (Array.isArray(value)) return `${value.length} item${value.length !== 1 ? 's' : ''}`;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterBar: {
+    backgroundColor: Colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+    paddingVertical: 12,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  filterChipActive: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  filterText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    fontWeight: '500',
+  },
+  filterTextActive: {
+    color: Colors.textOnPrimary,
+  },
+  list: {
+    padding: 16,
+    gap: 12,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  entryLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  sourceText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+    marginBottom: 4,
+  },
+  changeText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
+  changeField: {
+    fontWeight: '600',
+    color: Colors.text,
+  },
+});
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Alert } from 'react-native';
+import { useBackups } from '../context/BackupContext';
+import { Card, Button, Badge, EmptyState } from '../components';
+import { Colors } from '../utils/colors';
+import { formatDate, formatTime } from '../utils/helpers';
+import { BackupSnapshot } from '../services/autoBackup';
+
+export const BackupsScreen: React.FC = () => {
+  const { isAvailable, folderLocation, snapshots, isBackingUp, backUpNow, restoreSnapshot, refreshSnapshots } =
+    useBackups();
+  const [restoringFile, setRestoringFile] = useState<string | null>(null);
+
+  // Files may have been added or removed outside the app
+  useEffect(() => {
+    refreshSnapshots();
+  }, [refreshSnapshots]);
+
+  const describeCounts = (snapshot: BackupSnapshot): string =>
+    `${snapshot.clients} client${snapshot.clients !== 1 ? 's' : ''} · ` +
+    `${snapshot.goals} goal${snapshot.goals !== 1 ? 's' : ''} · ` +
+    `${snapshot.sessions} session${snapshot.sessions !== 1 ? 's' : ''}`;
+
+  const handleBackUpNow = async () => {
+    const success = await backUpNow();
+    if (!success) {
+      Alert.alert('Error', 'Failed to back up. Please try again.');
+    }
+  };
+
+  const handleRestore = (snapshot: BackupSnapshot) => {
+    const when = `${formatDate(snapshot.createdAt)} at ${formatTime(snapshot.createdAt)}`;
+    Alert.alert(
+      'Restore Backup',
+      `Replace all clients, goals and sessions with the backup from ${when}? Changes made since then will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            setRestoringFile(snapshot.fileName);
+            const success = await restoreSnapshot(snapshot);
+            setRestoringFile(null);
+            if (success) {
+              Alert.alert('Restored', `Your data is back as it was ${when}.`);
+            } else {
+              Alert.alert(
+                'Error',
+                'Failed to restore the backup. It may be damaged or made with another backup passphrase. Import it from Settings with that passphrase instead.'
+              );
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSnapshot = (snapshot: BackupSnapshot, index: number) => (
+    <Card key={snapshot.fileName} style={styles.snapshotCard}>
+      <View style={styles.snapshotHeader}>
+        <Text style={styles.snapshotTitle}>
+          {formatDate(snapshot.createdAt)} at {formatTime(snapshot.createdAt)}
+        </Text>
+        {index === 0 && <Badge label="Latest" variant="success" size="small" />}
+      </View>
+      <Text style={styles.snapshotDetail}>{describeCounts(snapshot)}</Text>
+
+      <Button
+        title="Restore"
+        onPress={() => handleRestore(snapshot)}
+        loading={restoringFile === snapshot.fileName}
+        disabled={isBackingUp}
+        variant="outline"
+        size="small"
+        style={styles.restoreButton}
+      />
+    </Card>
+  );
+
+  if (!isAvailable) {
+    return (
+      <View style={styles.container}>
+        <EmptyState
+          title="Not Available Here"
+          message="Automatic backups need somewhere to keep files, so they run in the mobile and desktop apps but not in a web browser."
+        />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.description}>
+        Restoring replaces everything in the app with the backup. Backups are saved in{' '}
+        {folderLocation}.
+      </Text>
+
+      <Button
+        title="Back Up Now"
+        onPress={handleBackUpNow}
+        loading={isBackingUp && restoringFile === null}
+        disabled={isBackingUp}
+        fullWidth
+        style={styles.backUpButton}
+      />
+
+      {snapshots.length === 0 ? (
+        <EmptyState
+          title="No Backups Yet"
+          message="Backups appear here as they are made, on the schedule set in Settings."
+        />
+      ) : (
+        snapshots.map(renderSnapshot)
+      )}
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  backUpButton: {
+    marginHorizontal: 16,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  snapshotCard: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  snapshotHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  snapshotTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  snapshotDetail: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  restoreButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,9 +10,26 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useApp } from '../context/AppContext';
-import { Card, Avatar, Button, Badge, ProgressBar, EmptyState } from '../components';
+import {
+  Card,
+  Avatar,
+  Button,
+  Badge,
+  ProgressBar,
+  EmptyState,
+  TrendBadge,
+  GoalAlertCard,
+  Input,
+} from '../components';
 import { Colors, GoalCategoryColors } from '../utils/colors';
 import { RootStackParamList, Goal, Session } from '../types';
+import { exportClients } from '../services/storage';
+import { shareTextFile } from '../services/files';
+import { buildGoalTree, getGoalRollup, GoalNode } from '../services/goalHierarchy';
+import { shouldSuggestAchieved } from '../services/mastery';
+import { buildProgressByGoal } from '../services/analytics';
+import { GoalAlert } from '../services/alerts';
+import { format } from 'date-fns';
 import {
   calculateAge,
   formatDate,
@@ -34,8 +51,15 @@ export const ClientDetailScreen: React.FC = () => {
     getSessionsByClient,
     deleteClient,
     updateClient,
+    settings,
+    alerts,
+    dismissAlert,
+    snoozeAlert,
   } = useApp();
 
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+
   const client = getClient(clientId);
   const goals = getGoalsByClient(clientId);
   const sessions = getSessionsByClient(clientId);
@@ -45,6 +69,16 @@ export const ClientDetailScreen: React.FC = () => {
     [goals]
   );
 
+  // Long-term goals with their active objectives beneath them
+  const goalTree = useMemo(() => buildGoalTree(activeGoals), [activeGoals]);
+
+  const clientAlerts = alerts.filter((alert) => alert.clientId === clientId);
+
+  const progressByGoal = useMemo(
+    () => buildProgressByGoal(activeGoals, sessions, settings.trendWindow),
+    [activeGoals, sessions, settings.trendWindow]
+  );
+
   const recentSessions = useMemo(
     () => sessions.slice(0, 5),
     [sessions]
@@ -66,7 +100,7 @@ export const ClientDetailScreen: React.FC = () => {
   const handleDelete = () => {
     Alert.alert(
       'Delete Client',
-      `Are you sure you want to delete ${client.firstName} ${client.lastName}? This will also delete all their goals and sessions.`,
+      `Are you sure you want to delete ${client.firstName} ${client.lastName}? Their goals and sessions will be moved to the trash with them, and can be restored from Settings.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -89,34 +123,92 @@ export const ClientDetailScreen: React.FC = () => {
     });
   };
 
-  const renderGoal = (goal: Goal) => (
-    <TouchableOpacity
-      key={goal.id}
-      style={styles.goalItem}
-      onPress={() => navigation.navigate('GoalDetail', { goalId: goal.id, clientId })}
-    >
-      <View style={styles.goalHeader}>
-        <View
-          style={[
-            styles.goalCategoryDot,
-            { backgroundColor: GoalCategoryColors[goal.category] },
-          ]}
+  // For handing the client over to another therapist or clinic
+  const handleExport = async () => {
+    setIsExporting(true);
+
+    try {
+      const data = await exportClients([clientId], exportPassphrase || undefined);
+      const name = `${client.firstName}-${client.lastName}`.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const fileName = `speech-therapy-client-${name}-${format(new Date(), 'yyyy-MM-dd')}${
+        exportPassphrase ? '-encrypted' : ''
+      }.json`;
+      const shared = await shareTextFile(fileName, data, {
+        mimeType: 'application/json',
+        dialogTitle: `Export ${client.firstName} ${client.lastName}`,
+      });
+      if (!shared) {
+        Alert.alert('Export Complete', `Client saved to ${fileName}`);
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export this client. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleAlertAction = async (action: Promise<boolean>) => {
+    if (!(await action)) {
+      Alert.alert('Error', 'Failed to update the alert. Please try again.');
+    }
+  };
+
+  const renderAlert = (alert: GoalAlert) => (
+    <GoalAlertCard
+      key={alert.id}
+      alert={alert}
+      title={goals.find((g) => g.id === alert.goalId)?.name ?? ''}
+      onPress={() => navigation.navigate('GoalDetail', { goalId: alert.goalId, clientId })}
+      onDismiss={() => handleAlertAction(dismissAlert(alert))}
+      onSnooze={(days) => handleAlertAction(snoozeAlert(alert, days))}
+    />
+  );
+
+  const renderGoal = (goal: Goal, isObjective: boolean = false) => {
+    const progress = getGoalRollup(goal, goals);
+    return (
+      <TouchableOpacity
+        key={goal.id}
+        style={[styles.goalItem, isObjective && styles.objectiveItem]}
+        onPress={() => navigation.navigate('GoalDetail', { goalId: goal.id, clientId })}
+      >
+        <View style={styles.goalHeader}>
+          <View
+            style={[
+              styles.goalCategoryDot,
+              { backgroundColor: GoalCategoryColors[goal.category] },
+            ]}
+          />
+          <Text style={styles.goalName} numberOfLines={1}>
+            {goal.name}
+          </Text>
+          <TrendBadge trend={progressByGoal[goal.id]?.trend} style={styles.goalBadge} />
+          {shouldSuggestAchieved(goal, goals, sessions, settings.defaultMastery) && (
+            <Badge label="Mastered" variant="success" size="small" style={styles.goalBadge} />
+          )}
+          <Text style={styles.goalChevron}>›</Text>
+        </View>
+        <ProgressBar
+          progress={progress.accuracy}
+          showLabel
+          labelPosition="right"
+          style={styles.goalProgress}
         />
-        <Text style={styles.goalName} numberOfLines={1}>
-          {goal.name}
+        <Text style={styles.goalTarget}>
+          Target: {goal.targetAccuracy}%
+          {progress.objectives > 0 &&
+            ` • ${progress.achievedObjectives} of ${progress.objectives} objectives achieved`}
         </Text>
-        <Text style={styles.goalChevron}>›</Text>
-      </View>
-      <ProgressBar
-        progress={goal.currentAccuracy}
-        showLabel
-        labelPosition="right"
-        style={styles.goalProgress}
-      />
-      <Text style={styles.goalTarget}>
-        Target: {goal.targetAccuracy}%
-      </Text>
-    </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderGoalNode = ({ goal, objectives }: GoalNode) => (
+    <View key={goal.id}>
+      {renderGoal(goal)}
+      {objectives.map((objective) => renderGoal(objective, true))}
+    </View>
   );
 
   const renderSession = (session: Session) => {
@@ -180,6 +272,16 @@ export const ClientDetailScreen: React.FC = () => {
         />
       </View>
 
+      {/* Goal Alerts */}
+      {clientAlerts.length > 0 && (
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Needs Attention</Text>
+          </View>
+          {clientAlerts.map(renderAlert)}
+        </Card>
+      )}
+
       {/* Active Goals */}
       <Card style={styles.section}>
         <View style={styles.sectionHeader}>
@@ -202,7 +304,7 @@ export const ClientDetailScreen: React.FC = () => {
             />
           </View>
         ) : (
-          activeGoals.map(renderGoal)
+          goalTree.map(renderGoalNode)
         )}
       </Card>
 
@@ -255,6 +357,30 @@ export const ClientDetailScreen: React.FC = () => {
           fullWidth
           style={styles.toggleButton}
         />
+        <Button
+          title="View History"
+          variant="ghost"
+          onPress={() => navigation.navigate('AuditLog', { clientId })}
+          fullWidth
+        />
+        <Input
+          label="Export Passphrase"
+          value={exportPassphrase}
+          onChangeText={setExportPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="Recommended"
+          hint="Encrypts the export; share it separately"
+          containerStyle={styles.exportPassphrase}
+        />
+        <Button
+          title="Export Client"
+          variant="ghost"
+          onPress={handleExport}
+          loading={isExporting}
+          fullWidth
+        />
         <Button
           title="Delete Client"
           variant="danger"
@@ -340,6 +466,10 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: Colors.border,
   },
+  objectiveItem: {
+    marginLeft: 20,
+    paddingVertical: 10,
+  },
   goalHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -357,6 +487,9 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: Colors.text,
   },
+  goalBadge: {
+    marginLeft: 8,
+  },
   goalChevron: {
     fontSize: 20,
     color: Colors.textLight,
@@ -402,4 +535,8 @@ const styles = StyleSheet.create({
   toggleButton: {
     marginVertical: 4,
   },
+  exportPassphrase: {
+    marginTop: 8,
+    marginBottom: 0,
+  },
 });
@@ -7,22 +7,35 @@ import {
   TouchableOpacity,
   TextInput,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useApp } from '../context/AppContext';
-import { Card, Avatar, EmptyState, Badge } from '../components';
+import { Card, Avatar, EmptyState, Badge, Button, Input } from '../components';
 import { Colors } from '../utils/colors';
 import { RootStackParamList, Client } from '../types';
 import { calculateAge } from '../utils/helpers';
+import { exportClients, exportFhir, importClients, importFhir } from '../services/storage';
+import { isClientBundle, parseClientBundle } from '../services/clientBundle';
+import { isFhirBundle, parseFhirBundle } from '../services/fhir';
+import { decryptBackup, isEncryptedBackup } from '../services/encryption';
+import { pickTextFile, shareTextFile } from '../services/files';
+import { formatIssue } from '../services/validation';
+import { format } from 'date-fns';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export const ClientsScreen: React.FC = () => {
   const navigation = useNavigation<NavigationProp>();
-  const { clients, isLoading, refreshData, getActiveGoalsByClient } = useApp();
+  const { clients, settings, alerts, isLoading, refreshData, getActiveGoalsByClient } = useApp();
   const [searchQuery, setSearchQuery] = useState('');
   const [showInactive, setShowInactive] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null); // null = not selecting
+  const [isTransferring, setIsTransferring] = useState<'app' | 'fhir' | 'import' | null>(null);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [lockedImport, setLockedImport] = useState<string | null>(null); // awaiting its passphrase
+  const [importPassphrase, setImportPassphrase] = useState('');
 
   const filteredClients = useMemo(() => {
     let result = clients;
@@ -45,16 +58,192 @@ export const ClientsScreen: React.FC = () => {
     );
   }, [clients, searchQuery, showInactive]);
 
+  // Alerts on active clients, as listed on the Alerts screen
+  const alertCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    alerts.forEach((alert) => counts.set(alert.clientId, (counts.get(alert.clientId) ?? 0) + 1));
+    return counts;
+  }, [alerts]);
+  const caseloadAlertCount = clients
+    .filter((c) => c.isActive)
+    .reduce((sum, c) => sum + (alertCounts.get(c.id) ?? 0), 0);
+
+  const toggleSelected = (clientId: string) => {
+    if (!selectedIds) return;
+    const next = new Set(selectedIds);
+    if (next.has(clientId)) {
+      next.delete(clientId);
+    } else {
+      next.add(clientId);
+    }
+    setSelectedIds(next);
+  };
+
+  // 'fhir' writes a FHIR R4 Bundle for record systems that take FHIR. Those
+  // can't open an encrypted file, so only app exports use the passphrase.
+  const handleExport = async (kind: 'app' | 'fhir') => {
+    if (!selectedIds || selectedIds.size === 0) return;
+    setIsTransferring(kind);
+
+    try {
+      const ids = Array.from(selectedIds);
+      const isEncrypted = kind === 'app' && !!exportPassphrase;
+      const data =
+        kind === 'fhir'
+          ? await exportFhir(ids)
+          : await exportClients(ids, exportPassphrase || undefined);
+      const fileName = `speech-therapy-clients${kind === 'fhir' ? '-fhir' : ''}-${format(
+        new Date(),
+        'yyyy-MM-dd'
+      )}${isEncrypted ? '-encrypted' : ''}.json`;
+      const shared = await shareTextFile(fileName, data, {
+        mimeType: kind === 'fhir' ? 'application/fhir+json' : 'application/json',
+        dialogTitle: 'Export Clients',
+      });
+      if (!shared) {
+        Alert.alert('Export Complete', `Clients saved to ${fileName}`);
+      }
+      setSelectedIds(null);
+    } catch (error) {
+      console.error('Export error:', error);
+      Alert.alert('Export Failed', 'Unable to export the clients. Please try again.');
+    } finally {
+      setIsTransferring(null);
+    }
+  };
+
+  const addBundle = async (content: string, isFhir: boolean) => {
+    setIsTransferring('import');
+    const imported = isFhir
+      ? await importFhir(content, settings.defaultTargetAccuracy)
+      : await importClients(content);
+    setIsTransferring(null);
+
+    if (!imported.success) {
+      Alert.alert('Import Failed', imported.issues.slice(0, 3).map(formatIssue).join('\n'));
+      return;
+    }
+
+    await refreshData();
+    const { result } = imported;
+    Alert.alert(
+      'Import Complete',
+      `Added ${result.clients} client${result.clients !== 1 ? 's' : ''} with ${result.goals} goal${
+        result.goals !== 1 ? 's' : ''
+      } and ${result.sessions} session${result.sessions !== 1 ? 's' : ''}.${
+        result.rekeyed > 0
+          ? ` ${result.rekeyed} record${result.rekeyed !== 1 ? 's' : ''} already in use here got a new id.`
+          : ''
+      }`
+    );
+  };
+
+  const handleImport = async () => {
+    try {
+      const content = await pickTextFile('application/json');
+      if (content === null) return;
+
+      if (isEncryptedBackup(content)) {
+        setImportPassphrase('');
+        setLockedImport(content);
+        return;
+      }
+      reviewImport(content);
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', 'Unable to import the clients. Please try again.');
+    }
+  };
+
+  const handleUnlockImport = async () => {
+    if (!lockedImport) return;
+    setIsTransferring('import');
+
+    try {
+      const content = await decryptBackup(lockedImport, importPassphrase);
+      if (content === null) {
+        Alert.alert('Wrong Passphrase', 'The file could not be opened with that passphrase.');
+        return;
+      }
+      setLockedImport(null);
+      reviewImport(content);
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', 'Unable to open the file. Please try again.');
+    } finally {
+      setIsTransferring(null);
+    }
+  };
+
+  // Show what a file would add, and add it if the user agrees
+  const reviewImport = (content: string) => {
+    try {
+      const isFhir = isFhirBundle(content);
+      if (!isFhir && !isClientBundle(content)) {
+        Alert.alert(
+          'Not a Client Export',
+          'Choose a file made with Export on the Clients tab or a client page, or a FHIR Bundle. Full backups are imported from Settings.'
+        );
+        return;
+      }
+
+      const parsed = isFhir
+        ? parseFhirBundle(content, settings.defaultTargetAccuracy)
+        : parseClientBundle(content);
+      if (!parsed.ok) {
+        Alert.alert(
+          'Import Failed',
+          parsed.issues
+            .filter((issue) => issue.severity === 'error')
+            .slice(0, 3)
+            .map(formatIssue)
+            .join('\n')
+        );
+        return;
+      }
+
+      const names = parsed.records.clients
+        .map((client) => `${client.firstName} ${client.lastName}`.trim())
+        .join(', ');
+      Alert.alert(
+        'Import Clients',
+        `Add ${names} with ${parsed.records.goals.length} goal${
+          parsed.records.goals.length !== 1 ? 's' : ''
+        } and ${parsed.records.sessions.length} session${
+          parsed.records.sessions.length !== 1 ? 's' : ''
+        }? Your other clients are not changed.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import', onPress: () => addBundle(content, isFhir) },
+        ]
+      );
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', 'Unable to import the clients. Please try again.');
+    }
+  };
+
   const renderClient = ({ item }: { item: Client }) => {
     const activeGoals = getActiveGoalsByClient(item.id);
     const age = calculateAge(item.dateOfBirth);
+    const isSelected = selectedIds?.has(item.id) ?? false;
+    const alertCount = alertCounts.get(item.id) ?? 0;
 
     return (
       <Card
-        style={styles.clientCard}
-        onPress={() => navigation.navigate('ClientDetail', { clientId: item.id })}
+        style={{ ...styles.clientCard, ...(isSelected && styles.clientCardSelected) }}
+        onPress={() =>
+          selectedIds
+            ? toggleSelected(item.id)
+            : navigation.navigate('ClientDetail', { clientId: item.id })
+        }
       >
         <View style={styles.clientRow}>
+          {selectedIds && (
+            <View style={[styles.checkbox, isSelected && styles.checkboxChecked]}>
+              {isSelected && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+          )}
           <Avatar firstName={item.firstName} lastName={item.lastName} size="medium" />
           <View style={styles.clientInfo}>
             <Text style={styles.clientName}>
@@ -69,10 +258,18 @@ export const ClientsScreen: React.FC = () => {
               </Text>
             )}
           </View>
+          {alertCount > 0 && (
+            <Badge
+              label={`${alertCount} alert${alertCount !== 1 ? 's' : ''}`}
+              variant="warning"
+              size="small"
+              style={styles.alertBadge}
+            />
+          )}
           {!item.isActive && (
             <Badge label="Inactive" variant="default" size="small" />
           )}
-          <Text style={styles.chevron}>›</Text>
+          {!selectedIds && <Text style={styles.chevron}>›</Text>}
         </View>
       </Card>
     );
@@ -100,6 +297,70 @@ export const ClientsScreen: React.FC = () => {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.toolbar}>
+        {selectedIds ? (
+          <>
+            <Text style={styles.toolbarLabel}>{selectedIds.size} selected</Text>
+            <TouchableOpacity
+              onPress={() => setSelectedIds(new Set(filteredClients.map((c) => c.id)))}
+            >
+              <Text style={styles.toolbarAction}>Select All</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setSelectedIds(null)}>
+              <Text style={styles.toolbarAction}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TouchableOpacity onPress={() => setSelectedIds(new Set())} disabled={clients.length === 0}>
+              <Text style={[styles.toolbarAction, clients.length === 0 && styles.toolbarDisabled]}>
+                Export…
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleImport} disabled={isTransferring !== null}>
+              <Text style={styles.toolbarAction}>Import</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('RosterImport')}>
+              <Text style={styles.toolbarAction}>Import Roster</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('Alerts')}>
+              <Text style={styles.toolbarAction}>
+                Alerts{caseloadAlertCount > 0 ? ` (${caseloadAlertCount})` : ''}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {lockedImport && (
+        <Card style={styles.unlockCard}>
+          <Text style={styles.unlockTitle}>Encrypted File</Text>
+          <Input
+            label="Passphrase"
+            value={importPassphrase}
+            onChangeText={setImportPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            hint="Ask whoever exported the clients for it"
+          />
+          <View style={styles.unlockActions}>
+            <Button
+              title="Cancel"
+              variant="ghost"
+              onPress={() => setLockedImport(null)}
+              disabled={isTransferring !== null}
+            />
+            <Button
+              title="Open"
+              onPress={handleUnlockImport}
+              loading={isTransferring === 'import'}
+              disabled={!importPassphrase || isTransferring !== null}
+            />
+          </View>
+        </Card>
+      )}
+
       {filteredClients.length === 0 ? (
         <EmptyState
           title={searchQuery ? 'No Results' : 'No Clients Yet'}
@@ -127,12 +388,42 @@ export const ClientsScreen: React.FC = () => {
         />
       )}
 
-      <TouchableOpacity
-        style={styles.fab}
-        onPress={() => navigation.navigate('AddClient')}
-      >
-        <Text style={styles.fabText}>+</Text>
-      </TouchableOpacity>
+      {selectedIds ? (
+        <View style={styles.exportBar}>
+          <Input
+            label="Export Passphrase"
+            value={exportPassphrase}
+            onChangeText={setExportPassphrase}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            placeholder="Recommended"
+            hint="Encrypts the export; share it separately. FHIR exports stay unencrypted."
+          />
+          <Button
+            title={`Export ${selectedIds.size} Client${selectedIds.size !== 1 ? 's' : ''}`}
+            onPress={() => handleExport('app')}
+            loading={isTransferring === 'app'}
+            disabled={selectedIds.size === 0 || isTransferring !== null}
+            fullWidth
+          />
+          <Button
+            title="Export as FHIR"
+            onPress={() => handleExport('fhir')}
+            loading={isTransferring === 'fhir'}
+            disabled={selectedIds.size === 0 || isTransferring !== null}
+            variant="outline"
+            fullWidth
+          />
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={() => navigation.navigate('AddClient')}
+        >
+          <Text style={styles.fabText}>+</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -178,6 +469,43 @@ const styles = StyleSheet.create({
     color: Colors.primary,
     fontWeight: '600',
   },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 16,
+    gap: 16,
+  },
+  toolbarLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    fontWeight: '600',
+  },
+  toolbarAction: {
+    fontSize: 14,
+    color: Colors.primary,
+    fontWeight: '500',
+    paddingVertical: 4,
+  },
+  toolbarDisabled: {
+    color: Colors.textLight,
+  },
+  unlockCard: {
+    marginHorizontal: 16,
+    marginTop: 8,
+  },
+  unlockTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  unlockActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
   list: {
     padding: 16,
     paddingTop: 8,
@@ -185,6 +513,29 @@ const styles = StyleSheet.create({
   clientCard: {
     marginBottom: 12,
   },
+  clientCardSelected: {
+    borderWidth: 2,
+    borderColor: Colors.primary,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: Colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  checkmark: {
+    color: Colors.textOnPrimary,
+    fontSize: 14,
+    fontWeight: '700',
+  },
   clientRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -193,6 +544,9 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: 12,
   },
+  alertBadge: {
+    marginRight: 8,
+  },
   clientName: {
     fontSize: 16,
     fontWeight: '600',
@@ -213,6 +567,13 @@ const styles = StyleSheet.create({
     color: Colors.textLight,
     marginLeft: 8,
   },
+  exportBar: {
+    gap: 12,
+    padding: 16,
+    backgroundColor: Colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
   fab: {
     position: 'absolute',
     right: 20,
@@ -0,0 +1,310 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { useApp } from '../context/AppContext';
+import { Card, Button, Input } from '../components';
+import { Colors } from '../utils/colors';
+import { RootStackParamList } from '../types';
+import { formatDateForStorage, isValidDateInput } from '../utils/helpers';
+import {
+  CsvExportFilter,
+  buildSummaryCsv,
+  buildTrialsCsv,
+  countExportRows,
+} from '../services/csvExport';
+import { shareTextFile } from '../services/files';
+import { format, startOfYear, subDays } from 'date-fns';
+
+type RouteProps = RouteProp<RootStackParamList, 'DataExport'>;
+
+type DatePreset = '30d' | '90d' | 'year' | 'all';
+
+export const DataExportScreen: React.FC = () => {
+  const route = useRoute<RouteProps>();
+  const { clients, goals, sessions } = useApp();
+
+  const [clientIds, setClientIds] = useState<string[]>(
+    route.params?.clientId ? [route.params.clientId] : []
+  );
+  const [goalIds, setGoalIds] = useState<string[]>([]);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [exporting, setExporting] = useState<'trials' | 'summary' | null>(null);
+
+  const sortedClients = useMemo(
+    () =>
+      [...clients].sort((a, b) =>
+        `${a.lastName}${a.firstName}`.localeCompare(`${b.lastName}${b.firstName}`)
+      ),
+    [clients]
+  );
+
+  // Goals can only be picked once clients are
+  const availableGoals = useMemo(
+    () => goals.filter((goal) => clientIds.includes(goal.clientId)),
+    [goals, clientIds]
+  );
+
+  const fromError = fromDate.trim() && !isValidDateInput(fromDate.trim()) ? DATE_ERROR : undefined;
+  const toError = toDate.trim() && !isValidDateInput(toDate.trim()) ? DATE_ERROR : undefined;
+
+  const filter: CsvExportFilter = {
+    clientIds: clientIds.length > 0 ? clientIds : null,
+    goalIds: goalIds.length > 0 ? goalIds : null,
+    from: fromDate.trim() && !fromError ? formatDateForStorage(fromDate.trim()) : null,
+    to: toDate.trim() && !toError ? formatDateForStorage(toDate.trim()) : null,
+  };
+
+  const counts = countExportRows({ clients, goals, sessions }, filter);
+
+  const toggleClient = (clientId: string) => {
+    if (clientIds.includes(clientId)) {
+      setClientIds(clientIds.filter((id) => id !== clientId));
+      // Drop goals of clients no longer chosen
+      const removedGoals = new Set(
+        goals.filter((goal) => goal.clientId === clientId).map((goal) => goal.id)
+      );
+      setGoalIds(goalIds.filter((id) => !removedGoals.has(id)));
+    } else {
+      setClientIds([...clientIds, clientId]);
+    }
+  };
+
+  const toggleGoal = (goalId: string) => {
+    setGoalIds(
+      goalIds.includes(goalId) ? goalIds.filter((id) => id !== goalId) : [...goalIds, goalId]
+    );
+  };
+
+  const applyPreset = (preset: DatePreset) => {
+    const today = new Date();
+    const start =
+      preset === '30d'
+        ? subDays(today, 30)
+        : preset === '90d'
+          ? subDays(today, 90)
+          : preset === 'year'
+            ? startOfYear(today)
+            : null;
+    setFromDate(start ? format(start, 'yyyy-MM-dd') : '');
+    setToDate(start ? format(today, 'yyyy-MM-dd') : '');
+  };
+
+  const handleExport = async (kind: 'trials' | 'summary') => {
+    if (fromError || toError) {
+      Alert.alert('Invalid Date', DATE_ERROR);
+      return;
+    }
+
+    setExporting(kind);
+    try {
+      const data = { clients, goals, sessions };
+      const csv = kind === 'trials' ? buildTrialsCsv(data, filter) : buildSummaryCsv(data, filter);
+      const fileName = `speech-therapy-${kind}-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      const shared = await shareTextFile(fileName, csv, {
+        mimeType: 'text/csv',
+        dialogTitle: kind === 'trials' ? 'Export Trials' : 'Export Session Summary',
+      });
+      if (!shared) {
+        Alert.alert('Export Complete', `Data saved to ${fileName}`);
+      }
+    } catch (error) {
+      console.error('CSV export error:', error);
+      Alert.alert('Export Failed', 'Unable to export data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Clients</Text>
+        <Text style={styles.sectionDescription}>
+          {clientIds.length === 0 ? 'All clients are included.' : `${clientIds.length} chosen.`}
+        </Text>
+        <View style={styles.chipRow}>
+          {sortedClients.map((client) => {
+            const isSelected = clientIds.includes(client.id);
+            return (
+              <TouchableOpacity
+                key={client.id}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => toggleClient(client.id)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {client.firstName} {client.lastName}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </Card>
+
+      {availableGoals.length > 0 && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Goals</Text>
+          <Text style={styles.sectionDescription}>
+            {goalIds.length === 0
+              ? "All of the chosen clients' goals are included."
+              : `${goalIds.length} chosen.`}
+          </Text>
+          <View style={styles.chipRow}>
+            {availableGoals.map((goal) => {
+              const isSelected = goalIds.includes(goal.id);
+              return (
+                <TouchableOpacity
+                  key={goal.id}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => toggleGoal(goal.id)}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {goal.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </Card>
+      )}
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Session Dates</Text>
+        <View style={styles.optionRow}>
+          {DATE_PRESETS.map(({ value, label }) => (
+            <TouchableOpacity
+              key={value}
+              style={styles.optionButton}
+              onPress={() => applyPreset(value)}
+            >
+              <Text style={styles.optionText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <Input
+          label="From"
+          placeholder="MM/DD/YYYY (optional)"
+          value={fromDate}
+          onChangeText={setFromDate}
+          error={fromError}
+          keyboardType="numbers-and-punctuation"
+        />
+        <Input
+          label="To"
+          placeholder="MM/DD/YYYY (optional)"
+          value={toDate}
+          onChangeText={setToDate}
+          error={toError}
+          keyboardType="numbers-and-punctuation"
+        />
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionDescription}>
+          {counts.trials} trial{counts.trials !== 1 ? 's' : ''} from {counts.sessions} session
+          {counts.sessions !== 1 ? 's' : ''} match. The trials file has a row for each trial;
+          the summary has each goal's accuracy in each session.
+        </Text>
+        <View style={styles.buttonGroup}>
+          <Button
+            title="Export Trials (CSV)"
+            onPress={() => handleExport('trials')}
+            loading={exporting === 'trials'}
+            disabled={counts.trials === 0 || exporting !== null}
+            fullWidth
+          />
+          <Button
+            title="Export Summary (CSV)"
+            onPress={() => handleExport('summary')}
+            loading={exporting === 'summary'}
+            disabled={counts.trials === 0 || exporting !== null}
+            variant="outline"
+            fullWidth
+          />
+        </View>
+      </Card>
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const DATE_ERROR = 'Enter date as MM/DD/YYYY or YYYY-MM-DD';
+
+const DATE_PRESETS: { value: DatePreset; label: string }[] = [
+  { value: '30d', label: '30 Days' },
+  { value: '90d', label: '90 Days' },
+  { value: 'year', label: 'This Year' },
+  { value: 'all', label: 'All Time' },
+];
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.textOnPrimary,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontWeight: '500',
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
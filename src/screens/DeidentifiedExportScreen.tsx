@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useApp } from '../context/AppContext';
+import { Card, Button, Badge } from '../components';
+import { Colors } from '../utils/colors';
+import { formatSessionDate } from '../utils/helpers';
+import { PseudonymStorage } from '../services/storage';
+import {
+  ReviewableNote,
+  buildDeidentifiedTrialsCsv,
+  collectNotes,
+  createDeidentifiedDataset,
+} from '../services/deidentify';
+import { shareTextFile } from '../services/files';
+import { format } from 'date-fns';
+
+export const DeidentifiedExportScreen: React.FC = () => {
+  const { clients, goals, sessions } = useApp();
+
+  const [clientIds, setClientIds] = useState<string[]>([]);
+  const [showNotes, setShowNotes] = useState(false);
+  // Notes someone has read and chosen to keep
+  const [includedNotes, setIncludedNotes] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState<'json' | 'csv' | null>(null);
+
+  const sortedClients = useMemo(
+    () =>
+      [...clients].sort((a, b) =>
+        `${a.lastName}${a.firstName}`.localeCompare(`${b.lastName}${b.firstName}`)
+      ),
+    [clients]
+  );
+
+  // No choice means everyone
+  const chosenIds = useMemo(
+    () => (clientIds.length > 0 ? clientIds : clients.map((client) => client.id)),
+    [clientIds, clients]
+  );
+
+  const notes = useMemo(
+    () => collectNotes({ clients, goals, sessions }, chosenIds),
+    [clients, goals, sessions, chosenIds]
+  );
+  const includedCount = notes.filter((note) => includedNotes.has(note.key)).length;
+
+  const getClientName = (clientId: string): string => {
+    const client = clients.find((c) => c.id === clientId);
+    return client ? `${client.firstName} ${client.lastName}` : '';
+  };
+
+  const toggleClient = (clientId: string) => {
+    setClientIds(
+      clientIds.includes(clientId)
+        ? clientIds.filter((id) => id !== clientId)
+        : [...clientIds, clientId]
+    );
+  };
+
+  const toggleNote = (key: string) => {
+    const next = new Set(includedNotes);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setIncludedNotes(next);
+  };
+
+  const handleExport = async (kind: 'json' | 'csv') => {
+    setExporting(kind);
+    try {
+      const dataset = createDeidentifiedDataset(
+        { clients, goals, sessions },
+        { clientIds: chosenIds, key: await PseudonymStorage.getKey(), includedNotes }
+      );
+      const fileName = `speech-therapy-deidentified-${format(new Date(), 'yyyy-MM-dd')}.${kind}`;
+      const shared = await shareTextFile(
+        fileName,
+        kind === 'json' ? JSON.stringify(dataset, null, 2) : buildDeidentifiedTrialsCsv(dataset),
+        {
+          mimeType: kind === 'json' ? 'application/json' : 'text/csv',
+          dialogTitle: 'Export De-identified Data',
+        }
+      );
+      if (!shared) {
+        Alert.alert('Export Complete', `Data saved to ${fileName}`);
+      }
+    } catch (error) {
+      console.error('De-identified export error:', error);
+      Alert.alert('Export Failed', 'Unable to export data. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderNote = (note: ReviewableNote) => {
+    const isIncluded = includedNotes.has(note.key);
+    return (
+      <View key={note.key} style={styles.noteRow}>
+        <View style={styles.noteHeader}>
+          <Text style={styles.noteContext} numberOfLines={1}>
+            {getClientName(note.clientId)} • {NOTE_KIND_LABELS[note.kind]}
+            {note.date ? `, ${formatSessionDate(note.date)}` : ''}
+          </Text>
+          <TouchableOpacity onPress={() => toggleNote(note.key)}>
+            <Text style={[styles.noteToggle, isIncluded && styles.noteToggleIncluded]}>
+              {isIncluded ? 'Included' : 'Include'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.noteText}>{note.text}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>What Changes</Text>
+        <Text style={styles.sectionDescription}>
+          Names become pseudonyms such as P-3F9A2C41, which stay the same in every export from
+          this device. Dates of birth are replaced by age in months at each session, and each
+          client's dates move by their own number of days, so time between sessions is kept.
+          Goals, sessions and trials are otherwise exported in full.
+        </Text>
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Clients</Text>
+        <Text style={styles.sectionDescription}>
+          {clientIds.length === 0 ? 'All clients are included.' : `${clientIds.length} chosen.`}
+        </Text>
+        <View style={styles.chipRow}>
+          {sortedClients.map((client) => {
+            const isSelected = clientIds.includes(client.id);
+            return (
+              <TouchableOpacity
+                key={client.id}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => toggleClient(client.id)}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                  {client.firstName} {client.lastName}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </Card>
+
+      <Card style={styles.section}>
+        <View style={styles.titleRow}>
+          <Text style={styles.sectionTitle}>Notes</Text>
+          <Badge
+            label={`${includedCount} of ${notes.length} included`}
+            variant={includedCount > 0 ? 'warning' : 'default'}
+            size="small"
+          />
+        </View>
+        <Text style={styles.sectionDescription}>
+          Notes can name people and places, so they are left out. Read a note and include it
+          only if it identifies no one.
+        </Text>
+        {notes.length > 0 && (
+          <Button
+            title={showNotes ? 'Hide Notes' : `Review Notes (${notes.length})`}
+            onPress={() => setShowNotes(!showNotes)}
+            variant="outline"
+            fullWidth
+          />
+        )}
+        {showNotes && notes.map(renderNote)}
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionDescription}>
+          The dataset holds clients, goals, sessions and trials; the spreadsheet has a row for
+          each trial.
+        </Text>
+        <View style={styles.buttonGroup}>
+          <Button
+            title="Export Dataset (JSON)"
+            onPress={() => handleExport('json')}
+            loading={exporting === 'json'}
+            disabled={chosenIds.length === 0 || exporting !== null}
+            fullWidth
+          />
+          <Button
+            title="Export Trials (CSV)"
+            onPress={() => handleExport('csv')}
+            loading={exporting === 'csv'}
+            disabled={chosenIds.length === 0 || exporting !== null}
+            variant="outline"
+            fullWidth
+          />
+        </View>
+      </Card>
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const NOTE_KIND_LABELS: Record<ReviewableNote['kind'], string> = {
+  client: 'Client notes',
+  session: 'Session',
+  trial: 'Trial',
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.textOnPrimary,
+  },
+  noteRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  noteContext: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginRight: 8,
+  },
+  noteToggle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  noteToggleIncluded: {
+    color: Colors.warning,
+  },
+  noteText: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
@@ -13,6 +13,7 @@ import { useApp } from '../context/AppContext';
 import { Button, Input, EmptyState } from '../components';
 import { Colors } from '../utils/colors';
 import { RootStackParamList } from '../types';
+import { isValidDateInput, formatDateForStorage } from '../utils/helpers';
 import { format, parseISO } from 'date-fns';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -63,8 +64,7 @@ export const EditClientScreen: React.FC = () => {
     if (!dateOfBirth.trim()) {
       newErrors.dateOfBirth = 'Date of birth is required';
     } else {
-      const dateRegex = /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})$/;
-      if (!dateRegex.test(dateOfBirth.trim())) {
+      if (!isValidDateInput(dateOfBirth.trim())) {
         newErrors.dateOfBirth = 'Enter date as MM/DD/YYYY or YYYY-MM-DD';
       }
     }
@@ -73,14 +73,6 @@ export const EditClientScreen: React.FC = () => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const formatDateForStorage = (date: string): string => {
-    if (date.includes('/')) {
-      const [month, day, year] = date.split('/');
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-    }
-    return date;
-  };
-
   const handleSave = async () => {
     if (!validateForm()) return;
 
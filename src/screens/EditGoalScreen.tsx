@@ -12,10 +12,25 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useApp } from '../context/AppContext';
-import { Button, Input, EmptyState } from '../components';
+import {
+  Button,
+  Input,
+  EmptyState,
+  MasteryCriteriaEditor,
+  AccuracyMethodEditor,
+} from '../components';
 import { Colors, GoalCategoryColors } from '../utils/colors';
-import { RootStackParamList, GoalCategory } from '../types';
-import { getGoalCategoryLabel } from '../utils/helpers';
+import {
+  RootStackParamList,
+  Goal,
+  GoalCategory,
+  MasteryCriteria,
+  AccuracyMethod,
+} from '../types';
+import { getGoalCategoryLabel, isValidDateInput, formatDateForStorage } from '../utils/helpers';
+import { describeMastery } from '../services/mastery';
+import { describeAccuracyMethod } from '../services/accuracy';
+import { format, parseISO } from 'date-fns';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RouteProps = RouteProp<RootStackParamList, 'EditGoal'>;
@@ -35,15 +50,32 @@ export const EditGoalScreen: React.FC = () => {
   const route = useRoute<RouteProps>();
   const { goalId } = route.params;
 
-  const { getGoal, updateGoal } = useApp();
+  const { getGoal, updateGoal, getGoalsByClient, settings } = useApp();
   const goal = getGoal(goalId);
 
+  // A goal with objectives stays a long-term goal; anything else can move
+  // under another long-term goal
+  const clientGoals = goal ? getGoalsByClient(goal.clientId) : [];
+  const objectiveCount = clientGoals.filter((g) => g.parentGoalId === goalId).length;
+  const longTermGoals = clientGoals.filter(
+    (g) => g.id !== goalId && !g.parentGoalId && g.status !== 'discontinued'
+  );
+
+  const [parentGoalId, setParentGoalId] = useState<string | undefined>(goal?.parentGoalId);
   const [name, setName] = useState(goal?.name || '');
   const [description, setDescription] = useState(goal?.description || '');
   const [category, setCategory] = useState<GoalCategory>(goal?.category || 'articulation');
   const [targetAccuracy, setTargetAccuracy] = useState(
     goal?.targetAccuracy.toString() || '80'
   );
+  const [targetDate, setTargetDate] = useState(
+    goal?.targetDate ? format(parseISO(goal.targetDate), 'MM/dd/yyyy') : ''
+  );
+  // Left unset, the goal follows the default criteria from settings
+  const [mastery, setMastery] = useState<MasteryCriteria | undefined>(goal?.mastery);
+  const [accuracyMethod, setAccuracyMethod] = useState<AccuracyMethod | undefined>(
+    goal?.accuracyMethod
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -76,6 +108,10 @@ export const EditGoalScreen: React.FC = () => {
       newErrors.targetAccuracy = 'Enter a value between 1 and 100';
     }
 
+    if (targetDate.trim() && !isValidDateInput(targetDate.trim())) {
+      newErrors.targetDate = 'Enter date as MM/DD/YYYY or YYYY-MM-DD';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -85,12 +121,16 @@ export const EditGoalScreen: React.FC = () => {
 
     setIsLoading(true);
 
-    const updatedGoal = {
+    const updatedGoal: Goal = {
       ...goal,
       name: name.trim(),
       description: description.trim(),
       category,
+      parentGoalId: parentGoalId || undefined,
+      mastery,
+      accuracyMethod,
       targetAccuracy: parseInt(targetAccuracy),
+      targetDate: targetDate.trim() ? formatDateForStorage(targetDate.trim()) : undefined,
       updatedAt: new Date().toISOString(),
     };
 
@@ -169,6 +209,38 @@ export const EditGoalScreen: React.FC = () => {
           ))}
         </View>
 
+        {objectiveCount > 0 ? (
+          <Text style={styles.hint}>
+            This long-term goal has {objectiveCount} objective{objectiveCount !== 1 ? 's' : ''}, so
+            it can't become an objective itself.
+          </Text>
+        ) : (
+          (longTermGoals.length > 0 || !!parentGoalId) && (
+            <>
+              <Text style={styles.label}>Part Of</Text>
+              <View style={styles.categoryGrid}>
+                {[undefined, ...longTermGoals].map((option) => {
+                  const isSelected = parentGoalId === option?.id;
+                  return (
+                    <TouchableOpacity
+                      key={option?.id ?? 'none'}
+                      style={[styles.categoryButton, isSelected && styles.parentSelected]}
+                      onPress={() => setParentGoalId(option?.id)}
+                    >
+                      <Text
+                        style={[styles.categoryText, isSelected && styles.parentSelectedText]}
+                        numberOfLines={1}
+                      >
+                        {option ? option.name : 'None (long-term goal)'}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )
+        )}
+
         <Input
           label="Target Accuracy (%)"
           placeholder="80"
@@ -177,7 +249,49 @@ export const EditGoalScreen: React.FC = () => {
           error={errors.targetAccuracy}
           required
           keyboardType="number-pad"
-          hint="Goal is achieved when this accuracy is reached"
+          hint="Accuracy a session needs to count toward mastery"
+        />
+
+        <Input
+          label="Target Date"
+          placeholder="MM/DD/YYYY (optional)"
+          value={targetDate}
+          onChangeText={setTargetDate}
+          error={errors.targetDate}
+          keyboardType="numbers-and-punctuation"
+          hint="Flagged for attention if it passes well short of the target"
+        />
+
+        <Text style={styles.label}>Mastery Criteria</Text>
+        <Text style={styles.hint}>
+          {describeMastery(mastery ?? settings.defaultMastery, parseInt(targetAccuracy) || 0)}
+          {mastery ? '' : ' (default)'}
+        </Text>
+        {mastery && <MasteryCriteriaEditor value={mastery} onChange={setMastery} />}
+        <Button
+          title={mastery ? 'Use Default Criteria' : 'Customize Criteria'}
+          variant="ghost"
+          size="small"
+          onPress={() => setMastery(mastery ? undefined : settings.defaultMastery)}
+          style={styles.masteryToggle}
+        />
+
+        <Text style={styles.label}>Accuracy Method</Text>
+        <Text style={styles.hint}>
+          {describeAccuracyMethod(accuracyMethod ?? settings.accuracyMethod)}
+          {accuracyMethod ? '' : ' (default)'}
+        </Text>
+        {accuracyMethod && (
+          <AccuracyMethodEditor value={accuracyMethod} onChange={setAccuracyMethod} />
+        )}
+        <Button
+          title={accuracyMethod ? 'Use Default Method' : 'Customize Method'}
+          variant="ghost"
+          size="small"
+          onPress={() =>
+            setAccuracyMethod(accuracyMethod ? undefined : settings.accuracyMethod)
+          }
+          style={styles.masteryToggle}
         />
 
         <View style={styles.buttons}>
@@ -245,6 +359,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Colors.textSecondary,
   },
+  parentSelected: {
+    backgroundColor: Colors.primary + '20',
+    borderColor: Colors.primary,
+  },
+  parentSelectedText: {
+    color: Colors.primary,
+  },
+  hint: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  masteryToggle: {
+    alignSelf: 'flex-start',
+  },
   buttons: {
     flexDirection: 'row',
     gap: 12,
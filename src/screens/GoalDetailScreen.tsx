@@ -6,14 +6,24 @@ import {
   StyleSheet,
   Alert,
   Dimensions,
+  TouchableOpacity,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LineChart } from 'react-native-chart-kit';
 import { useApp } from '../context/AppContext';
-import { Card, Button, Badge, ProgressBar, EmptyState } from '../components';
+import { Card, Button, Badge, ProgressBar, EmptyState, TrendBadge } from '../components';
 import { Colors, GoalCategoryColors } from '../utils/colors';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, Goal } from '../types';
+import { getGoalRollup, getObjectives } from '../services/goalHierarchy';
+import {
+  describeMastery,
+  evaluateMastery,
+  getMasteryCriteria,
+  shouldSuggestAchieved,
+} from '../services/mastery';
+import { describeAccuracyMethod, getAccuracyMethod } from '../services/accuracy';
+import { buildGoalProgress, describeTrend } from '../services/analytics';
 import {
   getGoalCategoryLabel,
   formatDate,
@@ -31,10 +41,14 @@ export const GoalDetailScreen: React.FC = () => {
   const route = useRoute<RouteProps>();
   const { goalId, clientId } = route.params;
 
-  const { getGoal, getSessionsByGoal, deleteGoal, updateGoal } = useApp();
+  const { getGoal, getGoalsByClient, getSessionsByGoal, deleteGoal, updateGoal, settings } =
+    useApp();
 
   const goal = getGoal(goalId);
   const sessions = getSessionsByGoal(goalId);
+  const clientGoals = getGoalsByClient(clientId);
+  const parentGoal = goal?.parentGoalId ? getGoal(goal.parentGoalId) : undefined;
+  const objectives = getObjectives(goalId, clientGoals);
 
   const progressData = useMemo(() => {
     if (sessions.length === 0) return null;
@@ -75,10 +89,28 @@ export const GoalDetailScreen: React.FC = () => {
     );
   }
 
+  const progress = getGoalRollup(goal, clientGoals);
+  const mastery = evaluateMastery(
+    goal,
+    sessions,
+    getMasteryCriteria(goal, settings.defaultMastery)
+  );
+  const trend = buildGoalProgress(goal, sessions, settings.trendWindow);
+  const suggestAchieved = shouldSuggestAchieved(
+    goal,
+    clientGoals,
+    sessions,
+    settings.defaultMastery
+  );
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Goal',
-      'Are you sure you want to delete this goal? All trial data will be preserved in sessions.',
+      `Are you sure you want to delete this goal?${
+        objectives.length > 0
+          ? ` Its ${objectives.length} objective${objectives.length !== 1 ? 's' : ''} will be deleted with it.`
+          : ''
+      } It will be moved to the trash, and can be restored from Settings. All trial data will be preserved in sessions.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -101,8 +133,8 @@ export const GoalDetailScreen: React.FC = () => {
     });
   };
 
-  const getStatusBadge = () => {
-    switch (goal.status) {
+  const getStatusBadge = (status: Goal['status'] = goal.status) => {
+    switch (status) {
       case 'achieved':
         return <Badge label="Achieved" variant="success" />;
       case 'discontinued':
@@ -126,6 +158,17 @@ export const GoalDetailScreen: React.FC = () => {
           <Text style={styles.category}>{getGoalCategoryLabel(goal.category)}</Text>
           {getStatusBadge()}
         </View>
+        {parentGoal && (
+          <TouchableOpacity
+            onPress={() =>
+              navigation.push('GoalDetail', { goalId: parentGoal.id, clientId })
+            }
+          >
+            <Text style={styles.parentLink} numberOfLines={1}>
+              Objective of {parentGoal.name} ›
+            </Text>
+          </TouchableOpacity>
+        )}
         <Text style={styles.name}>{goal.name}</Text>
         <Text style={styles.description}>{goal.description}</Text>
       </View>
@@ -135,12 +178,12 @@ export const GoalDetailScreen: React.FC = () => {
         <Text style={styles.sectionTitle}>Current Progress</Text>
         <View style={styles.progressRow}>
           <View style={styles.progressInfo}>
-            <Text style={styles.progressPercent}>{goal.currentAccuracy}%</Text>
+            <Text style={styles.progressPercent}>{progress.accuracy}%</Text>
             <Text style={styles.progressLabel}>Current</Text>
           </View>
           <View style={styles.progressBar}>
             <ProgressBar
-              progress={goal.currentAccuracy}
+              progress={progress.accuracy}
               height={12}
               showLabel={false}
             />
@@ -150,10 +193,53 @@ export const GoalDetailScreen: React.FC = () => {
             <Text style={styles.progressLabel}>Target</Text>
           </View>
         </View>
-        {goal.currentAccuracy >= goal.targetAccuracy && goal.status === 'active' && (
+        {!!goal.targetDate && (
+          <Text style={styles.rollupNote}>Target date: {formatDate(goal.targetDate)}</Text>
+        )}
+        {progress.objectives > 0 && (
+          <Text style={styles.rollupNote}>
+            Average of {progress.objectives} objective{progress.objectives !== 1 ? 's' : ''};{' '}
+            {progress.achievedObjectives} achieved
+          </Text>
+        )}
+        {progress.objectives === 0 && (
+          <View style={styles.mastery}>
+            <Text style={styles.masteryCriteria}>
+              Current: {describeAccuracyMethod(getAccuracyMethod(goal, settings.accuracyMethod))}
+              {goal.accuracyMethod ? '' : ' (default)'}
+            </Text>
+            <Text style={styles.masteryCriteria}>
+              Mastery: {describeMastery(mastery.criteria, goal.targetAccuracy)}
+              {goal.mastery ? '' : ' (default)'}
+            </Text>
+            {mastery.sessions.length > 0 && (
+              <View style={styles.masteryRow}>
+                {[...mastery.sessions].reverse().map((session) => (
+                  <Badge
+                    key={session.sessionId}
+                    label={`${session.accuracy}%`}
+                    variant={session.meets ? 'success' : 'default'}
+                    size="small"
+                  />
+                ))}
+                <Text style={styles.masteryCount}>
+                  {mastery.metCount} of {mastery.criteria.sessionsMet} needed
+                </Text>
+              </View>
+            )}
+            <View style={styles.masteryRow}>
+              <TrendBadge trend={trend.trend} />
+              <Text style={styles.trendText}>
+                {describeTrend(trend, settings.trendWindow)}
+              </Text>
+            </View>
+          </View>
+        )}
+        {suggestAchieved && (
           <View style={styles.achievedBanner}>
             <Text style={styles.achievedText}>
-              Target reached! Mark as achieved?
+              {progress.objectives > 0 ? 'All objectives achieved.' : 'Mastery criteria met.'}
+              {' '}Mark as achieved?
             </Text>
             <Button
               title="Mark Achieved"
@@ -164,6 +250,44 @@ export const GoalDetailScreen: React.FC = () => {
         )}
       </Card>
 
+      {/* Objectives */}
+      {!goal.parentGoalId && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Objectives</Text>
+          {objectives.length === 0 ? (
+            <Text style={styles.emptyText}>
+              Break this goal into short-term objectives to track it step by step
+            </Text>
+          ) : (
+            objectives.map((objective) => (
+              <TouchableOpacity
+                key={objective.id}
+                style={styles.objectiveItem}
+                onPress={() =>
+                  navigation.push('GoalDetail', { goalId: objective.id, clientId })
+                }
+              >
+                <View style={styles.objectiveHeader}>
+                  <Text style={styles.objectiveName} numberOfLines={1}>
+                    {objective.name}
+                  </Text>
+                  {getStatusBadge(objective.status)}
+                </View>
+                <ProgressBar progress={objective.currentAccuracy} showLabel labelPosition="right" />
+                <Text style={styles.objectiveTarget}>Target: {objective.targetAccuracy}%</Text>
+              </TouchableOpacity>
+            ))
+          )}
+          <Button
+            title="Add Objective"
+            variant="outline"
+            size="small"
+            onPress={() => navigation.navigate('AddGoal', { clientId, parentGoalId: goalId })}
+            style={styles.addObjectiveButton}
+          />
+        </Card>
+      )}
+
       {/* Progress Chart */}
       {progressData && progressData.labels.length > 1 && (
         <Card style={styles.section}>
@@ -325,6 +449,12 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     lineHeight: 22,
   },
+  parentLink: {
+    fontSize: 14,
+    color: Colors.primary,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
   section: {
     margin: 16,
     marginBottom: 0,
@@ -356,6 +486,61 @@ const styles = StyleSheet.create({
   progressBar: {
     flex: 1,
   },
+  rollupNote: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+  },
+  objectiveItem: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  objectiveHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+    gap: 8,
+  },
+  objectiveName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  objectiveTarget: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  addObjectiveButton: {
+    marginTop: 12,
+    alignSelf: 'flex-start',
+  },
+  mastery: {
+    marginTop: 12,
+  },
+  masteryCriteria: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  masteryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  trendText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    flexShrink: 1,
+  },
+  masteryCount: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    marginLeft: 4,
+  },
   achievedBanner: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -366,6 +551,8 @@ const styles = StyleSheet.create({
     marginTop: 16,
   },
   achievedText: {
+    flex: 1,
+    marginRight: 8,
     fontSize: 14,
     color: Colors.success,
     fontWeight: '500',
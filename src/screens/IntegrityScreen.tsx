@@ -0,0 +1,273 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Alert, ActivityIndicator } from 'react-native';
+import { useApp } from '../context/AppContext';
+import { Card, Button, Badge, EmptyState } from '../components';
+import { Colors } from '../utils/colors';
+import { formatTime } from '../utils/helpers';
+import { IntegrityStorage } from '../services/storage';
+import {
+  ISSUE_KINDS,
+  IntegrityIssueKind,
+  IntegrityReport,
+  IntegrityRepair,
+  countIssues,
+} from '../services/integrity';
+
+// Examples listed under each kind of issue
+const MAX_LISTED_ISSUES = 5;
+
+export const IntegrityScreen: React.FC = () => {
+  const { clients, refreshData } = useApp();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [lastRepair, setLastRepair] = useState<IntegrityRepair['repaired'] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [repairing, setRepairing] = useState<IntegrityIssueKind[] | null>(null);
+
+  const runCheck = useCallback(async () => {
+    setIsChecking(true);
+    try {
+      setReport(await IntegrityStorage.check());
+    } catch (error) {
+      console.error('Error checking data:', error);
+      Alert.alert('Error', 'Unable to check your data. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    runCheck();
+  }, [runCheck]);
+
+  const getClientName = (clientId: string): string | null => {
+    const client = clients.find((c) => c.id === clientId);
+    return client ? `${client.firstName} ${client.lastName}` : null;
+  };
+
+  const repair = async (kinds: IntegrityIssueKind[]) => {
+    setRepairing(kinds);
+    const repaired = await IntegrityStorage.repair(kinds);
+    setRepairing(null);
+
+    if (!repaired) {
+      Alert.alert('Error', 'Failed to repair your data. Nothing was changed.');
+      return;
+    }
+    setLastRepair(repaired);
+    await refreshData();
+    await runCheck();
+  };
+
+  const confirmRepair = (kinds: IntegrityIssueKind[], count: number) => {
+    const removes = ISSUE_KINDS.some(
+      ({ kind, repair: action }) => kinds.includes(kind) && action === 'remove'
+    );
+    Alert.alert(
+      kinds.length === 1 ? 'Repair' : 'Repair All',
+      `Repair ${count} issue${count !== 1 ? 's' : ''}?${
+        removes ? " Records that can't be fixed are deleted permanently." : ''
+      } Consider exporting a backup first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Repair',
+          style: removes ? 'destructive' : 'default',
+          onPress: () => repair(kinds),
+        },
+      ]
+    );
+  };
+
+  if (!report) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={Colors.primary} />
+      </View>
+    );
+  }
+
+  const counts = countIssues(report.issues);
+  const foundKinds = ISSUE_KINDS.filter(({ kind }) => counts[kind]);
+
+  return (
+    <ScrollView style={styles.container}>
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Summary</Text>
+        <Text style={styles.sectionDescription}>
+          Checked {report.scanned.clients} client{report.scanned.clients !== 1 ? 's' : ''},{' '}
+          {report.scanned.goals} goal{report.scanned.goals !== 1 ? 's' : ''},{' '}
+          {report.scanned.sessions} session{report.scanned.sessions !== 1 ? 's' : ''} and{' '}
+          {report.scanned.trials} trial{report.scanned.trials !== 1 ? 's' : ''}, including the
+          trash, at {formatTime(report.checkedAt)}.
+        </Text>
+        <View style={styles.summaryRow}>
+          <Badge
+            label={
+              report.issues.length === 0
+                ? 'No issues'
+                : `${report.issues.length} issue${report.issues.length !== 1 ? 's' : ''}`
+            }
+            variant={report.issues.length === 0 ? 'success' : 'warning'}
+          />
+        </View>
+
+        {lastRepair && (
+          <View style={styles.repairSummary}>
+            <Text style={styles.fieldLabel}>Last Repair</Text>
+            {Object.keys(lastRepair).length === 0 ? (
+              <Text style={styles.issueText}>Nothing needed repairing.</Text>
+            ) : (
+              ISSUE_KINDS.filter(({ kind }) => lastRepair[kind]).map(({ kind, title }) => (
+                <Text key={kind} style={styles.issueText}>
+                  • {title}: {lastRepair[kind]}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+
+        <View style={styles.buttonGroup}>
+          {foundKinds.length > 0 && (
+            <Button
+              title="Repair All"
+              onPress={() =>
+                confirmRepair(
+                  foundKinds.map(({ kind }) => kind),
+                  report.issues.length
+                )
+              }
+              loading={repairing !== null && repairing.length > 1}
+              disabled={repairing !== null || isChecking}
+              fullWidth
+            />
+          )}
+          <Button
+            title="Check Again"
+            onPress={runCheck}
+            loading={isChecking}
+            disabled={repairing !== null}
+            variant="outline"
+            fullWidth
+          />
+        </View>
+      </Card>
+
+      {foundKinds.length === 0 ? (
+        <EmptyState
+          title="Your Data Looks Good"
+          message="Every goal and session belongs to a client, every trial to a goal, and every goal's accuracy matches its sessions."
+        />
+      ) : (
+        foundKinds.map(({ kind, title, description, repair: action }) => {
+          const issues = report.issues.filter((issue) => issue.kind === kind);
+          return (
+            <Card key={kind} style={styles.section}>
+              <View style={styles.kindHeader}>
+                <Text style={styles.kindTitle}>{title}</Text>
+                <Badge label={String(issues.length)} variant="warning" size="small" />
+              </View>
+              <Text style={styles.sectionDescription}>{description}</Text>
+
+              {issues.slice(0, MAX_LISTED_ISSUES).map((issue) => {
+                const clientName = getClientName(issue.clientId);
+                return (
+                  <Text key={`${issue.entityType}:${issue.id}`} style={styles.issueText}>
+                    • {issue.detail}
+                    {clientName ? ` (${clientName})` : ''}
+                  </Text>
+                );
+              })}
+              {issues.length > MAX_LISTED_ISSUES && (
+                <Text style={styles.issueText}>
+                  …and {issues.length - MAX_LISTED_ISSUES} more
+                </Text>
+              )}
+
+              <Button
+                title={action === 'remove' ? 'Remove' : 'Fix'}
+                onPress={() => confirmRepair([kind], issues.length)}
+                loading={repairing?.length === 1 && repairing[0] === kind}
+                disabled={repairing !== null || isChecking}
+                variant={action === 'remove' ? 'danger' : 'outline'}
+                size="small"
+                style={styles.kindButton}
+              />
+            </Card>
+          );
+        })
+      )}
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.background,
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  repairSummary: {
+    marginBottom: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  kindHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  kindTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  issueText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  kindButton: {
+    marginTop: 8,
+    alignSelf: 'flex-start',
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
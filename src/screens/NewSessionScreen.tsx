@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
   View,
   Text,
@@ -21,6 +21,8 @@ import {
   calculateSessionStats,
   getResponseLabel,
 } from '../utils/helpers';
+import { buildGoalTree, GoalNode } from '../services/goalHierarchy';
+import { describeMastery, getMasteryCriteria, shouldSuggestAchieved } from '../services/mastery';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RouteProps = RouteProp<RootStackParamList, 'NewSession'>;
@@ -53,13 +55,27 @@ export const NewSessionScreen: React.FC = () => {
   const route = useRoute<RouteProps>();
   const { clientId, goalIds: initialGoalIds } = route.params;
 
-  const { getClient, getActiveGoalsByClient, addSession, updateGoal, getGoal } = useApp();
+  const {
+    getClient,
+    getActiveGoalsByClient,
+    getGoalsByClient,
+    getSessionsByClient,
+    completeSession,
+    updateGoal,
+    getGoal,
+    settings,
+  } = useApp();
 
   const client = getClient(clientId);
   const activeGoals = getActiveGoalsByClient(clientId);
-
-  const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>(
-    initialGoalIds || []
+  const goalTree = buildGoalTree(activeGoals);
+
+  // Data is taken on a long-term goal's objectives when it has any
+  const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>(() =>
+    (initialGoalIds || []).flatMap((goalId) => {
+      const objectives = goalTree.find((node) => node.goal.id === goalId)?.objectives ?? [];
+      return objectives.length > 0 ? objectives.map((objective) => objective.id) : [goalId];
+    })
   );
   const [currentGoalIndex, setCurrentGoalIndex] = useState(0);
   const [trials, setTrials] = useState<Trial[]>([]);
@@ -74,6 +90,10 @@ export const NewSessionScreen: React.FC = () => {
     return getGoal(selectedGoalIds[currentGoalIndex]);
   }, [selectedGoalIds, currentGoalIndex, getGoal]);
 
+  const currentGoalParent = currentGoal?.parentGoalId
+    ? getGoal(currentGoal.parentGoalId)
+    : undefined;
+
   const currentGoalTrials = useMemo(() => {
     if (!currentGoal) return [];
     return trials.filter((t) => t.goalId === currentGoal.id);
@@ -95,6 +115,17 @@ export const NewSessionScreen: React.FC = () => {
     );
   };
 
+  // Selecting a long-term goal selects all of its objectives, or clears
+  // them if they already are
+  const toggleObjectives = ({ objectives }: GoalNode) => {
+    const ids = objectives.map((objective) => objective.id);
+    setSelectedGoalIds((prev) =>
+      ids.every((id) => prev.includes(id))
+        ? prev.filter((id) => !ids.includes(id))
+        : [...prev, ...ids.filter((id) => !prev.includes(id))]
+    );
+  };
+
   const handleStartSession = () => {
     if (selectedGoalIds.length === 0) {
       Alert.alert('Select Goals', 'Please select at least one goal to work on.');
@@ -139,28 +170,45 @@ export const NewSessionScreen: React.FC = () => {
     }
   };
 
-  const calculateAndUpdateGoalAccuracy = useCallback(
-    async (goalId: string) => {
-      const goal = getGoal(goalId);
-      if (!goal) return;
-
-      const goalTrials = trials.filter((t) => t.goalId === goalId);
-      const stats = calculateSessionStats(goalTrials);
-
-      // Update goal's current accuracy (simple average with existing)
-      const newAccuracy = Math.round(
-        (goal.currentAccuracy + stats.accuracy) / 2
-      );
+  // Goals that now meet their mastery criteria are offered to the
+  // clinician to mark achieved, rather than changed without asking
+  const suggestAchieved = (sessionGoals: Goal[], clientSessions: Session[]) => {
+    const clientGoals = getGoalsByClient(clientId);
+    const mastered = sessionGoals.filter((goal) =>
+      shouldSuggestAchieved(goal, clientGoals, clientSessions, settings.defaultMastery)
+    );
+    if (mastered.length === 0) {
+      navigation.goBack();
+      return;
+    }
 
-      await updateGoal({
-        ...goal,
-        currentAccuracy: newAccuracy,
-        status: newAccuracy >= goal.targetAccuracy ? 'achieved' : goal.status,
-        updatedAt: new Date().toISOString(),
-      });
-    },
-    [getGoal, trials, updateGoal]
-  );
+    const list = mastered
+      .map(
+        (goal) =>
+          `• ${goal.name}: ${describeMastery(
+            getMasteryCriteria(goal, settings.defaultMastery),
+            goal.targetAccuracy
+          )}`
+      )
+      .join('\n');
+    Alert.alert(
+      'Mastery Criteria Met',
+      `${list}\n\nMark ${mastered.length === 1 ? 'this goal' : 'these goals'} as achieved?`,
+      [
+        { text: 'Not Yet', style: 'cancel', onPress: () => navigation.goBack() },
+        {
+          text: 'Mark Achieved',
+          onPress: async () => {
+            const now = new Date().toISOString();
+            for (const goal of mastered) {
+              await updateGoal({ ...goal, status: 'achieved', updatedAt: now });
+            }
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
 
   const handleEndSession = async () => {
     if (trials.length === 0) {
@@ -191,14 +239,14 @@ export const NewSessionScreen: React.FC = () => {
       createdAt: new Date().toISOString(),
     };
 
-    const success = await addSession(session);
+    const clientSessions = [session, ...getSessionsByClient(clientId)];
+    const sessionGoals = selectedGoalIds
+      .map((goalId) => getGoal(goalId))
+      .filter((goal): goal is Goal => goal !== undefined);
+    const success = await completeSession(session);
 
     if (success) {
-      // Update goal accuracies
-      for (const goalId of selectedGoalIds) {
-        await calculateAndUpdateGoalAccuracy(goalId);
-      }
-      navigation.goBack();
+      suggestAchieved(sessionGoals, clientSessions);
     } else {
       setIsSaving(false);
       Alert.alert('Error', 'Failed to save session. Please try again.');
@@ -213,6 +261,87 @@ export const NewSessionScreen: React.FC = () => {
     );
   }
 
+  const renderGoalOption = (
+    goal: Goal,
+    isSelected: boolean,
+    onPress: () => void,
+    options: { isObjective?: boolean; isPartial?: boolean; objectiveCount?: number } = {}
+  ) => (
+    <TouchableOpacity
+      key={goal.id}
+      style={[
+        styles.goalSelectItem,
+        options.isObjective && styles.objectiveSelectItem,
+        isSelected && styles.goalSelectItemSelected,
+      ]}
+      onPress={onPress}
+    >
+      <View style={styles.goalSelectRow}>
+        <View
+          style={[styles.checkbox, (isSelected || options.isPartial) && styles.checkboxSelected]}
+        >
+          {(isSelected || options.isPartial) && (
+            <Text style={styles.checkmark}>{isSelected ? '✓' : '–'}</Text>
+          )}
+        </View>
+        <View style={styles.goalSelectInfo}>
+          <View style={styles.goalSelectHeader}>
+            <Badge
+              label={getGoalCategoryLabel(goal.category)}
+              variant="category"
+              category={goal.category}
+              size="small"
+            />
+          </View>
+          <Text style={styles.goalSelectName}>{goal.name}</Text>
+          {options.objectiveCount ? (
+            <Text style={styles.goalSelectMeta}>
+              {options.objectiveCount} objective{options.objectiveCount !== 1 ? 's' : ''}
+            </Text>
+          ) : (
+            <ProgressBar
+              progress={goal.currentAccuracy}
+              showLabel
+              labelPosition="right"
+              style={styles.goalSelectProgress}
+            />
+          )}
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  // A long-term goal with objectives stands for them; without, it is
+  // worked on directly
+  const renderGoalNode = (node: GoalNode) => {
+    if (node.objectives.length === 0) {
+      return renderGoalOption(node.goal, selectedGoalIds.includes(node.goal.id), () =>
+        toggleGoalSelection(node.goal.id)
+      );
+    }
+    const selectedCount = node.objectives.filter((objective) =>
+      selectedGoalIds.includes(objective.id)
+    ).length;
+    return (
+      <View key={node.goal.id}>
+        {renderGoalOption(
+          node.goal,
+          selectedCount === node.objectives.length,
+          () => toggleObjectives(node),
+          { isPartial: selectedCount > 0, objectiveCount: node.objectives.length }
+        )}
+        {node.objectives.map((objective) =>
+          renderGoalOption(
+            objective,
+            selectedGoalIds.includes(objective.id),
+            () => toggleGoalSelection(objective.id),
+            { isObjective: true }
+          )
+        )}
+      </View>
+    );
+  };
+
   // Goal Selection Screen
   if (!sessionStarted) {
     return (
@@ -233,46 +362,7 @@ export const NewSessionScreen: React.FC = () => {
               />
             </Card>
           ) : (
-            activeGoals.map((goal) => (
-              <TouchableOpacity
-                key={goal.id}
-                style={[
-                  styles.goalSelectItem,
-                  selectedGoalIds.includes(goal.id) && styles.goalSelectItemSelected,
-                ]}
-                onPress={() => toggleGoalSelection(goal.id)}
-              >
-                <View style={styles.goalSelectRow}>
-                  <View
-                    style={[
-                      styles.checkbox,
-                      selectedGoalIds.includes(goal.id) && styles.checkboxSelected,
-                    ]}
-                  >
-                    {selectedGoalIds.includes(goal.id) && (
-                      <Text style={styles.checkmark}>✓</Text>
-                    )}
-                  </View>
-                  <View style={styles.goalSelectInfo}>
-                    <View style={styles.goalSelectHeader}>
-                      <Badge
-                        label={getGoalCategoryLabel(goal.category)}
-                        variant="category"
-                        category={goal.category}
-                        size="small"
-                      />
-                    </View>
-                    <Text style={styles.goalSelectName}>{goal.name}</Text>
-                    <ProgressBar
-                      progress={goal.currentAccuracy}
-                      showLabel
-                      labelPosition="right"
-                      style={styles.goalSelectProgress}
-                    />
-                  </View>
-                </View>
-              </TouchableOpacity>
-            ))
+            goalTree.map(renderGoalNode)
           )}
         </ScrollView>
 
@@ -337,6 +427,11 @@ export const NewSessionScreen: React.FC = () => {
               {currentGoal.name}
             </Text>
           </View>
+          {currentGoalParent && (
+            <Text style={styles.currentGoalParent} numberOfLines={1}>
+              Objective of {currentGoalParent.name}
+            </Text>
+          )}
           <View style={styles.statsRow}>
             <Text style={styles.statText}>
               Trials: {currentGoalStats.totalTrials}
@@ -575,6 +670,14 @@ const styles = StyleSheet.create({
   goalSelectProgress: {
     marginTop: 4,
   },
+  goalSelectMeta: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  objectiveSelectItem: {
+    marginLeft: 40,
+    marginTop: -4,
+  },
   footer: {
     flexDirection: 'row',
     padding: 16,
@@ -632,6 +735,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: Colors.text,
   },
+  currentGoalParent: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   statsRow: {
     flexDirection: 'row',
     gap: 16,
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSecurity } from '../context/SecurityContext';
+import { Button, Input, Card } from '../components';
+import { Colors } from '../utils/colors';
+import { MIN_PASSCODE_LENGTH } from '../services/storage';
+
+export const PasscodeScreen: React.FC = () => {
+  const { status, setupPasscode, unlock, lockedUntil } = useSecurity();
+  const isSetup = status === 'setup';
+
+  const [passcode, setPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const secondsLeft = lockedUntil
+    ? Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - now) / 1000))
+    : 0;
+
+  // Tick the back-off countdown
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const handleSetup = async () => {
+    if (passcode.length < MIN_PASSCODE_LENGTH) {
+      setError(`Use at least ${MIN_PASSCODE_LENGTH} characters`);
+      return;
+    }
+    if (passcode !== confirmPasscode) {
+      setError('Passcodes do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    const success = await setupPasscode(passcode);
+    setIsWorking(false);
+
+    if (!success) {
+      setError('Unable to set up encryption. Please try again.');
+    }
+  };
+
+  const handleUnlock = async () => {
+    if (!passcode || secondsLeft > 0) return;
+
+    setIsWorking(true);
+    const success = await unlock(passcode);
+    setIsWorking(false);
+
+    if (!success) {
+      setPasscode('');
+      setError('Incorrect passcode');
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Card style={styles.card}>
+        <Text style={styles.icon}>🔒</Text>
+        <Text style={styles.title}>
+          {isSetup ? 'Create a Passcode' : 'Speech Therapy Pro'}
+        </Text>
+        <Text style={styles.subtitle}>
+          {isSetup
+            ? 'Client records on this device are encrypted with your passcode. It cannot be recovered if you forget it.'
+            : 'Enter your passcode to unlock client records.'}
+        </Text>
+
+        <Input
+          label="Passcode"
+          value={passcode}
+          onChangeText={(text) => {
+            setPasscode(text);
+            setError('');
+          }}
+          secureTextEntry
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={secondsLeft === 0}
+          error={!isSetup ? error || undefined : undefined}
+          onSubmitEditing={isSetup ? undefined : handleUnlock}
+        />
+
+        {isSetup && (
+          <Input
+            label="Confirm Passcode"
+            value={confirmPasscode}
+            onChangeText={(text) => {
+              setConfirmPasscode(text);
+              setError('');
+            }}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            error={error || undefined}
+            onSubmitEditing={handleSetup}
+          />
+        )}
+
+        {secondsLeft > 0 && (
+          <Text style={styles.lockout}>
+            Too many incorrect attempts. Try again in {formatCountdown(secondsLeft)}.
+          </Text>
+        )}
+
+        <Button
+          title={isSetup ? 'Encrypt & Continue' : 'Unlock'}
+          onPress={isSetup ? handleSetup : handleUnlock}
+          loading={isWorking}
+          disabled={secondsLeft > 0}
+          fullWidth
+        />
+      </Card>
+    </KeyboardAvoidingView>
+  );
+};
+
+const formatCountdown = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: Colors.background,
+  },
+  card: {
+    width: '100%',
+    maxWidth: 420,
+    alignSelf: 'center',
+    padding: 24,
+  },
+  icon: {
+    fontSize: 40,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: Colors.text,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  lockout: {
+    fontSize: 14,
+    color: Colors.error,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+});
@@ -7,10 +7,11 @@ import {
   Dimensions,
   TouchableOpacity,
 } from 'react-native';
-import { useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { LineChart, PieChart } from 'react-native-chart-kit';
 import { useApp } from '../context/AppContext';
-import { Card, Badge, EmptyState } from '../components';
+import { Card, Badge, Button, EmptyState, TrendBadge } from '../components';
 import { Colors, GoalCategoryColors } from '../utils/colors';
 import { RootStackParamList } from '../types';
 import {
@@ -18,8 +19,10 @@ import {
   getGoalCategoryLabel,
   formatDate,
 } from '../utils/helpers';
+import { buildGoalProgress } from '../services/analytics';
 import { format, parseISO, subDays, isAfter } from 'date-fns';
 
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type RouteProps = RouteProp<RootStackParamList, 'Reports'>;
 
 const screenWidth = Dimensions.get('window').width;
@@ -27,10 +30,11 @@ const screenWidth = Dimensions.get('window').width;
 type TimeRange = '7d' | '30d' | '90d' | 'all';
 
 export const ReportsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
   const route = useRoute<RouteProps>();
   const { clientId } = route.params;
 
-  const { getClient, getGoalsByClient, getSessionsByClient } = useApp();
+  const { getClient, getGoalsByClient, getSessionsByClient, settings } = useApp();
 
   const client = getClient(clientId);
   const goals = getGoalsByClient(clientId);
@@ -117,27 +121,23 @@ export const ReportsScreen: React.FC = () => {
     ].filter((item) => item.count > 0);
   }, [filteredSessions]);
 
+  // The trend too is over the chosen period
   const goalProgress = useMemo(() => {
     return goals
       .filter((g) => g.status === 'active' || g.status === 'achieved')
       .map((goal) => {
-        const goalSessions = filteredSessions.filter((s) =>
-          s.goals.includes(goal.id)
-        );
-        const goalTrials = goalSessions.flatMap((s) =>
-          s.trials.filter((t) => t.goalId === goal.id)
-        );
-        const stats = calculateSessionStats(goalTrials);
+        const progress = buildGoalProgress(goal, filteredSessions, settings.trendWindow);
 
         return {
           goal,
-          sessionCount: goalSessions.length,
-          trialCount: goalTrials.length,
-          accuracy: stats.accuracy,
+          sessionCount: progress.sessions.length,
+          trialCount: progress.sessions.reduce((sum, s) => sum + s.trialCount, 0),
+          accuracy: progress.overallAccuracy,
+          trend: progress.trend,
         };
       })
       .sort((a, b) => b.trialCount - a.trialCount);
-  }, [goals, filteredSessions]);
+  }, [goals, filteredSessions, settings.trendWindow]);
 
   if (!client) {
     return (
@@ -260,7 +260,7 @@ export const ReportsScreen: React.FC = () => {
         {goalProgress.length === 0 ? (
           <Text style={styles.emptyText}>No goals with data in this period</Text>
         ) : (
-          goalProgress.map(({ goal, sessionCount, trialCount, accuracy }) => (
+          goalProgress.map(({ goal, sessionCount, trialCount, accuracy, trend }) => (
             <View key={goal.id} style={styles.goalItem}>
               <View style={styles.goalHeader}>
                 <View
@@ -277,6 +277,7 @@ export const ReportsScreen: React.FC = () => {
                     {sessionCount} sessions • {trialCount} trials
                   </Text>
                 </View>
+                <TrendBadge trend={trend} style={styles.goalTrend} />
                 <Badge
                   label={`${accuracy}%`}
                   variant={
@@ -347,6 +348,14 @@ export const ReportsScreen: React.FC = () => {
         )}
       </Card>
 
+      <Button
+        title="Export to Spreadsheet (CSV)"
+        onPress={() => navigation.navigate('DataExport', { clientId })}
+        variant="outline"
+        fullWidth
+        style={styles.exportButton}
+      />
+
       <View style={styles.bottomPadding} />
     </ScrollView>
   );
@@ -449,6 +458,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.textSecondary,
   },
+  goalTrend: {
+    marginRight: 8,
+  },
   goalProgressBar: {
     height: 6,
     backgroundColor: Colors.border,
@@ -493,6 +505,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.textSecondary,
   },
+  exportButton: {
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
   bottomPadding: {
     height: 32,
   },
@@ -0,0 +1,464 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useApp } from '../context/AppContext';
+import { Card, Button, Badge } from '../components';
+import { Colors } from '../utils/colors';
+import { RootStackParamList } from '../types';
+import { getGoalCategoryLabel } from '../utils/helpers';
+import { importRoster } from '../services/storage';
+import { pickTextFile } from '../services/files';
+import {
+  ClientField,
+  ColumnMapping,
+  CsvTable,
+  GoalField,
+  RosterRow,
+  buildGoalRows,
+  buildRosterRows,
+  createRosterRecords,
+  guessClientMapping,
+  guessGoalMapping,
+  parseCsv,
+} from '../services/csvImport';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+const CSV_TYPES = ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel', 'text/plain'];
+
+export const RosterImportScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { clients, settings, refreshData } = useApp();
+
+  const [roster, setRoster] = useState<CsvTable | null>(null);
+  const [clientMapping, setClientMapping] = useState<ColumnMapping<ClientField>>({});
+  const [goalSheet, setGoalSheet] = useState<CsvTable | null>(null);
+  const [goalMapping, setGoalMapping] = useState<ColumnMapping<GoalField>>({});
+  // Likely duplicates are skipped unless the user includes them
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rosterRows = useMemo(
+    () => (roster ? buildRosterRows(roster, clientMapping, clients) : []),
+    [roster, clientMapping, clients]
+  );
+
+  const importedRows = useMemo(
+    () =>
+      rosterRows.filter(
+        (row) =>
+          row.errors.length === 0 && (!row.duplicate || includedDuplicates.has(row.rowNumber))
+      ),
+    [rosterRows, includedDuplicates]
+  );
+
+  const goalRows = useMemo(
+    () =>
+      goalSheet
+        ? buildGoalRows(goalSheet, goalMapping, importedRows, clients, settings.defaultTargetAccuracy)
+        : [],
+    [goalSheet, goalMapping, importedRows, clients, settings.defaultTargetAccuracy]
+  );
+
+  const goalsToImport = goalRows.filter((row) => row.errors.length === 0).length;
+
+  const openSheet = async (): Promise<CsvTable | null> => {
+    try {
+      const content = await pickTextFile(CSV_TYPES);
+      if (content === null) return null;
+      const table = parseCsv(content);
+      if (table.header.length === 0 || table.rows.length === 0) {
+        Alert.alert('Empty Spreadsheet', 'The file needs a header row and at least one row below it.');
+        return null;
+      }
+      return table;
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      Alert.alert('Error', 'Unable to read the file. Save the spreadsheet as CSV and try again.');
+      return null;
+    }
+  };
+
+  const handleChooseRoster = async () => {
+    const table = await openSheet();
+    if (!table) return;
+    setRoster(table);
+    setClientMapping(guessClientMapping(table.header));
+    setIncludedDuplicates(new Set());
+  };
+
+  const handleChooseGoals = async () => {
+    const table = await openSheet();
+    if (!table) return;
+    setGoalSheet(table);
+    setGoalMapping(guessGoalMapping(table.header));
+  };
+
+  const toggleDuplicate = (rowNumber: number) => {
+    const next = new Set(includedDuplicates);
+    if (next.has(rowNumber)) {
+      next.delete(rowNumber);
+    } else {
+      next.add(rowNumber);
+    }
+    setIncludedDuplicates(next);
+  };
+
+  const handleImport = () => {
+    const { clients: newClients, goals: newGoals } = createRosterRecords(importedRows, goalRows);
+    Alert.alert(
+      'Import Roster',
+      `Add ${newClients.length} client${newClients.length !== 1 ? 's' : ''} and ${
+        newGoals.length
+      } goal${newGoals.length !== 1 ? 's' : ''}? Rows with problems are left out.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: async () => {
+            setIsImporting(true);
+            const success = await importRoster(newClients, newGoals);
+            setIsImporting(false);
+
+            if (success) {
+              await refreshData();
+              navigation.goBack();
+            } else {
+              Alert.alert('Error', 'Failed to import the roster. Nothing was added.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // One row of column choices per field
+  const renderMapping = <F extends string>(
+    table: CsvTable,
+    fields: { field: F; label: string }[],
+    mapping: ColumnMapping<F>,
+    onChange: (mapping: ColumnMapping<F>) => void
+  ) =>
+    fields.map(({ field, label }) => (
+      <View key={field} style={styles.mappingField}>
+        <Text style={styles.fieldLabel}>{label}</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.chipRow}>
+            {[undefined, ...table.header.map((_, column) => column)].map((column) => {
+              const isSelected = mapping[field] === column;
+              return (
+                <TouchableOpacity
+                  key={column ?? 'none'}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => onChange({ ...mapping, [field]: column })}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                    {column === undefined ? 'None' : table.header[column] || `Column ${column + 1}`}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+    ));
+
+  const renderRosterRow = (row: RosterRow) => {
+    const isSkipped =
+      row.errors.length > 0 || (!!row.duplicate && !includedDuplicates.has(row.rowNumber));
+
+    return (
+      <View key={row.rowNumber} style={[styles.previewRow, isSkipped && styles.previewRowSkipped]}>
+        <View style={styles.previewHeader}>
+          <Text style={styles.previewTitle} numberOfLines={1}>
+            {`${row.firstName} ${row.lastName}`.trim() || '(no name)'}
+          </Text>
+          <Text style={styles.rowNumber}>Row {row.rowNumber}</Text>
+        </View>
+        {(row.dateOfBirth || row.diagnosis) && (
+          <Text style={styles.previewDetail}>
+            {[row.dateOfBirth && `Born ${row.dateOfBirth}`, row.diagnosis].filter(Boolean).join(' • ')}
+          </Text>
+        )}
+        {row.errors.map((error) => (
+          <Text key={error} style={styles.errorText}>
+            {error}
+          </Text>
+        ))}
+        {row.errors.length === 0 && row.duplicate && (
+          <View style={styles.duplicateRow}>
+            <Text style={styles.warningText}>
+              {row.duplicate.kind === 'client'
+                ? `Looks like ${row.duplicate.name}, already a client`
+                : `Looks like row ${row.duplicate.rowNumber}`}
+            </Text>
+            <TouchableOpacity onPress={() => toggleDuplicate(row.rowNumber)}>
+              <Text style={styles.toggleText}>
+                {includedDuplicates.has(row.rowNumber) ? 'Skip' : 'Import Anyway'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const rosterProblems = rosterRows.filter((row) => row.errors.length > 0).length;
+  const skippedDuplicates = rosterRows.filter(
+    (row) => row.errors.length === 0 && row.duplicate && !includedDuplicates.has(row.rowNumber)
+  ).length;
+
+  return (
+    <ScrollView style={styles.container}>
+      {/* Roster */}
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Roster</Text>
+        <Text style={styles.sectionDescription}>
+          Choose a spreadsheet saved as CSV, with a header row and one client per row. Dates can be
+          MM/DD/YYYY or YYYY-MM-DD.
+        </Text>
+        <Button
+          title={roster ? 'Choose Another File' : 'Choose Roster (CSV)'}
+          onPress={handleChooseRoster}
+          variant={roster ? 'ghost' : 'primary'}
+          fullWidth
+        />
+        {roster && renderMapping(roster, CLIENT_FIELDS, clientMapping, setClientMapping)}
+      </Card>
+
+      {roster && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Preview</Text>
+          <View style={styles.summaryRow}>
+            <Badge label={`${importedRows.length} to import`} variant="success" size="small" />
+            {skippedDuplicates > 0 && (
+              <Badge label={`${skippedDuplicates} duplicates`} variant="warning" size="small" />
+            )}
+            {rosterProblems > 0 && (
+              <Badge label={`${rosterProblems} with problems`} variant="error" size="small" />
+            )}
+          </View>
+          {rosterRows.map(renderRosterRow)}
+        </Card>
+      )}
+
+      {/* Goals */}
+      {roster && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Goals (Optional)</Text>
+          <Text style={styles.sectionDescription}>
+            A second spreadsheet with one goal per row. Each goal goes to the client with the same
+            name, in this roster or already in the app. Categories are{' '}
+            {CATEGORY_NAMES}; the target accuracy defaults to {settings.defaultTargetAccuracy}%.
+          </Text>
+          <Button
+            title={goalSheet ? 'Choose Another File' : 'Choose Goals (CSV)'}
+            onPress={handleChooseGoals}
+            variant="outline"
+            fullWidth
+          />
+          {goalSheet && renderMapping(goalSheet, GOAL_FIELDS, goalMapping, setGoalMapping)}
+
+          {goalSheet && (
+            <>
+              <View style={styles.summaryRow}>
+                <Badge label={`${goalsToImport} to import`} variant="success" size="small" />
+                {goalRows.length > goalsToImport && (
+                  <Badge
+                    label={`${goalRows.length - goalsToImport} with problems`}
+                    variant="error"
+                    size="small"
+                  />
+                )}
+              </View>
+              {goalRows.map((row) => (
+                <View
+                  key={row.rowNumber}
+                  style={[styles.previewRow, row.errors.length > 0 && styles.previewRowSkipped]}
+                >
+                  <View style={styles.previewHeader}>
+                    <Text style={styles.previewTitle} numberOfLines={1}>
+                      {row.name || '(no goal name)'}
+                    </Text>
+                    <Text style={styles.rowNumber}>Row {row.rowNumber}</Text>
+                  </View>
+                  <Text style={styles.previewDetail}>
+                    {row.clientName || '(no client)'} • {getGoalCategoryLabel(row.category)} •{' '}
+                    {row.targetAccuracy}%
+                  </Text>
+                  {row.errors.map((error) => (
+                    <Text key={error} style={styles.errorText}>
+                      {error}
+                    </Text>
+                  ))}
+                </View>
+              ))}
+            </>
+          )}
+        </Card>
+      )}
+
+      {roster && (
+        <Button
+          title={`Import ${importedRows.length} Client${importedRows.length !== 1 ? 's' : ''}${
+            goalsToImport > 0 ? ` and ${goalsToImport} Goal${goalsToImport !== 1 ? 's' : ''}` : ''
+          }`}
+          onPress={handleImport}
+          loading={isImporting}
+          disabled={importedRows.length === 0 && goalsToImport === 0}
+          fullWidth
+          style={styles.importButton}
+        />
+      )}
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const CLIENT_FIELDS: { field: ClientField; label: string }[] = [
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'fullName', label: 'Full Name (if no first and last name columns)' },
+  { field: 'dateOfBirth', label: 'Date of Birth' },
+  { field: 'diagnosis', label: 'Diagnosis' },
+  { field: 'notes', label: 'Notes' },
+];
+
+const GOAL_FIELDS: { field: GoalField; label: string }[] = [
+  { field: 'firstName', label: 'Client First Name' },
+  { field: 'lastName', label: 'Client Last Name' },
+  { field: 'fullName', label: 'Client Full Name (if no first and last name columns)' },
+  { field: 'name', label: 'Goal Name' },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Category' },
+  { field: 'targetAccuracy', label: 'Target Accuracy' },
+  { field: 'targetDate', label: 'Target Date' },
+];
+
+const CATEGORY_NAMES = (
+  ['articulation', 'language', 'fluency', 'voice', 'pragmatics', 'phonology', 'other'] as const
+)
+  .map(getGoalCategoryLabel)
+  .join(', ');
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  section: {
+    margin: 16,
+    marginBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  mappingField: {
+    marginTop: 12,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    backgroundColor: Colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  chipTextSelected: {
+    color: Colors.textOnPrimary,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  previewRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  previewRowSkipped: {
+    opacity: 0.6,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  rowNumber: {
+    fontSize: 12,
+    color: Colors.textLight,
+  },
+  previewDetail: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 4,
+  },
+  duplicateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.warning,
+    marginRight: 8,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.primary,
+  },
+  importButton: {
+    marginHorizontal: 16,
+    marginTop: 24,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
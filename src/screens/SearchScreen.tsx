@@ -0,0 +1,213 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, SectionList, TextInput, TextStyle } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useApp } from '../context/AppContext';
+import { Card, Badge, EmptyState } from '../components';
+import { Colors } from '../utils/colors';
+import { RootStackParamList } from '../types';
+import {
+  HighlightRange,
+  MIN_QUERY_LENGTH,
+  SearchResult,
+  buildSearchIndex,
+  searchIndex,
+} from '../services/search';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+// Text with its matches marked
+const HighlightedText: React.FC<{
+  text: string;
+  highlights: HighlightRange[];
+  style: TextStyle;
+  numberOfLines?: number;
+}> = ({ text, highlights, style, numberOfLines }) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <Text key={start} style={styles.highlight}>
+        {text.slice(start, end)}
+      </Text>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts}
+    </Text>
+  );
+};
+
+export const SearchScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { clients, goals, sessions } = useApp();
+  const [query, setQuery] = useState('');
+
+  const index = useMemo(
+    () => buildSearchIndex({ clients, goals, sessions }),
+    [clients, goals, sessions]
+  );
+  const results = useMemo(() => searchIndex(index, query), [index, query]);
+
+  const sections = [
+    { title: 'Clients', data: results.clients },
+    { title: 'Goals', data: results.goals },
+    { title: 'Sessions', data: results.sessions },
+  ].filter((section) => section.data.length > 0);
+
+  const openResult = (result: SearchResult) => {
+    switch (result.kind) {
+      case 'client':
+        navigation.navigate('ClientDetail', { clientId: result.id });
+        break;
+      case 'goal':
+        navigation.navigate('GoalDetail', { goalId: result.id, clientId: result.clientId });
+        break;
+      case 'session':
+        navigation.navigate('SessionDetail', { sessionId: result.id, clientId: result.clientId });
+        break;
+    }
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => (
+    <Card style={styles.resultCard} onPress={() => openResult(item)}>
+      <HighlightedText
+        text={item.title}
+        highlights={item.titleHighlights}
+        style={styles.resultTitle}
+        numberOfLines={2}
+      />
+      {!!item.subtitle && <Text style={styles.resultSubtitle}>{item.subtitle}</Text>}
+      {item.snippets.map((snippet, i) => (
+        <View key={i} style={styles.snippet}>
+          <Text style={styles.snippetField}>{snippet.field}</Text>
+          <HighlightedText
+            text={snippet.text}
+            highlights={snippet.highlights}
+            style={styles.snippetText}
+            numberOfLines={3}
+          />
+        </View>
+      ))}
+    </Card>
+  );
+
+  const isSearching = query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search clients, goals, sessions and notes..."
+          placeholderTextColor={Colors.textLight}
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => `${item.kind}:${item.id}`}
+        renderItem={renderResult}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            <Badge label={String(section.data.length)} variant="default" size="small" />
+          </View>
+        )}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <EmptyState
+            title={isSearching ? 'No Matches' : 'Search Everything'}
+            message={
+              isSearching
+                ? `Nothing matches "${query.trim()}". Every word has to appear in the same client, goal or session.`
+                : 'Find clients by name or diagnosis, goals by name or description, and sessions by their notes, trial prompts and trial notes.'
+            }
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  header: {
+    padding: 16,
+    paddingBottom: 8,
+  },
+  searchInput: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+    flexGrow: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  resultCard: {
+    marginBottom: 8,
+  },
+  resultTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  resultSubtitle: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  snippet: {
+    marginTop: 8,
+  },
+  snippetField: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textLight,
+    textTransform: 'uppercase',
+    marginBottom: 2,
+  },
+  snippetText: {
+    fontSize: 14,
+    color: Colors.text,
+    lineHeight: 20,
+  },
+  highlight: {
+    backgroundColor: Colors.warningLight,
+    fontWeight: '600',
+  },
+});
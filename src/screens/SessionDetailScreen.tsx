@@ -73,7 +73,7 @@ export const SessionDetailScreen: React.FC = () => {
   const handleDelete = () => {
     Alert.alert(
       'Delete Session',
-      'Are you sure you want to delete this session? This action cannot be undone.',
+      'Are you sure you want to delete this session? It will be moved to the trash, and can be restored from Settings.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -8,17 +8,48 @@ import {
   Alert,
   Switch,
 } from 'react-native';
-import * as FileSystem from 'expo-file-system';
-import * as Sharing from 'expo-sharing';
-import * as DocumentPicker from 'expo-document-picker';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useApp } from '../context/AppContext';
-import { Card, Button, Input } from '../components';
+import { useSecurity } from '../context/SecurityContext';
+import { useSync, SyncStatus } from '../context/SyncContext';
+import { useBackups } from '../context/BackupContext';
+import { Card, Button, Input, MasteryCriteriaEditor, AccuracyMethodEditor } from '../components';
 import { Colors } from '../utils/colors';
-import { exportAllData, importData, clearAllData } from '../services/storage';
+import {
+  exportAllData,
+  importData,
+  previewImport,
+  clearAllData,
+  getStorageBackendName,
+  BackupStorage,
+  MIN_BACKUP_PASSPHRASE_LENGTH,
+  MIN_PASSCODE_LENGTH,
+} from '../services/storage';
+import { StorageBackendName } from '../services/storageAdapters';
+import { canChooseBackupFolder, chooseBackupFolder } from '../services/backupFolder';
+import { pickTextFile, shareTextFile } from '../services/files';
+import { isClientBundle } from '../services/clientBundle';
+import { isEncryptedBackup } from '../services/encryption';
+import { ImportMode, ImportPreview, CollectionDiff } from '../services/backup';
+import { ValidationIssue, formatIssue } from '../services/validation';
 import { format } from 'date-fns';
+import { AppSettings, RootStackParamList } from '../types';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export const SettingsScreen: React.FC = () => {
-  const { settings, updateSettings, clients, goals, sessions, refreshData } = useApp();
+  const navigation = useNavigation<NavigationProp>();
+  const { settings, updateSettings, clients, goals, sessions, trash, refreshData } = useApp();
+  const { changePasscode, lock } = useSecurity();
+  const { syncState, status: syncStatus, pendingCount, syncNow, configureSync } = useSync();
+  const {
+    isAvailable: isAutoBackupAvailable,
+    folderLocation: backupFolderLocation,
+    snapshots: backupSnapshots,
+    isBackingUp,
+    backUpNow,
+  } = useBackups();
 
   const [defaultDuration, setDefaultDuration] = useState(
     settings.defaultSessionDuration.toString()
@@ -28,6 +59,34 @@ export const SettingsScreen: React.FC = () => {
   );
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    content: string;
+    preview: ImportPreview;
+    warnings: ValidationIssue[];
+  } | null>(null);
+  const [importErrors, setImportErrors] = useState<ValidationIssue[]>([]);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [autoBackupPassphrase, setAutoBackupPassphrase] = useState<string | null>(null); // shown
+  const [newAutoBackupPassphrase, setNewAutoBackupPassphrase] = useState('');
+  const [isSettingAutoBackupPassphrase, setIsSettingAutoBackupPassphrase] = useState(false);
+  const [currentPasscode, setCurrentPasscode] = useState('');
+  const [newPasscode, setNewPasscode] = useState('');
+  const [confirmPasscode, setConfirmPasscode] = useState('');
+  const [isChangingPasscode, setIsChangingPasscode] = useState(false);
+  const [storageBackend, setStorageBackend] = useState<StorageBackendName | null>(null);
+  const [syncServerUrl, setSyncServerUrl] = useState('');
+  const [syncToken, setSyncToken] = useState('');
+  const [isSavingSync, setIsSavingSync] = useState(false);
+
+  useEffect(() => {
+    getStorageBackendName().then(setStorageBackend);
+  }, []);
+
+  // Fill the sync fields once the saved configuration has loaded
+  useEffect(() => {
+    setSyncServerUrl(syncState?.serverUrl ?? '');
+    setSyncToken(syncState?.token ?? '');
+  }, [syncState?.serverUrl, syncState?.token]);
 
   const handleSaveSettings = async () => {
     const duration = parseInt(defaultDuration) || 30;
@@ -42,25 +101,114 @@ export const SettingsScreen: React.FC = () => {
     Alert.alert('Saved', 'Settings have been updated.');
   };
 
+  const handleSaveSync = async () => {
+    const serverUrl = syncServerUrl.trim();
+    if (serverUrl && !/^https?:\/\/\S+$/.test(serverUrl)) {
+      Alert.alert('Invalid Address', 'Enter the server address, starting with http:// or https://.');
+      return;
+    }
+
+    setIsSavingSync(true);
+    const success = await configureSync(serverUrl, syncToken);
+    setIsSavingSync(false);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to save the sync settings. Please try again.');
+    } else if (serverUrl) {
+      const result = await syncNow();
+      if (!result.success) {
+        Alert.alert('Sync Failed', result.error);
+      }
+    }
+  };
+
+  const handleSyncNow = async () => {
+    const result = await syncNow();
+    if (!result.success) {
+      Alert.alert('Sync Failed', result.error);
+    }
+  };
+
+  const handleBackUpNow = async () => {
+    const success = await backUpNow();
+    if (!success) {
+      Alert.alert('Error', 'Failed to back up. Please try again.');
+    }
+  };
+
+  const handleShowAutoBackupPassphrase = async () => {
+    try {
+      setAutoBackupPassphrase(await BackupStorage.getPassphrase());
+    } catch (error) {
+      console.error('Error reading the backup passphrase:', error);
+      Alert.alert('Error', 'Failed to read the backup passphrase. Please try again.');
+    }
+  };
+
+  const setAutoBackupPassphraseTo = async (passphrase: string) => {
+    setIsSettingAutoBackupPassphrase(true);
+    const success = await BackupStorage.setPassphrase(passphrase);
+    // A backup made now opens with the new passphrase straight away
+    const backedUp = success && (await backUpNow());
+    setIsSettingAutoBackupPassphrase(false);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to save the backup passphrase. Please try again.');
+      return;
+    }
+    setNewAutoBackupPassphrase('');
+    setAutoBackupPassphrase(null);
+    Alert.alert(
+      'Passphrase Set',
+      backedUp
+        ? 'New backups use your passphrase, starting with one made just now.'
+        : 'New backups use your passphrase. Back up now to have one that opens with it.'
+    );
+  };
+
+  const handleSetAutoBackupPassphrase = () => {
+    if (newAutoBackupPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+      Alert.alert(
+        'Passphrase Too Short',
+        `Use at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters.`
+      );
+      return;
+    }
+    Alert.alert(
+      'Set Backup Passphrase',
+      'Backups already made still open with the old passphrase only. Show it and note it down first if you may need them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Set', onPress: () => setAutoBackupPassphraseTo(newAutoBackupPassphrase) },
+      ]
+    );
+  };
+
+  const handleChooseBackupFolder = async () => {
+    try {
+      const folder = await chooseBackupFolder();
+      if (folder) {
+        await updateSettings({ ...settings, autoBackupFolder: folder });
+      }
+    } catch (error) {
+      console.error('Error choosing a backup folder:', error);
+      Alert.alert('Error', 'Failed to choose the folder. Please try again.');
+    }
+  };
+
   const handleExportData = async () => {
     setIsExporting(true);
 
     try {
-      const data = await exportAllData();
-      const fileName = `speech-therapy-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
-      const docDir = FileSystem.Paths.document;
-      const file = new FileSystem.File(docDir, fileName);
-
-      await file.create();
-      await file.write(data);
-
-      const canShare = await Sharing.isAvailableAsync();
-      if (canShare) {
-        await Sharing.shareAsync(file.uri, {
-          mimeType: 'application/json',
-          dialogTitle: 'Export Speech Therapy Data',
-        });
-      } else {
+      const data = await exportAllData(backupPassphrase || undefined);
+      const fileName = `speech-therapy-backup-${format(new Date(), 'yyyy-MM-dd')}${
+        backupPassphrase ? '-encrypted' : ''
+      }.json`;
+      const shared = await shareTextFile(fileName, data, {
+        mimeType: 'application/json',
+        dialogTitle: 'Export Speech Therapy Data',
+      });
+      if (!shared) {
         Alert.alert('Export Complete', `Data saved to ${fileName}`);
       }
     } catch (error) {
@@ -72,54 +220,134 @@ export const SettingsScreen: React.FC = () => {
   };
 
   const handleImportData = async () => {
+    setIsImporting(true);
+
+    try {
+      const content = await pickTextFile('application/json');
+      if (content === null) {
+        return;
+      }
+
+      // Replacing everything with one client's records would lose the rest
+      if (isClientBundle(content)) {
+        Alert.alert(
+          'Client Export',
+          'This file holds exported clients, not a full backup. Import it from the Clients tab to add them to your caseload.'
+        );
+        return;
+      }
+
+      if (isEncryptedBackup(content) && !backupPassphrase) {
+        Alert.alert(
+          'Passphrase Required',
+          'This backup is encrypted. Enter its passphrase under Backup Passphrase and import again.'
+        );
+        return;
+      }
+
+      const { preview, issues } = await previewImport(content, backupPassphrase || undefined);
+
+      if (preview) {
+        setImportErrors([]);
+        setPendingImport({ content, preview, warnings: issues });
+      } else {
+        // Nothing is written; show exactly what is wrong with the file
+        setPendingImport(null);
+        setImportErrors(issues.filter((issue) => issue.severity === 'error'));
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', 'Unable to import data. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const applyImport = async (mode: ImportMode) => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+
+    try {
+      const summary = await importData(
+        pendingImport.content,
+        mode,
+        backupPassphrase || undefined
+      );
+
+      if (summary) {
+        await refreshData();
+        setPendingImport(null);
+        Alert.alert(
+          'Success',
+          mode === 'merge'
+            ? `Merged backup: ${summarizeChanges(summary)}.`
+            : 'All data was replaced with the backup.'
+        );
+      } else {
+        Alert.alert('Import Failed', 'Invalid backup file format.');
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      Alert.alert('Import Failed', 'Unable to import data. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleReplaceAll = () => {
+    if (!pendingImport) return;
+    const { existingCounts } = pendingImport.preview;
+
     Alert.alert(
-      'Import Data',
-      'This will merge imported data with existing data. Continue?',
+      'Replace All Data',
+      `This will delete your current ${existingCounts.clients} clients, ${existingCounts.goals} goals and ${existingCounts.sessions} sessions and replace them with the backup. Continue?`,
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Continue',
-          onPress: async () => {
-            setIsImporting(true);
-
-            try {
-              const result = await DocumentPicker.getDocumentAsync({
-                type: 'application/json',
-                copyToCacheDirectory: true,
-              });
-
-              if (result.canceled) {
-                setIsImporting(false);
-                return;
-              }
-
-              const fileUri = result.assets[0].uri;
-              const file = new FileSystem.File(fileUri);
-              const content = await file.text();
-              const success = await importData(content);
-
-              if (success) {
-                await refreshData();
-                Alert.alert('Success', 'Data imported successfully.');
-              } else {
-                Alert.alert('Import Failed', 'Invalid backup file format.');
-              }
-            } catch (error) {
-              console.error('Import error:', error);
-              Alert.alert('Import Failed', 'Unable to import data. Please try again.');
-            } finally {
-              setIsImporting(false);
-            }
-          },
-        },
+        { text: 'Replace All', style: 'destructive', onPress: () => applyImport('replace') },
       ]
     );
   };
 
+  const renderDiffRow = (label: string, diff: CollectionDiff) => (
+    <View key={label} style={styles.diffRow}>
+      <Text style={styles.diffLabel}>{label}</Text>
+      <Text style={styles.diffValue}>+{diff.added.length}</Text>
+      <Text style={styles.diffValue}>{diff.updated.length}</Text>
+      <Text style={styles.diffValue}>{diff.skipped.length}</Text>
+      <Text style={[styles.diffValue, diff.conflicts.length > 0 && styles.diffConflict]}>
+        {diff.conflicts.length}
+      </Text>
+    </View>
+  );
+
+  const handleChangePasscode = async () => {
+    if (newPasscode.length < MIN_PASSCODE_LENGTH) {
+      Alert.alert('Passcode Too Short', `Use at least ${MIN_PASSCODE_LENGTH} characters.`);
+      return;
+    }
+    if (newPasscode !== confirmPasscode) {
+      Alert.alert('Passcodes Differ', 'The new passcode and confirmation do not match.');
+      return;
+    }
+
+    setIsChangingPasscode(true);
+    const success = await changePasscode(currentPasscode, newPasscode);
+    setIsChangingPasscode(false);
+
+    if (success) {
+      setCurrentPasscode('');
+      setNewPasscode('');
+      setConfirmPasscode('');
+      Alert.alert('Passcode Changed', 'Your data has been re-encrypted with the new passcode.');
+    } else {
+      Alert.alert('Passcode Not Changed', 'The current passcode is incorrect or the data could not be re-encrypted.');
+    }
+  };
+
   const handleClearData = () => {
     Alert.alert(
       'Clear All Data',
-      'Are you sure you want to delete ALL data? This includes all clients, goals, sessions, and settings. This action CANNOT be undone.',
+      'Are you sure you want to delete ALL data? This includes all clients, goals, sessions, and settings; the change history is kept. This action CANNOT be undone.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -170,6 +398,51 @@ export const SettingsScreen: React.FC = () => {
           hint="Default goal accuracy target"
         />
 
+        <Text style={styles.fieldLabel}>Default Mastery Criteria</Text>
+        <Text style={styles.sectionDescription}>
+          When to suggest marking a goal achieved, unless the goal sets its own criteria.
+        </Text>
+        <MasteryCriteriaEditor
+          value={settings.defaultMastery}
+          onChange={(defaultMastery) => updateSettings({ ...settings, defaultMastery })}
+        />
+
+        <Text style={styles.fieldLabel}>Accuracy Method</Text>
+        <Text style={styles.sectionDescription}>
+          How a goal's current accuracy is worked out from its trials, unless the goal sets its
+          own method. Changing it recalculates every goal.
+        </Text>
+        <AccuracyMethodEditor
+          value={settings.accuracyMethod}
+          onChange={(accuracyMethod) => updateSettings({ ...settings, accuracyMethod })}
+        />
+
+        <Text style={styles.fieldLabel}>Trend Window</Text>
+        <Text style={styles.sectionDescription}>
+          How many recent sessions a goal's trend is worked out from.
+        </Text>
+        <View style={styles.optionRow}>
+          {TREND_WINDOW_OPTIONS.map((count) => (
+            <TouchableOpacity
+              key={count}
+              style={[
+                styles.optionButton,
+                settings.trendWindow === count && styles.optionButtonActive,
+              ]}
+              onPress={() => updateSettings({ ...settings, trendWindow: count })}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  settings.trendWindow === count && styles.optionTextActive,
+                ]}
+              >
+                {count} sessions
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
         <Button
           title="Save Settings"
           onPress={handleSaveSettings}
@@ -211,6 +484,17 @@ export const SettingsScreen: React.FC = () => {
           Export your data to create a backup or transfer to another device.
         </Text>
 
+        <Input
+          label="Backup Passphrase"
+          value={backupPassphrase}
+          onChangeText={setBackupPassphrase}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder="Recommended"
+          hint="Encrypts exported backups, and opens encrypted backups on import"
+        />
+
         <View style={styles.buttonGroup}>
           <Button
             title="Export All Data"
@@ -223,11 +507,492 @@ export const SettingsScreen: React.FC = () => {
           <Button
             title="Import Data"
             onPress={handleImportData}
-            loading={isImporting}
+            loading={isImporting && !pendingImport}
+            disabled={!!pendingImport}
             variant="outline"
             fullWidth
           />
+
+          <Button
+            title="Export to Spreadsheet (CSV)"
+            onPress={() => navigation.navigate('DataExport')}
+            variant="outline"
+            fullWidth
+          />
+
+          <Button
+            title="De-identified Export"
+            onPress={() => navigation.navigate('DeidentifiedExport')}
+            variant="outline"
+            fullWidth
+          />
+
+          <Button
+            title="Check Data Integrity"
+            onPress={() => navigation.navigate('Integrity')}
+            variant="ghost"
+            fullWidth
+          />
+
+          <Button
+            title="View Audit Log"
+            onPress={() => navigation.navigate('AuditLog')}
+            variant="ghost"
+            fullWidth
+          />
+        </View>
+      </Card>
+
+      {/* Import Problems */}
+      {importErrors.length > 0 && (
+        <Card style={{ ...styles.section, ...styles.dangerSection }}>
+          <Text style={styles.dangerTitle}>Backup Not Imported</Text>
+          <Text style={styles.dangerDescription}>
+            This backup has {importErrors.length} problem{importErrors.length !== 1 ? 's' : ''}.
+            Nothing was changed.
+          </Text>
+          {importErrors.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+            <Text key={index} style={styles.issueText}>
+              • {formatIssue(issue)}
+            </Text>
+          ))}
+          {importErrors.length > MAX_LISTED_ISSUES && (
+            <Text style={styles.issueText}>
+              …and {importErrors.length - MAX_LISTED_ISSUES} more
+            </Text>
+          )}
+          <Button
+            title="Dismiss"
+            onPress={() => setImportErrors([])}
+            variant="ghost"
+            fullWidth
+          />
+        </Card>
+      )}
+
+      {/* Import Preview */}
+      {pendingImport && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Import Preview</Text>
+          <Text style={styles.sectionDescription}>
+            Merge keeps the newer copy of each record and leaves your other data alone.
+            Replace All deletes your current data and restores the backup exactly.
+          </Text>
+
+          <View style={styles.diffRow}>
+            <Text style={styles.diffLabel} />
+            <Text style={styles.diffHeader}>New</Text>
+            <Text style={styles.diffHeader}>Updated</Text>
+            <Text style={styles.diffHeader}>Skipped</Text>
+            <Text style={styles.diffHeader}>Conflicts</Text>
+          </View>
+          {renderDiffRow('Clients', pendingImport.preview.clients)}
+          {renderDiffRow('Goals', pendingImport.preview.goals)}
+          {renderDiffRow('Sessions', pendingImport.preview.sessions)}
+
+          {pendingImport.warnings.length > 0 && (
+            <View style={styles.warningList}>
+              <Text style={styles.warningTitle}>
+                {pendingImport.warnings.length} warning
+                {pendingImport.warnings.length !== 1 ? 's' : ''} (import can continue)
+              </Text>
+              {pendingImport.warnings.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                <Text key={index} style={styles.issueText}>
+                  • {formatIssue(issue)}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {countConflicts(pendingImport.preview) > 0 && (
+            <Text style={styles.conflictNote}>
+              Conflicting records were changed in both places at the same time. Merge keeps
+              your current copy of them.
+            </Text>
+          )}
+
+          <View style={styles.buttonGroup}>
+            <Button
+              title="Merge"
+              onPress={() => applyImport('merge')}
+              loading={isImporting}
+              fullWidth
+            />
+            <Button
+              title="Replace All"
+              onPress={handleReplaceAll}
+              disabled={isImporting}
+              variant="outline"
+              fullWidth
+            />
+            <Button
+              title="Cancel"
+              onPress={() => setPendingImport(null)}
+              disabled={isImporting}
+              variant="ghost"
+              fullWidth
+            />
+          </View>
+        </Card>
+      )}
+
+      {/* Automatic Backups */}
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Automatic Backups</Text>
+        <Text style={styles.sectionDescription}>
+          {isAutoBackupAvailable
+            ? 'Encrypted backups of all data are saved on this device, and the oldest are removed as new ones are made.'
+            : 'Automatic backups run in the mobile and desktop apps. In a web browser, use Export Data instead.'}
+        </Text>
+
+        {isAutoBackupAvailable && (
+          <>
+            <Text style={styles.fieldLabel}>Back Up</Text>
+            <View style={styles.optionRow}>
+              {BACKUP_FREQUENCY_OPTIONS.map((frequency) => (
+                <TouchableOpacity
+                  key={frequency}
+                  style={[
+                    styles.optionButton,
+                    settings.autoBackupFrequency === frequency && styles.optionButtonActive,
+                  ]}
+                  onPress={() => updateSettings({ ...settings, autoBackupFrequency: frequency })}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      settings.autoBackupFrequency === frequency && styles.optionTextActive,
+                    ]}
+                  >
+                    {BACKUP_FREQUENCY_LABELS[frequency]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Also Back Up After</Text>
+            <View style={styles.optionRow}>
+              {BACKUP_SESSION_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[
+                    styles.optionButton,
+                    settings.autoBackupSessionInterval === count && styles.optionButtonActive,
+                  ]}
+                  onPress={() =>
+                    updateSettings({ ...settings, autoBackupSessionInterval: count })
+                  }
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      settings.autoBackupSessionInterval === count && styles.optionTextActive,
+                    ]}
+                  >
+                    {count === 0 ? 'Off' : `${count} sessions`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Keep</Text>
+            <View style={styles.optionRow}>
+              {BACKUP_KEEP_OPTIONS.map((count) => (
+                <TouchableOpacity
+                  key={count}
+                  style={[
+                    styles.optionButton,
+                    settings.autoBackupKeep === count && styles.optionButtonActive,
+                  ]}
+                  onPress={() => updateSettings({ ...settings, autoBackupKeep: count })}
+                >
+                  <Text
+                    style={[
+                      styles.optionText,
+                      settings.autoBackupKeep === count && styles.optionTextActive,
+                    ]}
+                  >
+                    {count} backups
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.aboutItem}>
+              <Text style={styles.aboutLabel}>Last Backup</Text>
+              <Text style={styles.aboutValue}>
+                {backupSnapshots.length > 0
+                  ? format(new Date(backupSnapshots[0].createdAt), 'MMM d, h:mm a')
+                  : 'Never'}
+              </Text>
+            </View>
+            {backupFolderLocation && (
+              <Text style={styles.backupLocation} numberOfLines={2}>
+                Saved in {backupFolderLocation}
+              </Text>
+            )}
+
+            {canChooseBackupFolder() && (
+              <View style={styles.backupFolderActions}>
+                <Button
+                  title="Choose Folder"
+                  onPress={handleChooseBackupFolder}
+                  variant="outline"
+                  size="small"
+                />
+                {settings.autoBackupFolder !== '' && (
+                  <Button
+                    title="Use Default Folder"
+                    onPress={() => updateSettings({ ...settings, autoBackupFolder: '' })}
+                    variant="ghost"
+                    size="small"
+                  />
+                )}
+              </View>
+            )}
+
+            <Text style={styles.fieldLabel}>Backup Passphrase</Text>
+            <Text style={styles.sectionDescription}>
+              Backups open with this passphrase, in this app on any device. Keep a copy
+              somewhere other than this device.
+            </Text>
+            {autoBackupPassphrase !== null && (
+              <Text style={styles.passphraseText} selectable>
+                {autoBackupPassphrase}
+              </Text>
+            )}
+            <Button
+              title={autoBackupPassphrase !== null ? 'Hide Passphrase' : 'Show Passphrase'}
+              onPress={() =>
+                autoBackupPassphrase !== null
+                  ? setAutoBackupPassphrase(null)
+                  : handleShowAutoBackupPassphrase()
+              }
+              variant="ghost"
+              size="small"
+            />
+            <Input
+              label="New Backup Passphrase"
+              value={newAutoBackupPassphrase}
+              onChangeText={setNewAutoBackupPassphrase}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              hint={`At least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters, one you'll remember`}
+              containerStyle={styles.passphraseInput}
+            />
+            <Button
+              title="Set Passphrase"
+              onPress={handleSetAutoBackupPassphrase}
+              loading={isSettingAutoBackupPassphrase}
+              disabled={!newAutoBackupPassphrase || isSettingAutoBackupPassphrase}
+              variant="outline"
+              size="small"
+            />
+
+            <Button
+              title="Back Up Now"
+              onPress={handleBackUpNow}
+              loading={isBackingUp}
+              variant="outline"
+              fullWidth
+              style={styles.backUpButton}
+            />
+            <Button
+              title={`Restore from Backup (${backupSnapshots.length})`}
+              onPress={() => navigation.navigate('Backups')}
+              variant="ghost"
+              fullWidth
+            />
+          </>
+        )}
+      </Card>
+
+      {/* Sync */}
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Sync</Text>
+        <Text style={styles.sectionDescription}>
+          Share clients, goals and sessions with other devices through your clinic's sync
+          server. Changes made offline are sent the next time the server can be reached.
+        </Text>
+
+        <Input
+          label="Server Address"
+          value={syncServerUrl}
+          onChangeText={setSyncServerUrl}
+          placeholder="http://192.168.1.20:8787"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="url"
+          hint="Leave empty to turn sync off"
+        />
+        <Input
+          label="Access Token"
+          value={syncToken}
+          onChangeText={setSyncToken}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          hint="Only if the server requires one"
+        />
+
+        <Button
+          title={syncServerUrl.trim() ? 'Save and Sync' : 'Save'}
+          onPress={handleSaveSync}
+          loading={isSavingSync}
+          disabled={
+            syncServerUrl.trim() === (syncState?.serverUrl ?? '') &&
+            syncToken.trim() === (syncState?.token ?? '')
+          }
+          variant="outline"
+          fullWidth
+        />
+
+        {syncStatus !== 'off' && syncState && (
+          <View style={styles.syncStatus}>
+            <View style={styles.aboutItem}>
+              <Text style={styles.aboutLabel}>Status</Text>
+              <Text
+                style={[styles.aboutValue, syncStatus === 'error' && styles.syncErrorText]}
+              >
+                {SYNC_STATUS_LABELS[syncStatus]}
+              </Text>
+            </View>
+            <View style={styles.aboutItem}>
+              <Text style={styles.aboutLabel}>Last Synced</Text>
+              <Text style={styles.aboutValue}>
+                {syncState.lastSyncedAt
+                  ? format(new Date(syncState.lastSyncedAt), 'MMM d, h:mm a')
+                  : 'Never'}
+              </Text>
+            </View>
+            <View style={styles.aboutItem}>
+              <Text style={styles.aboutLabel}>Waiting to Send</Text>
+              <Text style={styles.aboutValue}>
+                {pendingCount} change{pendingCount !== 1 ? 's' : ''}
+              </Text>
+            </View>
+            {syncState.lastError && (
+              <Text style={styles.syncError}>{syncState.lastError}</Text>
+            )}
+
+            <Button
+              title="Sync Now"
+              onPress={handleSyncNow}
+              loading={syncStatus === 'syncing'}
+              variant="ghost"
+              fullWidth
+            />
+          </View>
+        )}
+      </Card>
+
+      {/* Trash */}
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Trash</Text>
+        <Text style={styles.sectionDescription}>
+          Deleted clients, goals and sessions can be restored until they are deleted
+          permanently.
+        </Text>
+
+        <Text style={styles.fieldLabel}>Delete Permanently After</Text>
+        <View style={styles.optionRow}>
+          {TRASH_RETENTION_OPTIONS.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={[
+                styles.optionButton,
+                settings.trashRetentionDays === days && styles.optionButtonActive,
+              ]}
+              onPress={() => updateSettings({ ...settings, trashRetentionDays: days })}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  settings.trashRetentionDays === days && styles.optionTextActive,
+                ]}
+              >
+                {days === 0 ? 'Never' : `${days} days`}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
+
+        <Button
+          title={`Open Trash (${trash.length})`}
+          onPress={() => navigation.navigate('Trash')}
+          variant="outline"
+          fullWidth
+        />
+      </Card>
+
+      {/* Security */}
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Security</Text>
+        <Text style={styles.sectionDescription}>
+          All client data on this device is encrypted with your passcode. Changing it
+          re-encrypts everything.
+        </Text>
+
+        <Input
+          label="Current Passcode"
+          value={currentPasscode}
+          onChangeText={setCurrentPasscode}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Input
+          label="New Passcode"
+          value={newPasscode}
+          onChangeText={setNewPasscode}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          hint={`At least ${MIN_PASSCODE_LENGTH} characters`}
+        />
+        <Input
+          label="Confirm New Passcode"
+          value={confirmPasscode}
+          onChangeText={setConfirmPasscode}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        <Button
+          title="Change Passcode"
+          onPress={handleChangePasscode}
+          loading={isChangingPasscode}
+          disabled={!currentPasscode || !newPasscode}
+          variant="outline"
+          fullWidth
+        />
+
+        <Text style={styles.fieldLabel}>Auto-Lock After</Text>
+        <View style={styles.optionRow}>
+          {AUTO_LOCK_OPTIONS.map((minutes) => (
+            <TouchableOpacity
+              key={minutes}
+              style={[
+                styles.optionButton,
+                settings.autoLockMinutes === minutes && styles.optionButtonActive,
+              ]}
+              onPress={() => updateSettings({ ...settings, autoLockMinutes: minutes })}
+            >
+              <Text
+                style={[
+                  styles.optionText,
+                  settings.autoLockMinutes === minutes && styles.optionTextActive,
+                ]}
+              >
+                {minutes === 0 ? 'Never' : `${minutes} min`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Button title="Lock Now" onPress={lock} variant="ghost" fullWidth />
       </Card>
 
       {/* Danger Zone */}
@@ -260,6 +1025,12 @@ export const SettingsScreen: React.FC = () => {
           <Text style={styles.aboutLabel}>Built with</Text>
           <Text style={styles.aboutValue}>React Native + Expo</Text>
         </View>
+        {storageBackend && (
+          <View style={styles.aboutItem}>
+            <Text style={styles.aboutLabel}>Storage</Text>
+            <Text style={styles.aboutValue}>{STORAGE_BACKEND_LABELS[storageBackend]}</Text>
+          </View>
+        )}
       </Card>
 
       <View style={styles.bottomPadding} />
@@ -267,6 +1038,52 @@ export const SettingsScreen: React.FC = () => {
   );
 };
 
+const MAX_LISTED_ISSUES = 10;
+
+const AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const BACKUP_FREQUENCY_OPTIONS: AppSettings['autoBackupFrequency'][] = ['daily', 'weekly', 'off'];
+
+const BACKUP_FREQUENCY_LABELS: Record<AppSettings['autoBackupFrequency'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  off: 'Off',
+};
+
+const BACKUP_SESSION_OPTIONS = [5, 10, 25, 0];
+
+const BACKUP_KEEP_OPTIONS = [3, 7, 14, 30];
+
+const TREND_WINDOW_OPTIONS = [5, 8, 12, 20];
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Off',
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  error: 'Failed',
+};
+
+const STORAGE_BACKEND_LABELS: Record<StorageBackendName, string> = {
+  asyncStorage: 'AsyncStorage',
+  indexedDB: 'IndexedDB',
+  sqlite: 'SQLite',
+};
+
+const countConflicts = (preview: ImportPreview): number =>
+  preview.clients.conflicts.length +
+  preview.goals.conflicts.length +
+  preview.sessions.conflicts.length;
+
+const summarizeChanges = (preview: ImportPreview): string => {
+  const diffs = [preview.clients, preview.goals, preview.sessions];
+  const added = diffs.reduce((acc, d) => acc + d.added.length, 0);
+  const updated = diffs.reduce((acc, d) => acc + d.updated.length, 0);
+  const skipped = diffs.reduce((acc, d) => acc + d.skipped.length, 0);
+  return `${added} added, ${updated} updated, ${skipped} skipped, ${countConflicts(preview)} conflicting`;
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -313,6 +1130,129 @@ const styles = StyleSheet.create({
   buttonGroup: {
     gap: 12,
   },
+  diffRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  diffLabel: {
+    flex: 1.4,
+    fontSize: 14,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+  diffHeader: {
+    flex: 1,
+    fontSize: 11,
+    color: Colors.textSecondary,
+    textAlign: 'center',
+  },
+  diffValue: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+    textAlign: 'center',
+  },
+  diffConflict: {
+    color: Colors.warning,
+    fontWeight: '700',
+  },
+  issueText: {
+    fontSize: 13,
+    color: Colors.text,
+    lineHeight: 18,
+    marginBottom: 4,
+  },
+  warningList: {
+    marginTop: 12,
+    padding: 12,
+    backgroundColor: Colors.warningLight,
+    borderRadius: 8,
+  },
+  warningTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.warning,
+    marginBottom: 6,
+  },
+  conflictNote: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 12,
+    lineHeight: 18,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  optionButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.background,
+    alignItems: 'center',
+  },
+  optionButtonActive: {
+    backgroundColor: Colors.primary,
+  },
+  optionText: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+    fontWeight: '500',
+  },
+  optionTextActive: {
+    color: Colors.textOnPrimary,
+  },
+  backupLocation: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 8,
+    marginBottom: 4,
+  },
+  backupFolderActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  backUpButton: {
+    marginTop: 16,
+  },
+  passphraseText: {
+    fontSize: 13,
+    color: Colors.text,
+    backgroundColor: Colors.background,
+    padding: 8,
+    borderRadius: 6,
+    marginBottom: 8,
+  },
+  passphraseInput: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  syncStatus: {
+    marginTop: 8,
+  },
+  syncErrorText: {
+    color: Colors.error,
+  },
+  syncError: {
+    fontSize: 13,
+    color: Colors.error,
+    marginTop: 8,
+    marginBottom: 4,
+    lineHeight: 18,
+  },
   dangerSection: {
     borderColor: Colors.error,
     borderWidth: 1,
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, Alert } from 'react-native';
+import { useApp } from '../context/AppContext';
+import { Card, Button, Badge, EmptyState } from '../components';
+import { Colors } from '../utils/colors';
+import { formatDate, formatSessionDate } from '../utils/helpers';
+import { TrashGroup, daysUntilPurge } from '../services/trash';
+
+export const TrashScreen: React.FC = () => {
+  const { trash, clients, settings, restoreFromTrash, purgeFromTrash } = useApp();
+  const [workingGroupId, setWorkingGroupId] = useState<string | null>(null);
+
+  // Client names for goals and sessions deleted on their own. Their client
+  // may itself be in the trash, in another group.
+  const getClientName = (clientId: string): string | null => {
+    const client =
+      clients.find((c) => c.id === clientId) ||
+      trash.flatMap((group) => group.clients).find((c) => c.id === clientId);
+    return client ? `${client.firstName} ${client.lastName}` : null;
+  };
+
+  const isClientInTrash = (clientId: string): boolean => !clients.some((c) => c.id === clientId);
+
+  const getTitle = (group: TrashGroup): string => {
+    switch (group.kind) {
+      case 'client': {
+        const client = group.clients[0];
+        return `${client.firstName} ${client.lastName}`;
+      }
+      case 'goal':
+        // The goal that was deleted, rather than one of its objectives
+        return (group.goals.find((goal) => goal.id === group.id) ?? group.goals[0]).name;
+      case 'session':
+        return `Session on ${formatSessionDate(group.sessions[0].date)}`;
+    }
+  };
+
+  const getClientId = (group: TrashGroup): string =>
+    group.kind === 'goal' ? group.goals[0].clientId : group.sessions[0].clientId;
+
+  const handleRestore = async (group: TrashGroup) => {
+    setWorkingGroupId(group.id);
+    const success = await restoreFromTrash(group.id);
+    setWorkingGroupId(null);
+
+    if (!success) {
+      Alert.alert('Error', 'Failed to restore. Please try again.');
+    }
+  };
+
+  const handlePurge = (group: TrashGroup) => {
+    Alert.alert(
+      'Delete Forever',
+      `Permanently delete ${getTitle(group)}${
+        group.kind === 'client' ? ' with all their goals and sessions' : ''
+      }? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            setWorkingGroupId(group.id);
+            const success = await purgeFromTrash([group.id]);
+            setWorkingGroupId(null);
+            if (!success) {
+              Alert.alert('Error', 'Failed to delete. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(
+      'Empty Trash',
+      `Permanently delete all ${trash.length} item${trash.length !== 1 ? 's' : ''} in the trash? This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            const success = await purgeFromTrash(trash.map((group) => group.id));
+            if (!success) {
+              Alert.alert('Error', 'Failed to empty the trash. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderGroup = (group: TrashGroup) => {
+    const clientId = group.kind === 'client' ? null : getClientId(group);
+    const clientName = clientId ? getClientName(clientId) : null;
+    const purgeDays = daysUntilPurge(group, settings.trashRetentionDays);
+
+    return (
+      <Card key={group.id} style={styles.groupCard}>
+        <View style={styles.groupHeader}>
+          <Text style={styles.groupTitle} numberOfLines={2}>
+            {getTitle(group)}
+          </Text>
+          <Badge label={KIND_LABELS[group.kind]} variant="default" size="small" />
+        </View>
+
+        {clientName && <Text style={styles.groupDetail}>Client: {clientName}</Text>}
+        <Text style={styles.groupDetail}>Deleted {formatDate(group.deletedAt)}</Text>
+
+        {group.kind === 'client' && (
+          <Text style={styles.groupDetail}>
+            Includes {group.goals.length} goal{group.goals.length !== 1 ? 's' : ''} and{' '}
+            {group.sessions.length} session{group.sessions.length !== 1 ? 's' : ''}
+          </Text>
+        )}
+
+        {group.kind === 'goal' && group.goals.length > 1 && (
+          <Text style={styles.groupDetail}>
+            Includes {group.goals.length - 1} objective{group.goals.length !== 2 ? 's' : ''}
+          </Text>
+        )}
+
+        {purgeDays !== null && (
+          <Text style={styles.purgeNote}>
+            {purgeDays === 0
+              ? 'Deleted permanently the next time the app starts'
+              : `Deleted permanently in ${purgeDays} day${purgeDays !== 1 ? 's' : ''}`}
+          </Text>
+        )}
+
+        {clientId && isClientInTrash(clientId) && (
+          <Text style={styles.purgeNote}>
+            The client is in the trash too. Restore them to see this {group.kind} again.
+          </Text>
+        )}
+
+        <View style={styles.groupActions}>
+          <Button
+            title="Restore"
+            onPress={() => handleRestore(group)}
+            loading={workingGroupId === group.id}
+            disabled={workingGroupId !== null}
+            variant="outline"
+            size="small"
+            style={styles.groupButton}
+          />
+          <Button
+            title="Delete Forever"
+            onPress={() => handlePurge(group)}
+            disabled={workingGroupId !== null}
+            variant="ghost"
+            size="small"
+            style={styles.groupButton}
+            textStyle={styles.purgeButtonText}
+          />
+        </View>
+      </Card>
+    );
+  };
+
+  if (trash.length === 0) {
+    return (
+      <View style={styles.container}>
+        <EmptyState
+          title="Trash is Empty"
+          message="Deleted clients, goals and sessions appear here until they are deleted permanently."
+        />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <Text style={styles.description}>
+        {settings.trashRetentionDays > 0
+          ? `Items are deleted permanently ${settings.trashRetentionDays} days after they were moved here.`
+          : 'Items stay here until you delete them.'}{' '}
+        Restoring a client also restores the goals and sessions deleted with them.
+      </Text>
+
+      {trash.map(renderGroup)}
+
+      <Button
+        title="Empty Trash"
+        onPress={handleEmptyTrash}
+        disabled={workingGroupId !== null}
+        variant="danger"
+        fullWidth
+        style={styles.emptyButton}
+      />
+
+      <View style={styles.bottomPadding} />
+    </ScrollView>
+  );
+};
+
+const KIND_LABELS: Record<TrashGroup['kind'], string> = {
+  client: 'Client',
+  goal: 'Goal',
+  session: 'Session',
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  groupCard: {
+    marginHorizontal: 16,
+    marginTop: 12,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginRight: 8,
+  },
+  groupDetail: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 4,
+  },
+  purgeNote: {
+    fontSize: 13,
+    color: Colors.warning,
+    marginTop: 4,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 8,
+  },
+  groupButton: {
+    flex: 1,
+  },
+  purgeButtonText: {
+    color: Colors.error,
+  },
+  emptyButton: {
+    marginHorizontal: 16,
+    marginTop: 24,
+  },
+  bottomPadding: {
+    height: 32,
+  },
+});
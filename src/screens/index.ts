@@ -10,3 +10,13 @@ export { SessionDetailScreen } from './SessionDetailScreen';
 export { ReportsScreen } from './ReportsScreen';
 export { ScheduleScreen } from './ScheduleScreen';
 export { SettingsScreen } from './SettingsScreen';
+export { PasscodeScreen } from './PasscodeScreen';
+export { TrashScreen } from './TrashScreen';
+export { AuditLogScreen } from './AuditLogScreen';
+export { BackupsScreen } from './BackupsScreen';
+export { DataExportScreen } from './DataExportScreen';
+export { RosterImportScreen } from './RosterImportScreen';
+export { IntegrityScreen } from './IntegrityScreen';
+export { DeidentifiedExportScreen } from './DeidentifiedExportScreen';
+export { SearchScreen } from './SearchScreen';
+export { AlertsScreen } from './AlertsScreen';
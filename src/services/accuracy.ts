@@ -0,0 +1,85 @@
+// A goal's current accuracy, worked out from its trial history
+//
+// Accuracy is always recalculated from the live sessions that have trials
+// for the goal, never carried forward, so editing or deleting a session
+// gives the same answer as if it had been recorded that way. The method is
+// chosen in settings and can be overridden per goal.
+
+import { AccuracyMethod, Goal, Session } from '../types';
+import { calculateSessionStats } from '../utils/helpers';
+import { isDeleted } from './trash';
+
+export const DEFAULT_ACCURACY_METHOD: AccuracyMethod = { kind: 'lastSessions', sessions: 3 };
+
+export const getAccuracyMethod = (goal: Goal, defaultMethod: AccuracyMethod): AccuracyMethod =>
+  goal.accuracyMethod ?? defaultMethod;
+
+// Oldest first; sessions on the same date in the order they were made
+const oldestFirst = (a: Session, b: Session) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+export const calculateGoalAccuracy = (
+  goalId: string,
+  sessions: Session[],
+  method: AccuracyMethod
+): number => {
+  // Each session's trials for the goal; sessions without any say nothing
+  const history = sessions
+    .filter((session) => !isDeleted(session) && session.goals.includes(goalId))
+    .sort(oldestFirst)
+    .map((session) => session.trials.filter((trial) => trial.goalId === goalId))
+    .filter((trials) => trials.length > 0);
+  if (history.length === 0) return 0;
+
+  switch (method.kind) {
+    case 'lastSessions': {
+      const recent = history.slice(-method.sessions);
+      const total = recent.reduce((sum, trials) => sum + calculateSessionStats(trials).accuracy, 0);
+      return Math.round(total / recent.length);
+    }
+
+    case 'trialWindow':
+      return calculateSessionStats(history.flat().slice(-method.trials)).accuracy;
+
+    case 'exponential': {
+      const [first, ...rest] = history.map((trials) => calculateSessionStats(trials).accuracy);
+      const smoothed = rest.reduce(
+        (accuracy, session) => method.weight * session + (1 - method.weight) * accuracy,
+        first
+      );
+      return Math.round(smoothed);
+    }
+  }
+};
+
+// Goals whose stored accuracy differs from their history, with it corrected
+export const recalculateGoals = (
+  goals: Goal[],
+  sessions: Session[],
+  defaultMethod: AccuracyMethod
+): Goal[] =>
+  goals.flatMap((goal) => {
+    const accuracy = calculateGoalAccuracy(
+      goal.id,
+      sessions,
+      getAccuracyMethod(goal, defaultMethod)
+    );
+    return accuracy !== goal.currentAccuracy ? [{ ...goal, currentAccuracy: accuracy }] : [];
+  });
+
+export const isSameAccuracyMethod = (a: AccuracyMethod, b: AccuracyMethod): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// e.g. "Average of the last 3 sessions"
+export const describeAccuracyMethod = (method: AccuracyMethod): string => {
+  switch (method.kind) {
+    case 'lastSessions':
+      return method.sessions === 1
+        ? 'The latest session'
+        : `Average of the last ${method.sessions} sessions`;
+    case 'trialWindow':
+      return `The last ${method.trials} trials`;
+    case 'exponential':
+      return `Weighted average, ${Math.round(method.weight * 100)}% on the latest session`;
+  }
+};
@@ -0,0 +1,179 @@
+// Goal alerts: goals that need attention, found from their sessions
+//
+// Each rule looks at one goal and either raises an alert with the reason
+// spelled out or stays quiet. An alert's id is its rule and goal, so a
+// snooze holds however the numbers move. Its basis is what it was raised
+// on (the sessions so far, the target date), so a dismissal only lasts
+// until there's something new to look at.
+
+import { format } from 'date-fns';
+import { AppSettings, Goal, GoalAlertState, GoalProgress, Session } from '../types';
+import { formatDate } from '../utils/helpers';
+import { buildGoalProgress, fitSlope, MIN_TREND_TRIALS, STABLE_SLOPE } from './analytics';
+import { getGoalRollup } from './goalHierarchy';
+import { evaluateMastery, getMasteryCriteria } from './mastery';
+import { isDeleted } from './trash';
+
+export type GoalAlertKind = 'plateau' | 'regression' | 'overdue';
+
+export interface GoalAlert {
+  id: string;
+  basis: string;
+  kind: GoalAlertKind;
+  goalId: string;
+  clientId: string;
+  severity: 'warning' | 'error';
+  reason: string;
+  suggestion: string;
+}
+
+// Sessions in a row within this many points of each other, under target
+export const PLATEAU_SESSIONS = 6;
+export const PLATEAU_RANGE = 10;
+
+// Sessions in a row this many points under target, once mastered
+export const REGRESSION_SESSIONS = 3;
+export const REGRESSION_DROP = 15;
+
+// Points under target that make a goal past its target date overdue
+export const OVERDUE_GAP = 20;
+
+interface RuleContext {
+  goal: Goal;
+  clientGoals: Goal[];
+  sessions: Session[]; // the goal's
+  progress: GoalProgress;
+  settings: AppSettings;
+  today: string; // yyyy-MM-dd
+}
+
+type AlertRule = (
+  context: RuleContext
+) => Pick<GoalAlert, 'basis' | 'severity' | 'reason' | 'suggestion'> | null;
+
+// Sessions with enough trials to judge by, oldest first
+const countedSessions = (progress: GoalProgress) =>
+  progress.sessions.filter((session) => session.trialCount >= MIN_TREND_TRIALS);
+
+// Raised again once another session is recorded
+const sessionsBasis = (progress: GoalProgress) =>
+  `${progress.sessions.length}:${progress.sessions[progress.sessions.length - 1]?.date ?? ''}`;
+
+const ALERT_RULES: Record<GoalAlertKind, AlertRule> = {
+  plateau: ({ goal, progress }) => {
+    if (goal.status !== 'active') return null;
+    const recent = countedSessions(progress).slice(-PLATEAU_SESSIONS);
+    if (recent.length < PLATEAU_SESSIONS) return null;
+
+    const accuracies = recent.map((session) => session.accuracy);
+    const low = Math.min(...accuracies);
+    const high = Math.max(...accuracies);
+    if (
+      high >= goal.targetAccuracy ||
+      high - low > PLATEAU_RANGE ||
+      Math.abs(fitSlope(accuracies)) >= STABLE_SLOPE
+    ) {
+      return null;
+    }
+    return {
+      basis: sessionsBasis(progress),
+      severity: 'warning',
+      reason: `Between ${low}% and ${high}% for the last ${recent.length} sessions (target ${goal.targetAccuracy}%)`,
+      suggestion: 'Consider changing the cueing, materials or steps toward the target.',
+    };
+  },
+
+  regression: ({ goal, sessions, progress, settings }) => {
+    if (goal.status === 'discontinued') return null;
+    const recent = countedSessions(progress).slice(-REGRESSION_SESSIONS);
+    const floor = goal.targetAccuracy - REGRESSION_DROP;
+    if (recent.length < REGRESSION_SESSIONS || recent.some((session) => session.accuracy > floor)) {
+      return null;
+    }
+
+    // Mastered before the drop began, by its own sessions or the clinician's say-so
+    const before = sessions.filter((session) => session.date < recent[0].date);
+    const wasMastered =
+      goal.status === 'achieved' ||
+      evaluateMastery(goal, before, getMasteryCriteria(goal, settings.defaultMastery)).isMet;
+    if (!wasMastered) return null;
+
+    return {
+      basis: sessionsBasis(progress),
+      severity: 'error',
+      reason: `Mastered, then ${recent.map((session) => `${session.accuracy}%`).join(', ')} in the last ${recent.length} sessions (target ${goal.targetAccuracy}%)`,
+      suggestion:
+        goal.status === 'achieved'
+          ? 'Consider reopening the goal for maintenance work.'
+          : 'Review what has changed since it was mastered.',
+    };
+  },
+
+  overdue: ({ goal, clientGoals, today }) => {
+    if (goal.status !== 'active' || !goal.targetDate) return null;
+    const targetDay = goal.targetDate.slice(0, 10);
+    if (targetDay >= today) return null;
+
+    const { accuracy } = getGoalRollup(goal, clientGoals);
+    if (accuracy > goal.targetAccuracy - OVERDUE_GAP) return null;
+    return {
+      basis: targetDay,
+      severity: 'error',
+      reason: `Due ${formatDate(goal.targetDate)}, and at ${accuracy}% (target ${goal.targetAccuracy}%)`,
+      suggestion: 'Revise the goal or set a new target date.',
+    };
+  },
+};
+
+const SEVERITY_ORDER: Record<GoalAlert['severity'], number> = { error: 0, warning: 1 };
+
+// Every alert raised for the goals, most severe first
+export const findGoalAlerts = (
+  goals: Goal[],
+  sessions: Session[],
+  settings: AppSettings,
+  now: Date = new Date()
+): GoalAlert[] => {
+  const today = format(now, 'yyyy-MM-dd');
+  const liveGoals = goals.filter((goal) => !isDeleted(goal));
+  const liveSessions = sessions.filter((session) => !isDeleted(session));
+
+  return liveGoals
+    .flatMap((goal) => {
+      const goalSessions = liveSessions.filter((session) => session.goals.includes(goal.id));
+      const context: RuleContext = {
+        goal,
+        clientGoals: liveGoals.filter((other) => other.clientId === goal.clientId),
+        sessions: goalSessions,
+        progress: buildGoalProgress(goal, goalSessions, settings.trendWindow),
+        settings,
+        today,
+      };
+      return (Object.keys(ALERT_RULES) as GoalAlertKind[]).flatMap((kind): GoalAlert[] => {
+        const raised = ALERT_RULES[kind](context);
+        if (!raised) return [];
+        return [
+          { id: `${kind}:${goal.id}`, kind, goalId: goal.id, clientId: goal.clientId, ...raised },
+        ];
+      });
+    })
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+};
+
+export const isAlertVisible = (
+  alert: GoalAlert,
+  state: GoalAlertState | undefined,
+  now: Date = new Date()
+): boolean =>
+  !state ||
+  (state.dismissedBasis !== alert.basis &&
+    !(state.snoozedUntil && new Date(state.snoozedUntil) > now));
+
+export const getAlertTitle = (kind: GoalAlertKind): string => {
+  const titles: Record<GoalAlertKind, string> = {
+    plateau: 'Plateau',
+    regression: 'Regression',
+    overdue: 'Overdue',
+  };
+  return titles[kind];
+};
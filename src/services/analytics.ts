@@ -0,0 +1,96 @@
+// Goal progress over time, and which way each goal is heading
+//
+// A goal's trend is the slope of a least-squares line through the accuracy
+// of its most recent sessions, in percentage points per session. Sessions
+// with only a handful of trials are too noisy to count toward it, and a
+// goal needs a few counted sessions before it has a trend at all; until
+// then slope and trend are left unset rather than guessed.
+
+import { Goal, GoalProgress, GoalTrend, Session } from '../types';
+import { calculateSessionStats } from '../utils/helpers';
+import { isDeleted } from './trash';
+
+export const MIN_TREND_SESSIONS = 3;
+export const MIN_TREND_TRIALS = 5;
+
+// Slopes within this many points per session either way are stable
+export const STABLE_SLOPE = 2;
+
+// Oldest first; sessions on the same date in the order they were made
+const oldestFirst = (a: Session, b: Session) =>
+  a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+// Slope of the least-squares line through evenly spaced values
+export const fitSlope = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const meanX = (values.length - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / values.length;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, x) => {
+    covariance += (x - meanX) * (value - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  return covariance / variance;
+};
+
+export const classifyTrend = (slope: number): GoalTrend =>
+  slope >= STABLE_SLOPE ? 'improving' : slope <= -STABLE_SLOPE ? 'declining' : 'stable';
+
+// A goal's sessions with trials for it, oldest first, and its trend over
+// the last `window` of them that have enough trials
+export const buildGoalProgress = (
+  goal: Goal,
+  sessions: Session[],
+  window: number
+): GoalProgress => {
+  const history = sessions
+    .filter((session) => !isDeleted(session) && session.goals.includes(goal.id))
+    .sort(oldestFirst)
+    .map((session) => ({
+      date: session.date,
+      trials: session.trials.filter((trial) => trial.goalId === goal.id),
+    }))
+    .filter(({ trials }) => trials.length > 0);
+
+  const progress: GoalProgress = {
+    goalId: goal.id,
+    goalName: goal.name,
+    sessions: history.map(({ date, trials }) => ({
+      date,
+      accuracy: calculateSessionStats(trials).accuracy,
+      trialCount: trials.length,
+    })),
+    overallAccuracy: calculateSessionStats(history.flatMap(({ trials }) => trials)).accuracy,
+  };
+
+  const counted = progress.sessions
+    .filter((session) => session.trialCount >= MIN_TREND_TRIALS)
+    .slice(-window);
+  if (counted.length < MIN_TREND_SESSIONS) return progress;
+
+  const slope = Math.round(fitSlope(counted.map((session) => session.accuracy)) * 10) / 10;
+  return { ...progress, slope, trend: classifyTrend(slope) };
+};
+
+export const buildProgressByGoal = (
+  goals: Goal[],
+  sessions: Session[],
+  window: number
+): Record<string, GoalProgress> =>
+  Object.fromEntries(
+    goals.map((goal) => [goal.id, buildGoalProgress(goal, sessions, window)])
+  );
+
+// e.g. "+3.5 points per session over the last 8 sessions"
+export const describeTrend = (progress: GoalProgress, window: number): string => {
+  if (progress.slope === undefined) {
+    return `Needs ${MIN_TREND_SESSIONS} sessions of ${MIN_TREND_TRIALS}+ trials to show a trend`;
+  }
+  const counted = Math.min(
+    window,
+    progress.sessions.filter((session) => session.trialCount >= MIN_TREND_TRIALS).length
+  );
+  const sign = progress.slope > 0 ? '+' : '';
+  return `${sign}${progress.slope} points per session over the last ${counted} sessions`;
+};
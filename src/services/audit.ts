@@ -0,0 +1,121 @@
+// Audit log of changes to stored records
+//
+// Every committed change to a client, goal, session or the settings adds an
+// entry with a field-level before/after diff. Entries are only ever appended,
+// and clearing all data keeps them, so the field values in a record's history
+// outlive the record.
+
+import { format, parseISO } from 'date-fns';
+import {
+  Client,
+  Goal,
+  Session,
+  AppSettings,
+  AuditAction,
+  AuditEntityType,
+  AuditEntry,
+  AuditFieldChange,
+  AuditSource,
+} from '../types';
+import { generateId } from '../utils/helpers';
+
+type AuditedRecord = Client | Goal | Session | AppSettings;
+
+// Where and on which device a committed change was made
+export interface AuditOrigin {
+  source: AuditSource;
+  deviceId: string;
+}
+
+// Bookkeeping fields. Moving to and from the trash is recorded as the
+// entry's action rather than as field changes.
+const IGNORED_FIELDS = new Set(['id', 'updatedAt', 'deletedAt', 'deletionGroupId']);
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+export const diffFields = (
+  before: AuditedRecord | null,
+  after: AuditedRecord | null
+): AuditFieldChange[] => {
+  const beforeFields: { [field: string]: unknown } = { ...before };
+  const afterFields: { [field: string]: unknown } = { ...after };
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+
+  const changes: AuditFieldChange[] = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const change: AuditFieldChange = { field };
+    if (field in beforeFields) change.before = beforeFields[field];
+    if (field in afterFields) change.after = afterFields[field];
+    if (!isSame(change.before, change.after)) changes.push(change);
+  });
+  return changes;
+};
+
+const getAction = (before: AuditedRecord | null, after: AuditedRecord | null): AuditAction => {
+  if (!before) return 'create';
+  if (!after) return 'purge';
+  const wasDeleted = 'deletedAt' in before && !!before.deletedAt;
+  const isDeleted = 'deletedAt' in after && !!after.deletedAt;
+  if (!wasDeleted && isDeleted) return 'delete';
+  if (wasDeleted && !isDeleted) return 'restore';
+  return 'update';
+};
+
+export const getRecordLabel = (entityType: AuditEntityType, record: AuditedRecord): string => {
+  switch (entityType) {
+    case 'client': {
+      const client = record as Client;
+      return `${client.firstName} ${client.lastName}`.trim();
+    }
+    case 'goal':
+      return (record as Goal).name;
+    case 'session':
+      return `Session on ${format(parseISO((record as Session).date), 'MMM d, yyyy')}`;
+    case 'settings':
+      return 'Settings';
+  }
+};
+
+const getClientId = (entityType: AuditEntityType, record: AuditedRecord): string | undefined => {
+  if (entityType === 'client') return (record as Client).id;
+  if (entityType === 'settings') return undefined;
+  return (record as Goal | Session).clientId;
+};
+
+// The entry for one committed change, or null if nothing worth recording
+// changed (a record saved again as it was)
+export const createAuditEntry = (
+  entityType: AuditEntityType,
+  entityId: string,
+  before: AuditedRecord | null,
+  after: AuditedRecord | null,
+  timestamp: string,
+  origin: AuditOrigin
+): AuditEntry | null => {
+  const record = after ?? before;
+  if (!record) return null;
+
+  const action = getAction(before, after);
+  // A purge entry records no field values of its own. The record's earlier
+  // entries still hold the values it was created and edited with, and its
+  // label: the log is append-only, so purging doesn't remove them.
+  const changes = action === 'purge' ? [] : diffFields(before, after);
+  if (action === 'update' && changes.length === 0) return null;
+
+  return {
+    id: generateId(),
+    timestamp,
+    action,
+    entityType,
+    entityId,
+    clientId: getClientId(entityType, record),
+    label: getRecordLabel(entityType, record),
+    changes,
+    ...origin,
+  };
+};
+
+// Entries touching one client (the client itself and its goals and sessions)
+export const filterAuditLog = (entries: AuditEntry[], clientId?: string): AuditEntry[] =>
+  clientId ? entries.filter((entry) => entry.clientId === clientId) : entries;
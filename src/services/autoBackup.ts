@@ -0,0 +1,164 @@
+// Automatic backups
+//
+// A backup is written on the schedule in settings (daily or weekly) and after
+// every few new sessions, to the folder from backupFolder.ts. Only the newest
+// settings.autoBackupKeep are kept.
+//
+// Each file is a normal encrypted export, so it also imports through Settings
+// like any other backup. The passphrase is kept in storage (BackupStorage):
+// random at first, or one the user sets, and shown in Settings so a backup
+// can be opened on another device. File names carry the date and record
+// counts, so backups can be listed without decrypting them.
+
+import { AppSettings, Client, Session } from '../types';
+import { ImportPreview } from './backup';
+import { isDeleted } from './trash';
+import {
+  BackupStorage,
+  ClientStorage,
+  GoalStorage,
+  SessionStorage,
+  exportAllData,
+  importData,
+} from './storage';
+import { EncryptionKey } from './encryption';
+
+export interface BackupFolder {
+  location: string; // shown in Settings
+  list: () => Promise<string[]>; // file names
+  read: (name: string) => Promise<string>;
+  write: (name: string, content: string) => Promise<void>;
+  remove: (name: string) => Promise<void>;
+}
+
+export interface BackupSnapshot {
+  fileName: string;
+  createdAt: string; // ISO time, to the second
+  clients: number;
+  goals: number;
+  sessions: number;
+}
+
+const FILE_PREFIX = 'speech-therapy-auto-';
+const FILE_PATTERN =
+  /^speech-therapy-auto-(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})Z_(\d+)c-(\d+)g-(\d+)s\.json$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_DAYS: Record<Exclude<AppSettings['autoBackupFrequency'], 'off'>, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+// e.g. speech-therapy-auto-2025-03-02T15-04-05Z_12c-30g-140s.json
+export const getSnapshotFileName = (snapshot: Omit<BackupSnapshot, 'fileName'>): string => {
+  const time = snapshot.createdAt.slice(0, 19).replace(/:/g, '-');
+  const counts = `${snapshot.clients}c-${snapshot.goals}g-${snapshot.sessions}s`;
+  return `${FILE_PREFIX}${time}Z_${counts}.json`;
+};
+
+// Returns null for files that aren't automatic backups
+export const parseSnapshotFileName = (fileName: string): BackupSnapshot | null => {
+  const match = FILE_PATTERN.exec(fileName);
+  if (!match) return null;
+  const [, date, hours, minutes, seconds, clients, goals, sessions] = match;
+  return {
+    fileName,
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.000Z`,
+    clients: Number(clients),
+    goals: Number(goals),
+    sessions: Number(sessions),
+  };
+};
+
+// Newest first
+export const listSnapshots = async (folder: BackupFolder): Promise<BackupSnapshot[]> => {
+  const snapshots = (await folder.list())
+    .map(parseSnapshotFileName)
+    .filter((snapshot): snapshot is BackupSnapshot => snapshot !== null);
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Whether a backup is due, given the newest one and the records not in the
+// trash. With nothing stored there is nothing to protect, and skipping it
+// keeps a fresh start from rotating out the backups worth restoring.
+export const isBackupDue = (
+  settings: AppSettings,
+  latest: BackupSnapshot | null,
+  records: { clients: Client[]; sessions: Session[] },
+  now: Date = new Date()
+): boolean => {
+  if (records.clients.length === 0 && records.sessions.length === 0) return false;
+
+  if (settings.autoBackupFrequency !== 'off') {
+    if (!latest) return true;
+    const elapsed = now.getTime() - new Date(latest.createdAt).getTime();
+    if (elapsed >= FREQUENCY_DAYS[settings.autoBackupFrequency] * DAY_MS) return true;
+  }
+
+  if (settings.autoBackupSessionInterval > 0) {
+    const newSessions = latest
+      ? records.sessions.filter((session) => session.createdAt > latest.createdAt).length
+      : records.sessions.length;
+    if (newSessions >= settings.autoBackupSessionInterval) return true;
+  }
+
+  return false;
+};
+
+// Write a backup of everything stored, then remove the oldest beyond keep.
+// Reading while locked would back up nothing, so that's refused.
+export const createSnapshot = async (
+  folder: BackupFolder,
+  keep: number
+): Promise<BackupSnapshot> => {
+  if (!EncryptionKey.get()) {
+    throw new Error('Storage is locked');
+  }
+
+  const [clients, goals, sessions] = await Promise.all([
+    ClientStorage.getAll(),
+    GoalStorage.getAll(),
+    SessionStorage.getAll(),
+  ]);
+  const passphrase = await BackupStorage.getPassphrase();
+  const content = await exportAllData(passphrase);
+
+  const details = {
+    createdAt: new Date().toISOString(),
+    clients: clients.filter((client) => !isDeleted(client)).length,
+    goals: goals.filter((goal) => !isDeleted(goal)).length,
+    sessions: sessions.filter((session) => !isDeleted(session)).length,
+  };
+  const snapshot: BackupSnapshot = { fileName: getSnapshotFileName(details), ...details };
+  await folder.write(snapshot.fileName, content);
+
+  const outdated = (await listSnapshots(folder)).slice(Math.max(keep, 1));
+  for (const old of outdated) {
+    await folder.remove(old.fileName);
+  }
+
+  return snapshot;
+};
+
+// Back up if one is due. Returns the new backup, or null if none was needed.
+export const runScheduledBackup = async (
+  folder: BackupFolder,
+  settings: AppSettings,
+  records: { clients: Client[]; sessions: Session[] }
+): Promise<BackupSnapshot | null> => {
+  const [latest] = await listSnapshots(folder);
+  if (!isBackupDue(settings, latest ?? null, records)) return null;
+  return createSnapshot(folder, settings.autoBackupKeep);
+};
+
+// Replace all data with a backup's. Returns null if it couldn't be read,
+// for example when it was made by another installation of the app.
+export const restoreSnapshot = async (
+  folder: BackupFolder,
+  snapshot: BackupSnapshot
+): Promise<ImportPreview | null> => {
+  const content = await folder.read(snapshot.fileName);
+  const passphrase = await BackupStorage.getPassphrase();
+  return importData(content, 'replace', passphrase);
+};
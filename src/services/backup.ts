@@ -0,0 +1,179 @@
+// Backup parsing and merge logic
+
+import { AppSettings, Client, Goal, Session, AuditEntry } from '../types';
+import { CURRENT_SCHEMA_VERSION, StoredData, applyMigrations } from './migrations';
+import {
+  ValidationIssue,
+  validateBackupStructure,
+  validateBackupData,
+  validateAuditLog,
+  hasErrors,
+  isObject,
+} from './validation';
+
+export type ImportMode = 'replace' | 'merge';
+
+// A backup that parsed cleanly may still carry warnings; one with any
+// error-level issue is rejected. The audit log travels beside the data: it
+// is appended to, never merged or replaced.
+export type ParsedBackup =
+  | {
+      ok: true;
+      data: StoredData;
+      auditLog: AuditEntry[];
+      schemaVersion: number;
+      issues: ValidationIssue[];
+    }
+  | { ok: false; issues: ValidationIssue[] };
+
+// Records the structure check has passed. Their fields are only checked
+// once they've been migrated.
+const records = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+const record = <T>(value: unknown): T | null => (isObject(value) ? (value as T) : null);
+
+const fail = (message: string): ParsedBackup => ({
+  ok: false,
+  issues: [{ path: '', message, severity: 'error' }],
+});
+
+// What happened (or would happen) to one collection during a merge.
+// Each list holds record ids.
+export interface CollectionDiff {
+  added: string[];
+  updated: string[];
+  skipped: string[];
+  conflicts: string[];
+}
+
+export interface ImportPreview {
+  clients: CollectionDiff;
+  goals: CollectionDiff;
+  sessions: CollectionDiff;
+  existingCounts: { clients: number; goals: number; sessions: number };
+  incomingCounts: { clients: number; goals: number; sessions: number };
+}
+
+// Parse and validate a backup file, bringing it up to the current schema
+export const parseBackup = (jsonString: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonString);
+  } catch {
+    return fail('is not valid JSON');
+  }
+
+  const structureIssues = validateBackupStructure(raw);
+  if (!isObject(raw) || hasErrors(structureIssues)) {
+    return { ok: false, issues: structureIssues };
+  }
+
+  // Backups from before versioning have no schemaVersion
+  const schemaVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return fail(
+      `was made by a newer version of the app (schema ${schemaVersion}). Update the app to import it.`
+    );
+  }
+
+  const data = applyMigrations(
+    {
+      clients: records<Client>(raw.clients),
+      goals: records<Goal>(raw.goals),
+      sessions: records<Session>(raw.sessions),
+      settings: record<AppSettings>(raw.settings),
+    },
+    schemaVersion,
+    new Date().toISOString()
+  );
+
+  // Backups from before the audit log have none
+  const auditLog = records<AuditEntry>(raw.auditLog);
+
+  const issues = [...validateBackupData(data), ...validateAuditLog(auditLog)];
+  if (hasErrors(issues)) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, data, auditLog, schemaVersion, issues };
+};
+
+const emptyDiff = (): CollectionDiff => ({ added: [], updated: [], skipped: [], conflicts: [] });
+
+// Merge incoming records into existing ones by id, keeping whichever copy
+// was modified last. Records with the same timestamp but different content
+// are reported as conflicts and the local copy is kept.
+const mergeCollection = <T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  getTimestamp: (item: T) => string
+): { merged: T[]; diff: CollectionDiff } => {
+  const diff = emptyDiff();
+  const byId = new Map(existing.map((item) => [item.id, item]));
+
+  incoming.forEach((item) => {
+    const current = byId.get(item.id);
+
+    if (!current) {
+      byId.set(item.id, item);
+      diff.added.push(item.id);
+      return;
+    }
+
+    if (JSON.stringify(current) === JSON.stringify(item)) {
+      diff.skipped.push(item.id);
+      return;
+    }
+
+    const incomingTime = new Date(getTimestamp(item)).getTime() || 0;
+    const currentTime = new Date(getTimestamp(current)).getTime() || 0;
+
+    if (incomingTime > currentTime) {
+      byId.set(item.id, item);
+      diff.updated.push(item.id);
+    } else if (incomingTime < currentTime) {
+      diff.skipped.push(item.id);
+    } else {
+      diff.conflicts.push(item.id);
+    }
+  });
+
+  return { merged: Array.from(byId.values()), diff };
+};
+
+const clientTimestamp = (client: Client) => client.updatedAt || client.createdAt;
+const goalTimestamp = (goal: Goal) => goal.updatedAt || goal.createdAt;
+const sessionTimestamp = (session: Session) => session.createdAt;
+
+// Merge a backup into existing data. Local settings are always kept.
+export const mergeData = (
+  existing: StoredData,
+  incoming: StoredData
+): { data: StoredData; preview: ImportPreview } => {
+  const clients = mergeCollection(existing.clients, incoming.clients, clientTimestamp);
+  const goals = mergeCollection(existing.goals, incoming.goals, goalTimestamp);
+  const sessions = mergeCollection(existing.sessions, incoming.sessions, sessionTimestamp);
+
+  return {
+    data: {
+      clients: clients.merged,
+      goals: goals.merged,
+      sessions: sessions.merged,
+      settings: existing.settings,
+    },
+    preview: {
+      clients: clients.diff,
+      goals: goals.diff,
+      sessions: sessions.diff,
+      existingCounts: {
+        clients: existing.clients.length,
+        goals: existing.goals.length,
+        sessions: existing.sessions.length,
+      },
+      incomingCounts: {
+        clients: incoming.clients.length,
+        goals: incoming.goals.length,
+        sessions: incoming.sessions.length,
+      },
+    },
+  };
+};
@@ -0,0 +1,32 @@
+// The folder automatic backups go to on iOS and Android: backups/ in the
+// app's document directory
+
+import { Directory, File, Paths } from 'expo-file-system';
+import type { BackupFolder } from './autoBackup';
+
+export const canChooseBackupFolder = (): boolean => false;
+
+export const chooseBackupFolder = async (): Promise<string | null> => null;
+
+export const openBackupFolder = async (_customPath: string): Promise<BackupFolder | null> => {
+  const directory = new Directory(Paths.document, 'backups');
+  if (!directory.exists) {
+    directory.create({ intermediates: true });
+  }
+
+  return {
+    location: directory.uri,
+    list: async () =>
+      directory
+        .list()
+        .filter((entry): entry is File => entry instanceof File)
+        .map((file) => file.name),
+    read: (name) => new File(directory, name).text(),
+    write: async (name, content) => {
+      const file = new File(directory, name);
+      file.create({ overwrite: true });
+      file.write(content);
+    },
+    remove: async (name) => new File(directory, name).delete(),
+  };
+};
@@ -0,0 +1,38 @@
+// The folder automatic backups go to, on web builds: only inside the desktop
+// app, through the Tauri file system plugin, in the app's data folder or one
+// the user picks. A plain browser has nowhere to keep files, so it gets null.
+//
+// Native builds load backupFolder.native.ts in place of this file.
+
+import { isTauri } from '@tauri-apps/api/core';
+import { appDataDir, join } from '@tauri-apps/api/path';
+import { exists, mkdir, readDir, readTextFile, remove, writeTextFile } from '@tauri-apps/plugin-fs';
+import { open } from '@tauri-apps/plugin-dialog';
+import type { BackupFolder } from './autoBackup';
+
+export const canChooseBackupFolder = (): boolean => isTauri();
+
+// Returns null if the user cancels
+export const chooseBackupFolder = async (): Promise<string | null> => {
+  if (!isTauri()) return null;
+  const folder = await open({ directory: true, title: 'Choose a Backup Folder' });
+  return typeof folder === 'string' ? folder : null;
+};
+
+export const openBackupFolder = async (customPath: string): Promise<BackupFolder | null> => {
+  if (!isTauri()) return null;
+
+  const path = customPath || (await join(await appDataDir(), 'backups'));
+  if (!(await exists(path))) {
+    await mkdir(path, { recursive: true });
+  }
+
+  return {
+    location: path,
+    list: async () =>
+      (await readDir(path)).filter((entry) => entry.isFile).map((entry) => entry.name),
+    read: async (name) => readTextFile(await join(path, name)),
+    write: async (name, content) => writeTextFile(await join(path, name), content),
+    remove: async (name) => remove(await join(path, name)),
+  };
+};
@@ -0,0 +1,132 @@
+// Client bundles: one or more clients with their goals and sessions, for
+// handing a caseload over to another therapist or clinic
+//
+// A bundle has the same layout as a backup, without settings or the audit
+// log, plus a format marker. Importing one only ever adds records: ids
+// already in use are replaced with new ones, so nothing stored is changed.
+
+import { Client, Goal, Session } from '../types';
+import { generateId } from '../utils/helpers';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { parseBackup } from './backup';
+import { isDeleted } from './trash';
+import { ValidationIssue } from './validation';
+
+const BUNDLE_FORMAT = 'speech-therapy-pro-client-bundle';
+
+export interface BundleRecords {
+  clients: Client[];
+  goals: Goal[];
+  sessions: Session[];
+}
+
+export interface ClientBundle extends BundleRecords {
+  format: typeof BUNDLE_FORMAT;
+  exportDate: string;
+  schemaVersion: number;
+}
+
+export type ParsedClientBundle =
+  | { ok: true; records: BundleRecords; issues: ValidationIssue[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface BundleImportResult {
+  clients: number;
+  goals: number;
+  sessions: number;
+  rekeyed: number; // records given a new id because theirs was taken
+}
+
+export const isClientBundle = (jsonString: string): boolean => {
+  try {
+    return JSON.parse(jsonString)?.format === BUNDLE_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+// The chosen clients with their goals and sessions. Records in the trash
+// stay behind.
+export const createClientBundle = (records: BundleRecords, clientIds: string[]): ClientBundle => {
+  const ids = new Set(clientIds);
+  const isIncluded = (record: Goal | Session) =>
+    ids.has(record.clientId) && !isDeleted(record);
+
+  return {
+    format: BUNDLE_FORMAT,
+    exportDate: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    clients: records.clients.filter((client) => ids.has(client.id) && !isDeleted(client)),
+    goals: records.goals.filter(isIncluded),
+    sessions: records.sessions.filter(isIncluded),
+  };
+};
+
+// Validate a bundle the same way as a backup
+export const parseClientBundle = (jsonString: string): ParsedClientBundle => {
+  if (!isClientBundle(jsonString)) {
+    return {
+      ok: false,
+      issues: [{ path: '', message: 'is not a client export', severity: 'error' }],
+    };
+  }
+
+  const parsed = parseBackup(jsonString);
+  if (!parsed.ok) return parsed;
+
+  const { clients, goals, sessions } = parsed.data;
+  return { ok: true, records: { clients, goals, sessions }, issues: parsed.issues };
+};
+
+// Give records whose ids are taken new ones, and update every reference to
+// them: goals' and sessions' clientId, objectives' parentGoalId, sessions'
+// goal lists, and trials' goalId and sessionId.
+export const rekeyClientBundle = (
+  records: BundleRecords,
+  takenIds: { clients: Set<string>; goals: Set<string>; sessions: Set<string> },
+  createId: () => string = generateId
+): { records: BundleRecords; rekeyed: number } => {
+  const newIds = (items: { id: string }[], taken: Set<string>): Map<string, string> => {
+    const map = new Map<string, string>();
+    items.forEach((item) => {
+      if (!taken.has(item.id)) return;
+      let id = createId();
+      while (taken.has(id)) id = createId();
+      map.set(item.id, id);
+    });
+    return map;
+  };
+
+  const clientIds = newIds(records.clients, takenIds.clients);
+  const goalIds = newIds(records.goals, takenIds.goals);
+  const sessionIds = newIds(records.sessions, takenIds.sessions);
+
+  const rekey = (map: Map<string, string>, id: string) => map.get(id) ?? id;
+
+  return {
+    records: {
+      clients: records.clients.map((client) => ({ ...client, id: rekey(clientIds, client.id) })),
+      goals: records.goals.map((goal) => ({
+        ...goal,
+        id: rekey(goalIds, goal.id),
+        clientId: rekey(clientIds, goal.clientId),
+        ...(goal.parentGoalId && { parentGoalId: rekey(goalIds, goal.parentGoalId) }),
+      })),
+      sessions: records.sessions.map((session) => {
+        const id = rekey(sessionIds, session.id);
+        return {
+          ...session,
+          id,
+          clientId: rekey(clientIds, session.clientId),
+          goals: session.goals.map((goalId) => rekey(goalIds, goalId)),
+          trials: session.trials.map((trial) => ({
+            ...trial,
+            sessionId: id,
+            goalId: rekey(goalIds, trial.goalId),
+          })),
+        };
+      }),
+    },
+    rekeyed: clientIds.size + goalIds.size + sessionIds.size,
+  };
+};
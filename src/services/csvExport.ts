@@ -0,0 +1,167 @@
+// Spreadsheet (CSV) exports: one row per trial, and a summary with one row
+// per goal in each session
+
+import { format, parseISO } from 'date-fns';
+import { Client, Goal, Session, Trial } from '../types';
+import {
+  calculateSessionStats,
+  getCueLevelLabel,
+  getGoalCategoryLabel,
+  getResponseLabel,
+} from '../utils/helpers';
+
+// null means no limit. Dates are YYYY-MM-DD and both ends are included.
+export interface CsvExportFilter {
+  clientIds: string[] | null;
+  goalIds: string[] | null;
+  from: string | null;
+  to: string | null;
+}
+
+export interface CsvExportData {
+  clients: Client[];
+  goals: Goal[];
+  sessions: Session[];
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number): string => {
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text) && Number.isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180, with a byte order mark so Excel reads the file as UTF-8
+export const toCsv = (header: string[], rows: (string | number)[][]): string =>
+  '\uFEFF' + [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+const sessionDay = (session: Session): string => format(parseISO(session.date), 'yyyy-MM-dd');
+
+// Sessions in the filter's clients and dates, oldest first
+const filterSessions = (sessions: Session[], filter: CsvExportFilter): Session[] =>
+  sessions
+    .filter((session) => {
+      if (filter.clientIds && !filter.clientIds.includes(session.clientId)) return false;
+      const day = sessionDay(session);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return true;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+const filterTrials = (trials: Trial[], filter: CsvExportFilter): Trial[] =>
+  filter.goalIds ? trials.filter((trial) => filter.goalIds!.includes(trial.goalId)) : trials;
+
+const createLookups = (data: CsvExportData) => {
+  const clients = new Map(data.clients.map((client) => [client.id, client]));
+  const goals = new Map(data.goals.map((goal) => [goal.id, goal]));
+  return {
+    clientName: (id: string) => {
+      const client = clients.get(id);
+      return client ? `${client.firstName} ${client.lastName}`.trim() : '';
+    },
+    goal: (id: string) => goals.get(id),
+  };
+};
+
+const TRIAL_HEADER = [
+  'Client',
+  'Client ID',
+  'Session Date',
+  'Session ID',
+  'Goal',
+  'Goal ID',
+  'Category',
+  'Prompt',
+  'Response',
+  'Cue Level',
+  'Notes',
+  'Timestamp',
+];
+
+export const buildTrialsCsv = (data: CsvExportData, filter: CsvExportFilter): string => {
+  const lookup = createLookups(data);
+  const rows = filterSessions(data.sessions, filter).flatMap((session) =>
+    filterTrials(session.trials, filter).map((trial) => {
+      const goal = lookup.goal(trial.goalId);
+      return [
+        lookup.clientName(session.clientId),
+        session.clientId,
+        sessionDay(session),
+        session.id,
+        goal?.name ?? '',
+        trial.goalId,
+        goal ? getGoalCategoryLabel(goal.category) : '',
+        trial.prompt,
+        getResponseLabel(trial.response),
+        getCueLevelLabel(trial.cueLevel),
+        trial.notes ?? '',
+        trial.timestamp,
+      ];
+    })
+  );
+  return toCsv(TRIAL_HEADER, rows);
+};
+
+const SUMMARY_HEADER = [
+  'Client',
+  'Client ID',
+  'Session Date',
+  'Session ID',
+  'Goal',
+  'Goal ID',
+  'Category',
+  'Trials',
+  'Correct',
+  'Incorrect',
+  'Approximation',
+  'No Response',
+  'Accuracy (%)',
+];
+
+// Accuracy as calculateSessionStats works it out, for each goal with trials
+export const buildSummaryCsv = (data: CsvExportData, filter: CsvExportFilter): string => {
+  const lookup = createLookups(data);
+  const rows = filterSessions(data.sessions, filter).flatMap((session) => {
+    const byGoal = new Map<string, Trial[]>();
+    filterTrials(session.trials, filter).forEach((trial) => {
+      byGoal.set(trial.goalId, [...(byGoal.get(trial.goalId) || []), trial]);
+    });
+
+    return Array.from(byGoal, ([goalId, trials]) => {
+      const goal = lookup.goal(goalId);
+      const stats = calculateSessionStats(trials);
+      return [
+        lookup.clientName(session.clientId),
+        session.clientId,
+        sessionDay(session),
+        session.id,
+        goal?.name ?? '',
+        goalId,
+        goal ? getGoalCategoryLabel(goal.category) : '',
+        stats.totalTrials,
+        stats.correctTrials,
+        stats.incorrectTrials,
+        stats.approximationTrials,
+        stats.noResponseTrials,
+        stats.accuracy,
+      ];
+    });
+  });
+  return toCsv(SUMMARY_HEADER, rows);
+};
+
+// How many trials and sessions an export would hold, for the screen to show
+export const countExportRows = (
+  data: CsvExportData,
+  filter: CsvExportFilter
+): { sessions: number; trials: number } => {
+  const sessions = filterSessions(data.sessions, filter)
+    .map((session) => filterTrials(session.trials, filter).length)
+    .filter((trials) => trials > 0);
+  return { sessions: sessions.length, trials: sessions.reduce((sum, trials) => sum + trials, 0) };
+};
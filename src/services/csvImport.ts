@@ -0,0 +1,380 @@
+// Roster import: clients from a spreadsheet (CSV), and optionally their goals
+// from a second one
+//
+// Columns are matched to fields by a mapping the user can adjust, starting
+// from a guess based on the header row. Each row is checked the way the add
+// client and add goal forms check their fields, and rows that look like
+// clients already stored (or earlier rows) are flagged as likely duplicates.
+
+import { Client, Goal, GoalCategory } from '../types';
+import {
+  formatDateForStorage,
+  generateId,
+  getGoalCategoryLabel,
+  isValidDateInput,
+} from '../utils/helpers';
+
+export interface CsvTable {
+  header: string[];
+  rows: string[][];
+}
+
+// The column index for each field; fields without one are left empty
+export type ColumnMapping<F extends string> = Partial<Record<F, number>>;
+
+export type ClientField = 'fullName' | 'firstName' | 'lastName' | 'dateOfBirth' | 'diagnosis' | 'notes';
+
+export type GoalField =
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'targetAccuracy'
+  | 'targetDate';
+
+export interface RosterRow {
+  rowNumber: number; // spreadsheet row, the header being row 1
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string; // YYYY-MM-DD, or '' if not given or invalid
+  diagnosis: string;
+  notes: string;
+  errors: string[];
+  duplicate: { kind: 'client'; clientId: string; name: string } | { kind: 'row'; rowNumber: number } | null;
+}
+
+export interface GoalRow {
+  rowNumber: number;
+  clientName: string;
+  name: string;
+  description: string;
+  category: GoalCategory;
+  targetAccuracy: number;
+  targetDate: string;
+  errors: string[];
+  // Who the goal is for: a roster row being imported, or a stored client
+  target: { kind: 'row'; rowNumber: number } | { kind: 'client'; clientId: string } | null;
+}
+
+// RFC 4180: quoted fields may hold commas, quotes ("") and line breaks
+export const parseCsv = (text: string): CsvTable => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) endRecord();
+
+  const [header = [], ...rows] = records;
+  return { header: header.map((title) => title.trim()), rows };
+};
+
+const normalizeHeader = (title: string): string => title.toLowerCase().replace(/[^a-z]/g, '');
+
+// Header words that suggest each field, tried in order
+const CLIENT_HEADER_HINTS: [ClientField, RegExp][] = [
+  ['firstName', /^(first|given|fname|forename)/],
+  ['lastName', /^(last|surname|family|lname)/],
+  ['dateOfBirth', /(birth|^dob$)/],
+  ['diagnosis', /(diagnos|disabilit|eligibility)/],
+  ['notes', /(note|comment)/],
+  ['fullName', /^(name|fullname|student|studentname|client|clientname|childname)$/],
+];
+
+const GOAL_HEADER_HINTS: [GoalField, RegExp][] = [
+  ['firstName', /^(first|given|fname|forename)/],
+  ['lastName', /^(last|surname|family|lname)/],
+  ['fullName', /^(student|studentname|client|clientname|childname|fullname)$/],
+  ['name', /^(goal|goalname|name|title)$/],
+  ['description', /(description|objective|detail)/],
+  ['category', /(category|area|domain)/],
+  ['targetAccuracy', /(accuracy|criteri|target$|mastery)/],
+  ['targetDate', /(targetdate|due|enddate|bydate)/],
+];
+
+const guessMapping = <F extends string>(header: string[], hints: [F, RegExp][]): ColumnMapping<F> => {
+  const mapping: ColumnMapping<F> = {};
+  const used = new Set<number>();
+  hints.forEach(([field, pattern]) => {
+    const index = header.findIndex(
+      (title, column) => !used.has(column) && pattern.test(normalizeHeader(title))
+    );
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+  return mapping;
+};
+
+export const guessClientMapping = (header: string[]): ColumnMapping<ClientField> =>
+  guessMapping(header, CLIENT_HEADER_HINTS);
+
+export const guessGoalMapping = (header: string[]): ColumnMapping<GoalField> =>
+  guessMapping(header, GOAL_HEADER_HINTS);
+
+const isBlankRow = (row: string[]): boolean => row.every((value) => value.trim() === '');
+
+const readCell = <F extends string>(row: string[], mapping: ColumnMapping<F>, field: F): string => {
+  const column = mapping[field];
+  return column === undefined ? '' : (row[column] ?? '').trim();
+};
+
+// "Last, First" or "First Middle Last"
+const splitFullName = (fullName: string): { firstName: string; lastName: string } => {
+  if (fullName.includes(',')) {
+    const [lastName, ...rest] = fullName.split(',');
+    return { firstName: rest.join(',').trim(), lastName: lastName.trim() };
+  }
+  const parts = fullName.split(/\s+/).filter(Boolean);
+  if (parts.length < 2) return { firstName: parts[0] ?? '', lastName: '' };
+  return { firstName: parts.slice(0, -1).join(' '), lastName: parts[parts.length - 1] };
+};
+
+const readName = <F extends 'fullName' | 'firstName' | 'lastName'>(
+  row: string[],
+  mapping: ColumnMapping<F>
+): { firstName: string; lastName: string } => {
+  const firstName = readCell(row, mapping, 'firstName' as F);
+  const lastName = readCell(row, mapping, 'lastName' as F);
+  if (firstName || lastName) return { firstName, lastName };
+  return splitFullName(readCell(row, mapping, 'fullName' as F));
+};
+
+const nameKey = (firstName: string, lastName: string): string =>
+  `${firstName} ${lastName}`.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// The same name, and the same date of birth unless one of them has none
+const isLikelySame = (
+  a: { firstName: string; lastName: string; dateOfBirth: string },
+  b: { firstName: string; lastName: string; dateOfBirth: string }
+): boolean =>
+  nameKey(a.firstName, a.lastName) === nameKey(b.firstName, b.lastName) &&
+  (!a.dateOfBirth || !b.dateOfBirth || a.dateOfBirth === b.dateOfBirth);
+
+export const buildRosterRows = (
+  table: CsvTable,
+  mapping: ColumnMapping<ClientField>,
+  existingClients: Client[]
+): RosterRow[] => {
+  const rows: RosterRow[] = [];
+
+  table.rows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+    const { firstName, lastName } = readName(row, mapping);
+    const dateInput = readCell(row, mapping, 'dateOfBirth');
+    const errors: string[] = [];
+
+    if (!firstName) {
+      errors.push('First name is required');
+    }
+    if (dateInput && !isValidDateInput(dateInput)) {
+      errors.push(`Date of birth "${dateInput}" is not MM/DD/YYYY or YYYY-MM-DD`);
+    }
+
+    const draft = {
+      firstName,
+      lastName,
+      dateOfBirth: dateInput && isValidDateInput(dateInput) ? formatDateForStorage(dateInput) : '',
+    };
+    const existing = existingClients.find((client) => isLikelySame(client, draft));
+    const earlier = rows.find((other) => other.errors.length === 0 && isLikelySame(other, draft));
+
+    rows.push({
+      rowNumber: index + 2,
+      ...draft,
+      diagnosis: readCell(row, mapping, 'diagnosis'),
+      notes: readCell(row, mapping, 'notes'),
+      errors,
+      duplicate: existing
+        ? {
+            kind: 'client',
+            clientId: existing.id,
+            name: `${existing.firstName} ${existing.lastName}`.trim(),
+          }
+        : earlier
+          ? { kind: 'row', rowNumber: earlier.rowNumber }
+          : null,
+    });
+  });
+
+  return rows;
+};
+
+const parseCategory = (value: string): GoalCategory | null => {
+  if (!value) return 'other';
+  const normalized = value.toLowerCase().trim();
+  return (
+    GOAL_CATEGORIES.find(
+      (category) =>
+        category === normalized || getGoalCategoryLabel(category).toLowerCase() === normalized
+    ) ?? null
+  );
+};
+
+const GOAL_CATEGORIES: GoalCategory[] = [
+  'articulation',
+  'language',
+  'fluency',
+  'voice',
+  'pragmatics',
+  'phonology',
+  'other',
+];
+
+// Goals are matched to clients by name: first the roster rows being
+// imported, then the clients already stored
+export const buildGoalRows = (
+  table: CsvTable,
+  mapping: ColumnMapping<GoalField>,
+  importedRows: RosterRow[],
+  existingClients: Client[],
+  defaultTargetAccuracy: number
+): GoalRow[] =>
+  table.rows.flatMap((row, index) => {
+    if (isBlankRow(row)) return [];
+    const { firstName, lastName } = readName(row, mapping);
+    const key = nameKey(firstName, lastName);
+    const name = readCell(row, mapping, 'name');
+    const categoryInput = readCell(row, mapping, 'category');
+    const accuracyInput = readCell(row, mapping, 'targetAccuracy').replace(/%$/, '');
+    const dateInput = readCell(row, mapping, 'targetDate');
+    const errors: string[] = [];
+
+    let target: GoalRow['target'] = null;
+    const rosterMatch = importedRows.find((other) => nameKey(other.firstName, other.lastName) === key);
+    const clientMatches = existingClients.filter(
+      (client) => nameKey(client.firstName, client.lastName) === key
+    );
+    if (!key) {
+      errors.push('Client name is required');
+    } else if (rosterMatch) {
+      target = { kind: 'row', rowNumber: rosterMatch.rowNumber };
+    } else if (clientMatches.length === 1) {
+      target = { kind: 'client', clientId: clientMatches[0].id };
+    } else if (clientMatches.length > 1) {
+      errors.push(`More than one client is named ${firstName} ${lastName}`.trim());
+    } else {
+      errors.push(`No client named ${firstName} ${lastName} is being imported or stored`.trim());
+    }
+
+    if (!name) {
+      errors.push('Goal name is required');
+    }
+
+    const category = parseCategory(categoryInput);
+    if (!category) {
+      errors.push(
+        `Category "${categoryInput}" is not one of ${GOAL_CATEGORIES.map(getGoalCategoryLabel).join(', ')}`
+      );
+    }
+
+    const targetAccuracy = accuracyInput ? Number(accuracyInput) : defaultTargetAccuracy;
+    if (!Number.isInteger(targetAccuracy) || targetAccuracy < 1 || targetAccuracy > 100) {
+      errors.push(`Target accuracy "${accuracyInput}" is not a whole number from 1 to 100`);
+    }
+
+    if (dateInput && !isValidDateInput(dateInput)) {
+      errors.push(`Target date "${dateInput}" is not MM/DD/YYYY or YYYY-MM-DD`);
+    }
+
+    return {
+      rowNumber: index + 2,
+      clientName: `${firstName} ${lastName}`.trim(),
+      name,
+      description: readCell(row, mapping, 'description'),
+      category: category ?? 'other',
+      targetAccuracy,
+      targetDate: dateInput && isValidDateInput(dateInput) ? formatDateForStorage(dateInput) : '',
+      errors,
+      target,
+    };
+  });
+
+// Records for the rows without errors. Goals for roster rows that aren't
+// imported are left out.
+export const createRosterRecords = (
+  rosterRows: RosterRow[],
+  goalRows: GoalRow[],
+  createId: () => string = generateId
+): { clients: Client[]; goals: Goal[] } => {
+  const now = new Date().toISOString();
+  const clientIdByRow = new Map<number, string>();
+
+  const clients = rosterRows
+    .filter((row) => row.errors.length === 0)
+    .map((row): Client => {
+      const id = createId();
+      clientIdByRow.set(row.rowNumber, id);
+      return {
+        id,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        dateOfBirth: row.dateOfBirth,
+        diagnosis: row.diagnosis || undefined,
+        notes: row.notes || undefined,
+        createdAt: now,
+        updatedAt: now,
+        isActive: true,
+      };
+    });
+
+  const goals = goalRows.flatMap((row): Goal[] => {
+    if (row.errors.length > 0 || !row.target) return [];
+    const clientId =
+      row.target.kind === 'client' ? row.target.clientId : clientIdByRow.get(row.target.rowNumber);
+    if (!clientId) return [];
+    return [
+      {
+        id: createId(),
+        clientId,
+        name: row.name,
+        description: row.description || row.name,
+        category: row.category,
+        targetAccuracy: row.targetAccuracy,
+        currentAccuracy: 0,
+        ...(row.targetDate && { targetDate: row.targetDate }),
+        status: 'active',
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+  });
+
+  return { clients, goals };
+};
@@ -0,0 +1,289 @@
+// De-identified exports, for supervisors and research programs
+//
+// Clients become pseudonyms, dates of birth become age in months at each
+// session, and every date in a client's records moves by the same number of
+// days, so the time between sessions survives but the real dates don't. Both
+// come from a key kept on this device, so a client has the same pseudonym
+// and shift in every export. Record ids are replaced too, since the app's ids
+// start with the time they were made. Free-text notes are left out unless
+// they were reviewed and included one by one.
+
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { addDays, differenceInMonths, format, isValid, parseISO } from 'date-fns';
+import { Goal, MasteryCriteria, Trial } from '../types';
+import { getCueLevelLabel, getGoalCategoryLabel, getResponseLabel } from '../utils/helpers';
+import { BundleRecords } from './clientBundle';
+import { toCsv } from './csvExport';
+import { isDeleted } from './trash';
+
+const DEIDENTIFIED_FORMAT = 'speech-therapy-pro-deidentified';
+
+// Dates are moved by up to this many days, earlier or later
+const MAX_DAY_SHIFT = 365;
+
+export type NoteKind = 'client' | 'session' | 'trial';
+
+// A note that can be included once someone has read it
+export interface ReviewableNote {
+  key: string;
+  kind: NoteKind;
+  clientId: string;
+  date?: string; // the session's, for session and trial notes
+  text: string;
+}
+
+export interface ClientPseudonym {
+  pseudonym: string;
+  dayShift: number;
+}
+
+export interface DeidentifiedTrial {
+  id: string;
+  goalId: string;
+  prompt: string;
+  response: Trial['response'];
+  cueLevel: Trial['cueLevel'];
+  notes?: string;
+  timestamp: string;
+}
+
+export interface DeidentifiedSession {
+  id: string;
+  clientId: string;
+  date: string;
+  ageMonths: number | null; // null when the date of birth is missing
+  duration: number;
+  notes?: string;
+  goals: string[];
+  trials: DeidentifiedTrial[];
+}
+
+export interface DeidentifiedGoal {
+  id: string;
+  clientId: string;
+  name: string;
+  description: string;
+  category: Goal['category'];
+  parentGoalId?: string;
+  targetAccuracy: number;
+  mastery?: MasteryCriteria;
+  currentAccuracy: number;
+  status: Goal['status'];
+  targetDate?: string;
+  createdAt: string;
+}
+
+export interface DeidentifiedClient {
+  id: string; // the pseudonym
+  diagnosis?: string;
+  notes?: string;
+  isActive: boolean;
+}
+
+export interface DeidentifiedDataset {
+  format: typeof DEIDENTIFIED_FORMAT;
+  exportDate: string;
+  clients: DeidentifiedClient[];
+  goals: DeidentifiedGoal[];
+  sessions: DeidentifiedSession[];
+}
+
+export interface DeidentifyOptions {
+  clientIds: string[];
+  key: string;
+  includedNotes: Set<string>; // keys of reviewed notes to keep
+}
+
+export const noteKey = (kind: NoteKind, id: string): string => `${kind}:${id}`;
+
+// The same client and key always give the same pseudonym and shift
+export const pseudonymize = (key: string, clientId: string): ClientPseudonym => {
+  const digest = hmac(sha256, utf8ToBytes(key), utf8ToBytes(clientId));
+  const days = (((digest[4] << 8) | digest[5]) % MAX_DAY_SHIFT) + 1;
+  return {
+    pseudonym: `P-${bytesToHex(digest.slice(0, 4)).toUpperCase()}`,
+    dayShift: digest[6] & 1 ? days : -days,
+  };
+};
+
+// Dates keep their form: YYYY-MM-DD stays a date, anything else becomes an
+// ISO timestamp
+const shiftDate = (value: string, days: number): string => {
+  const shifted = addDays(parseISO(value), days);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? format(shifted, 'yyyy-MM-dd')
+    : shifted.toISOString();
+};
+
+const ageInMonths = (dateOfBirth: string, date: string): number | null => {
+  const birth = parseISO(dateOfBirth);
+  return dateOfBirth && isValid(birth) ? differenceInMonths(parseISO(date), birth) : null;
+};
+
+const liveRecords = (records: BundleRecords, clientIds: string[]) => {
+  const ids = new Set(clientIds);
+  const clients = records.clients.filter((client) => ids.has(client.id) && !isDeleted(client));
+  const included = new Set(clients.map((client) => client.id));
+  return {
+    clients,
+    goals: records.goals.filter((goal) => included.has(goal.clientId) && !isDeleted(goal)),
+    sessions: records.sessions
+      .filter((session) => included.has(session.clientId) && !isDeleted(session))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+// Every note the export would leave out unless it is reviewed
+export const collectNotes = (records: BundleRecords, clientIds: string[]): ReviewableNote[] => {
+  const { clients, sessions } = liveRecords(records, clientIds);
+  return [
+    ...clients
+      .filter((client) => client.notes?.trim())
+      .map((client) => ({
+        key: noteKey('client', client.id),
+        kind: 'client' as const,
+        clientId: client.id,
+        text: client.notes!,
+      })),
+    ...sessions.flatMap((session) => [
+      ...(session.notes?.trim()
+        ? [
+            {
+              key: noteKey('session', session.id),
+              kind: 'session' as const,
+              clientId: session.clientId,
+              date: session.date,
+              text: session.notes,
+            },
+          ]
+        : []),
+      ...session.trials
+        .filter((trial) => trial.notes?.trim())
+        .map((trial) => ({
+          key: noteKey('trial', trial.id),
+          kind: 'trial' as const,
+          clientId: session.clientId,
+          date: session.date,
+          text: trial.notes!,
+        })),
+    ]),
+  ];
+};
+
+export const createDeidentifiedDataset = (
+  records: BundleRecords,
+  { clientIds, key, includedNotes }: DeidentifyOptions
+): DeidentifiedDataset => {
+  const { clients, goals, sessions } = liveRecords(records, clientIds);
+  const pseudonyms = new Map(clients.map((client) => [client.id, pseudonymize(key, client.id)]));
+  const birthDates = new Map(clients.map((client) => [client.id, client.dateOfBirth]));
+  const keptNote = (kind: NoteKind, id: string, text?: string) =>
+    text?.trim() && includedNotes.has(noteKey(kind, id)) ? { notes: text } : {};
+
+  // New ids, numbered per client
+  const goalIds = new Map<string, string>();
+  const countFor = new Map<string, number>();
+  const nextId = (clientId: string, prefix: string) => {
+    const count = (countFor.get(`${clientId}:${prefix}`) ?? 0) + 1;
+    countFor.set(`${clientId}:${prefix}`, count);
+    return `${pseudonyms.get(clientId)!.pseudonym}-${prefix}${count}`;
+  };
+  goals.forEach((goal) => goalIds.set(goal.id, nextId(goal.clientId, 'G')));
+
+  return {
+    format: DEIDENTIFIED_FORMAT,
+    exportDate: new Date().toISOString(),
+    clients: clients.map((client) => ({
+      id: pseudonyms.get(client.id)!.pseudonym,
+      ...(client.diagnosis && { diagnosis: client.diagnosis }),
+      ...keptNote('client', client.id, client.notes),
+      isActive: client.isActive,
+    })),
+    goals: goals.map((goal) => {
+      const { pseudonym, dayShift } = pseudonyms.get(goal.clientId)!;
+      return {
+        id: goalIds.get(goal.id)!,
+        clientId: pseudonym,
+        name: goal.name,
+        description: goal.description,
+        category: goal.category,
+        ...(goal.parentGoalId &&
+          goalIds.has(goal.parentGoalId) && { parentGoalId: goalIds.get(goal.parentGoalId) }),
+        targetAccuracy: goal.targetAccuracy,
+        ...(goal.mastery && { mastery: goal.mastery }),
+        currentAccuracy: goal.currentAccuracy,
+        status: goal.status,
+        ...(goal.targetDate && { targetDate: shiftDate(goal.targetDate, dayShift) }),
+        createdAt: shiftDate(goal.createdAt, dayShift),
+      };
+    }),
+    sessions: sessions.map((session) => {
+      const { pseudonym, dayShift } = pseudonyms.get(session.clientId)!;
+      const id = nextId(session.clientId, 'S');
+      // Goals that have since been deleted keep a placeholder id
+      const goalId = (original: string) => goalIds.get(original) ?? `${pseudonym}-deleted-goal`;
+      return {
+        id,
+        clientId: pseudonym,
+        date: shiftDate(session.date, dayShift),
+        ageMonths: ageInMonths(birthDates.get(session.clientId)!, session.date),
+        duration: session.duration,
+        ...keptNote('session', session.id, session.notes),
+        goals: session.goals.map(goalId),
+        trials: session.trials.map((trial, index) => ({
+          id: `${id}-T${index + 1}`,
+          goalId: goalId(trial.goalId),
+          prompt: trial.prompt,
+          response: trial.response,
+          cueLevel: trial.cueLevel,
+          ...keptNote('trial', trial.id, trial.notes),
+          timestamp: shiftDate(trial.timestamp, dayShift),
+        })),
+      };
+    }),
+  };
+};
+
+const TRIAL_HEADER = [
+  'Client',
+  'Diagnosis',
+  'Session',
+  'Session Date (shifted)',
+  'Age (months)',
+  'Goal',
+  'Goal Name',
+  'Category',
+  'Prompt',
+  'Response',
+  'Cue Level',
+  'Notes',
+];
+
+// One row per trial, built from the dataset so nothing it left out can
+// reach the file
+export const buildDeidentifiedTrialsCsv = (dataset: DeidentifiedDataset): string => {
+  const clients = new Map(dataset.clients.map((client) => [client.id, client]));
+  const goals = new Map(dataset.goals.map((goal) => [goal.id, goal]));
+  const rows = dataset.sessions.flatMap((session) =>
+    session.trials.map((trial) => {
+      const goal = goals.get(trial.goalId);
+      return [
+        session.clientId,
+        clients.get(session.clientId)?.diagnosis ?? '',
+        session.id,
+        session.date.slice(0, 10),
+        session.ageMonths ?? '',
+        trial.goalId,
+        goal?.name ?? '',
+        goal ? getGoalCategoryLabel(goal.category) : '',
+        trial.prompt,
+        getResponseLabel(trial.response),
+        getCueLevelLabel(trial.cueLevel),
+        trial.notes ?? '',
+      ];
+    })
+  );
+  return toCsv(TRIAL_HEADER, rows);
+};
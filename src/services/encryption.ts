@@ -0,0 +1,143 @@
+// Encryption of stored data with a key derived from the user's passcode
+//
+// Payloads are sealed with AES-256-GCM. The key comes from PBKDF2-SHA256 over
+// the passcode and a random salt; only the salt and iteration count are ever
+// stored, never the key or the passcode.
+
+import { gcm } from '@noble/ciphers/aes';
+import { bytesToHex, hexToBytes, utf8ToBytes, bytesToUtf8 } from '@noble/ciphers/utils';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import * as Crypto from 'expo-crypto';
+
+const PAYLOAD_PREFIX = 'enc:v1:';
+const NONCE_BYTES = 12;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+const DEFAULT_ITERATIONS = 100000;
+
+// Known plaintext used to check a passcode without decrypting real data
+const VERIFIER_TEXT = 'speech-therapy-pro';
+
+export interface KeyDerivation {
+  algorithm: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string; // hex
+}
+
+// Stored (unencrypted) alongside the data so the key can be re-derived
+export interface EncryptionMetadata {
+  kdf: KeyDerivation;
+  verifier: string;
+  createdAt: string;
+}
+
+export const createKeyDerivation = (): KeyDerivation => ({
+  algorithm: 'pbkdf2-sha256',
+  iterations: DEFAULT_ITERATIONS,
+  salt: bytesToHex(Crypto.getRandomBytes(SALT_BYTES)),
+});
+
+export const deriveKey = (passcode: string, kdf: KeyDerivation): Promise<Uint8Array> => {
+  return pbkdf2Async(sha256, utf8ToBytes(passcode), hexToBytes(kdf.salt), {
+    c: kdf.iterations,
+    dkLen: KEY_BYTES,
+  });
+};
+
+export const isEncryptedPayload = (value: string): boolean => value.startsWith(PAYLOAD_PREFIX);
+
+export const encryptString = (key: Uint8Array, plaintext: string): string => {
+  const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+  const sealed = gcm(key, nonce).encrypt(utf8ToBytes(plaintext));
+  return `${PAYLOAD_PREFIX}${bytesToHex(nonce)}:${bytesToHex(sealed)}`;
+};
+
+// Throws if the payload was not sealed with this key or has been tampered with
+export const decryptString = (key: Uint8Array, payload: string): string => {
+  if (!isEncryptedPayload(payload)) {
+    throw new Error('Value is not an encrypted payload');
+  }
+  const [nonceHex, sealedHex] = payload.slice(PAYLOAD_PREFIX.length).split(':');
+  const opened = gcm(key, hexToBytes(nonceHex)).decrypt(hexToBytes(sealedHex));
+  return bytesToUtf8(opened);
+};
+
+export const createMetadata = (key: Uint8Array, kdf: KeyDerivation): EncryptionMetadata => ({
+  kdf,
+  verifier: encryptString(key, VERIFIER_TEXT),
+  createdAt: new Date().toISOString(),
+});
+
+export const verifyKey = (key: Uint8Array, metadata: EncryptionMetadata): boolean => {
+  try {
+    return decryptString(key, metadata.verifier) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+// The key for the current unlocked session. Held in memory only.
+let activeKey: Uint8Array | null = null;
+
+export const EncryptionKey = {
+  get(): Uint8Array | null {
+    return activeKey;
+  },
+
+  set(key: Uint8Array): void {
+    activeKey = key;
+  },
+
+  clear(): void {
+    activeKey = null;
+  },
+};
+
+// Encrypted backup files wrap the normal export JSON
+const BACKUP_FORMAT = 'speech-therapy-pro-encrypted-backup';
+
+export interface EncryptedBackup {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  kdf: KeyDerivation;
+  payload: string;
+}
+
+export const isEncryptedBackup = (jsonString: string): boolean => {
+  try {
+    return JSON.parse(jsonString)?.format === BACKUP_FORMAT;
+  } catch {
+    return false;
+  }
+};
+
+export const encryptBackup = async (jsonString: string, passphrase: string): Promise<string> => {
+  const kdf = createKeyDerivation();
+  const key = await deriveKey(passphrase, kdf);
+  const backup: EncryptedBackup = {
+    format: BACKUP_FORMAT,
+    version: 1,
+    kdf,
+    payload: encryptString(key, jsonString),
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+// Returns null if the passphrase is wrong
+export const decryptBackup = async (
+  jsonString: string,
+  passphrase: string
+): Promise<string | null> => {
+  const backup: EncryptedBackup = JSON.parse(jsonString);
+  const key = await deriveKey(passphrase, backup.kdf);
+  try {
+    return decryptString(key, backup.payload);
+  } catch {
+    return null;
+  }
+};
+
+// A random passphrase or key, for backups the app writes on its own and
+// pseudonyms in de-identified exports
+export const createRandomSecret = (): string => bytesToHex(Crypto.getRandomBytes(32));
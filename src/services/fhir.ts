@@ -0,0 +1,556 @@
+// FHIR R4 exchange, for partners whose record systems only take FHIR
+//
+// Exports are a collection Bundle: a Patient for each client, a Goal for each
+// goal, and for each session an Encounter with an Observation of each goal's
+// accuracy. Entries are linked by urn:uuid references, as FHIR asks of
+// bundles that don't come from a server; each resource also carries the
+// app's own id as an identifier. Imports read Patients and Goals only.
+
+import * as Crypto from 'expo-crypto';
+import { addMinutes, isValid, parseISO } from 'date-fns';
+import { Client, Goal, GoalCategory, Session, Trial } from '../types';
+import { calculateSessionStats, generateId, getGoalCategoryLabel } from '../utils/helpers';
+import { BundleRecords } from './clientBundle';
+import { isDeleted } from './trash';
+import { UnknownRecord, ValidationIssue, isObject, validateBackupData } from './validation';
+
+const SYSTEM_BASE = 'urn:speech-therapy-pro';
+const IDENTIFIER_SYSTEMS = {
+  client: `${SYSTEM_BASE}:client`,
+  goal: `${SYSTEM_BASE}:goal`,
+  session: `${SYSTEM_BASE}:session`,
+};
+const CATEGORY_SYSTEM = `${SYSTEM_BASE}:goal-category`;
+const DIAGNOSIS_EXTENSION = `${SYSTEM_BASE}:extension:diagnosis`;
+const NOTES_EXTENSION = `${SYSTEM_BASE}:extension:notes`;
+const UCUM = 'http://unitsofmeasure.org';
+
+// The parts of each resource the app reads and writes
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: { system?: string; code?: string; display?: string }[];
+  text?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+interface FhirExtension {
+  url: string;
+  valueString?: string;
+}
+
+export interface FhirPatient {
+  resourceType: 'Patient';
+  id?: string;
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: { use?: string; family?: string; given?: string[]; text?: string }[];
+  birthDate?: string;
+  extension?: FhirExtension[];
+}
+
+export interface FhirGoal {
+  resourceType: 'Goal';
+  id?: string;
+  identifier?: FhirIdentifier[];
+  lifecycleStatus?: string;
+  achievementStatus?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  description?: FhirCodeableConcept;
+  subject?: FhirReference;
+  startDate?: string;
+  target?: { measure?: FhirCodeableConcept; detailQuantity?: FhirQuantity; dueDate?: string }[];
+  note?: { text: string }[];
+}
+
+export interface FhirEncounter {
+  resourceType: 'Encounter';
+  id: string;
+  identifier: FhirIdentifier[];
+  status: 'finished';
+  class: { system: string; code: string; display: string };
+  serviceType: FhirCodeableConcept;
+  subject: FhirReference;
+  period: { start: string; end: string };
+  length: FhirQuantity;
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'final';
+  category: FhirCodeableConcept[];
+  code: FhirCodeableConcept;
+  subject: FhirReference;
+  encounter: FhirReference;
+  focus: FhirReference[];
+  effectiveDateTime: string;
+  valueQuantity: FhirQuantity;
+  component: { code: FhirCodeableConcept; valueInteger: number }[];
+}
+
+export type FhirResource = FhirPatient | FhirGoal | FhirEncounter | FhirObservation;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+export type ParsedFhirBundle =
+  | { ok: true; records: BundleRecords; issues: ValidationIssue[] }
+  | { ok: false; issues: ValidationIssue[] };
+
+const GOAL_CATEGORIES: GoalCategory[] = [
+  'articulation',
+  'language',
+  'fluency',
+  'voice',
+  'pragmatics',
+  'phonology',
+  'other',
+];
+
+// Goal status as FHIR splits it: whether the goal is still pursued, and
+// whether it was met
+const LIFECYCLE_STATUS: Record<Goal['status'], string> = {
+  active: 'active',
+  achieved: 'completed',
+  discontinued: 'cancelled',
+};
+
+const ACHIEVEMENT_STATUS: Record<Goal['status'], string> = {
+  active: 'in-progress',
+  achieved: 'achieved',
+  discontinued: 'not-achieved',
+};
+
+const percent = (value: number): FhirQuantity => ({ value, unit: '%', system: UCUM, code: '%' });
+
+// Dates only, as Patient.birthDate and Goal dates take
+const toFhirDate = (date: string): string => date.slice(0, 10);
+
+export const isFhirBundle = (jsonString: string): boolean => {
+  try {
+    return JSON.parse(jsonString)?.resourceType === 'Bundle';
+  } catch {
+    return false;
+  }
+};
+
+const toPatient = (client: Client): FhirPatient => ({
+  resourceType: 'Patient',
+  id: client.id,
+  identifier: [{ system: IDENTIFIER_SYSTEMS.client, value: client.id }],
+  active: client.isActive,
+  name: [{ use: 'official', family: client.lastName, given: [client.firstName] }],
+  ...(client.dateOfBirth && { birthDate: toFhirDate(client.dateOfBirth) }),
+  ...((client.diagnosis || client.notes) && {
+    extension: [
+      ...(client.diagnosis ? [{ url: DIAGNOSIS_EXTENSION, valueString: client.diagnosis }] : []),
+      ...(client.notes ? [{ url: NOTES_EXTENSION, valueString: client.notes }] : []),
+    ],
+  }),
+});
+
+const toGoal = (goal: Goal, subject: FhirReference): FhirGoal => ({
+  resourceType: 'Goal',
+  id: goal.id,
+  identifier: [{ system: IDENTIFIER_SYSTEMS.goal, value: goal.id }],
+  lifecycleStatus: LIFECYCLE_STATUS[goal.status],
+  achievementStatus: {
+    coding: [
+      {
+        system: 'http://terminology.hl7.org/CodeSystem/goal-achievement',
+        code: ACHIEVEMENT_STATUS[goal.status],
+      },
+    ],
+  },
+  category: [
+    {
+      coding: [
+        {
+          system: CATEGORY_SYSTEM,
+          code: goal.category,
+          display: getGoalCategoryLabel(goal.category),
+        },
+      ],
+    },
+  ],
+  description: { text: goal.name },
+  subject,
+  startDate: toFhirDate(goal.createdAt),
+  target: [
+    {
+      measure: { text: 'Accuracy' },
+      detailQuantity: percent(goal.targetAccuracy),
+      ...(goal.targetDate && { dueDate: toFhirDate(goal.targetDate) }),
+    },
+  ],
+  ...(goal.description && { note: [{ text: goal.description }] }),
+});
+
+const toEncounter = (session: Session, subject: FhirReference): FhirEncounter => ({
+  resourceType: 'Encounter',
+  id: session.id,
+  identifier: [{ system: IDENTIFIER_SYSTEMS.session, value: session.id }],
+  status: 'finished',
+  class: {
+    system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode',
+    code: 'AMB',
+    display: 'ambulatory',
+  },
+  serviceType: { text: 'Speech-language therapy' },
+  subject,
+  period: {
+    start: session.date,
+    end: addMinutes(parseISO(session.date), session.duration).toISOString(),
+  },
+  length: { value: session.duration, unit: 'min', system: UCUM, code: 'min' },
+});
+
+const toObservation = (
+  session: Session,
+  goal: Goal,
+  trials: Trial[],
+  refs: { subject: FhirReference; encounter: FhirReference; goal: FhirReference }
+): FhirObservation => {
+  const stats = calculateSessionStats(trials);
+  return {
+    resourceType: 'Observation',
+    id: `${session.id}-${goal.id}`,
+    status: 'final',
+    category: [
+      {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+            code: 'therapy',
+            display: 'Therapy',
+          },
+        ],
+      },
+    ],
+    code: { text: `${goal.name} accuracy` },
+    subject: refs.subject,
+    encounter: refs.encounter,
+    focus: [refs.goal],
+    effectiveDateTime: session.date,
+    valueQuantity: percent(stats.accuracy),
+    component: [
+      { code: { text: 'Trials' }, valueInteger: stats.totalTrials },
+      { code: { text: 'Correct trials' }, valueInteger: stats.correctTrials },
+    ],
+  };
+};
+
+// The chosen clients as a FHIR Bundle. Records in the trash stay behind, as
+// do goals without trials in a session.
+export const createFhirBundle = (
+  records: BundleRecords,
+  clientIds: string[],
+  createUuid: () => string = Crypto.randomUUID
+): FhirBundle => {
+  const ids = new Set(clientIds);
+  const clients = records.clients.filter((client) => ids.has(client.id) && !isDeleted(client));
+  const included = new Set(clients.map((client) => client.id));
+  const goals = records.goals.filter((goal) => included.has(goal.clientId) && !isDeleted(goal));
+  const sessions = records.sessions.filter(
+    (session) => included.has(session.clientId) && !isDeleted(session)
+  );
+
+  const entry: FhirBundle['entry'] = [];
+  const add = (resource: FhirResource, display?: string): FhirReference => {
+    const fullUrl = `urn:uuid:${createUuid()}`;
+    entry.push({ fullUrl, resource });
+    return display ? { reference: fullUrl, display } : { reference: fullUrl };
+  };
+
+  const patientRefs = new Map<string, FhirReference>();
+  clients.forEach((client) => {
+    patientRefs.set(
+      client.id,
+      add(toPatient(client), `${client.firstName} ${client.lastName}`.trim())
+    );
+  });
+
+  const goalRefs = new Map<string, FhirReference>();
+  const goalsById = new Map(goals.map((goal) => [goal.id, goal]));
+  goals.forEach((goal) => {
+    goalRefs.set(goal.id, add(toGoal(goal, patientRefs.get(goal.clientId)!), goal.name));
+  });
+
+  sessions.forEach((session) => {
+    const subject = patientRefs.get(session.clientId)!;
+    const encounter = add(toEncounter(session, subject));
+
+    const byGoal = new Map<string, Trial[]>();
+    session.trials.forEach((trial) => {
+      byGoal.set(trial.goalId, [...(byGoal.get(trial.goalId) || []), trial]);
+    });
+    byGoal.forEach((trials, goalId) => {
+      const goal = goalsById.get(goalId);
+      if (!goal) return;
+      add(toObservation(session, goal, trials, { subject, encounter, goal: goalRefs.get(goalId)! }));
+    });
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry,
+  };
+};
+
+// Resources from other systems may not be shaped as FHIR says, so they are
+// read field by field rather than trusted
+const readText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const readObjects = (value: unknown): UnknownRecord[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+const readCodings = (concept: unknown): UnknownRecord[] =>
+  isObject(concept) ? readObjects(concept.coding) : [];
+
+// FHIR dates may be just a year or a month; the app needs the day
+const FULL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDate = (value: unknown): string | undefined =>
+  typeof value === 'string' && FULL_DATE.test(value) && isValid(parseISO(value))
+    ? value
+    : undefined;
+
+const readExtension = (resource: UnknownRecord, url: string): string | undefined =>
+  readText(readObjects(resource.extension).find((extension) => extension.url === url)?.valueString);
+
+// Goal status from either half of FHIR's, preferring whether it was met
+const readGoalStatus = (goal: UnknownRecord): Goal['status'] => {
+  const achievement = readCodings(goal.achievementStatus)[0]?.code;
+  if (achievement === 'achieved' || goal.lifecycleStatus === 'completed') return 'achieved';
+  if (
+    goal.lifecycleStatus === 'cancelled' ||
+    goal.lifecycleStatus === 'rejected' ||
+    goal.lifecycleStatus === 'entered-in-error'
+  ) {
+    return 'discontinued';
+  }
+  return 'active';
+};
+
+const readGoalCategory = (goal: UnknownRecord): GoalCategory => {
+  const codes = readObjects(goal.category).flatMap((concept) => [
+    ...readCodings(concept).map((coding) => readText(coding.code)?.toLowerCase()),
+    readText(concept.text)?.toLowerCase(),
+  ]);
+  return GOAL_CATEGORIES.find((category) => codes.includes(category)) ?? 'other';
+};
+
+// A resource's id, or a new one if it has none or shares it with another
+const readId = (id: string | undefined, read: { id: string }[]): string =>
+  id && !read.some((record) => record.id === id) ? id : generateId();
+
+// A date the app can't use is left blank, with a warning
+const readOptionalDate = (
+  issues: ValidationIssue[],
+  path: string,
+  value: unknown
+): string | undefined => {
+  if (value === undefined) return undefined;
+  const date = readDate(value);
+  if (!date) {
+    issues.push({
+      path,
+      message: `is not a full date (${JSON.stringify(value)}), so it was left blank`,
+      severity: 'warning',
+    });
+  }
+  return date;
+};
+
+// Read the Patients and Goals in a FHIR Bundle, from this app or elsewhere.
+// Goals are matched to Patients through their subject reference, whether
+// that is an entry's fullUrl or Patient/<id>. Ids are kept where present;
+// the caller gives new ones to any that are taken.
+export const parseFhirBundle = (
+  jsonString: string,
+  defaultTargetAccuracy: number
+): ParsedFhirBundle => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonString);
+  } catch {
+    return { ok: false, issues: [{ path: '', message: 'is not valid JSON', severity: 'error' }] };
+  }
+  if (!isObject(raw) || raw.resourceType !== 'Bundle' || !Array.isArray(raw.entry)) {
+    return {
+      ok: false,
+      issues: [{ path: '', message: 'is not a FHIR Bundle', severity: 'error' }],
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const now = new Date().toISOString();
+  const clients: Client[] = [];
+  const clientPaths: string[] = [];
+  const clientRefs = new Map<string, Client>();
+
+  const entries = raw.entry.flatMap((entry: unknown, index: number) =>
+    isObject(entry) && isObject(entry.resource)
+      ? [{ path: `entry[${index}]`, fullUrl: readText(entry.fullUrl), resource: entry.resource }]
+      : []
+  );
+
+  entries
+    .filter(({ resource }) => resource.resourceType === 'Patient')
+    .forEach(({ path, fullUrl, resource }) => {
+      const names = readObjects(resource.name);
+      const name = names.find((n) => n.use === 'official') ?? names[0];
+      const given = Array.isArray(name?.given) ? name.given.map(readText).filter(Boolean) : [];
+      const firstName = given.join(' ') || readText(name?.text) || '';
+      const lastName = readText(name?.family) ?? '';
+      if (!firstName && !lastName) {
+        issues.push({ path: `${path}.resource.name`, message: 'is missing', severity: 'warning' });
+        return;
+      }
+      if (resource.birthDate === undefined) {
+        issues.push({
+          path: `${path}.resource.birthDate`,
+          message: 'is missing',
+          severity: 'warning',
+        });
+      }
+
+      const id = readText(resource.id);
+      const client: Client = {
+        id: readId(id, clients),
+        firstName: firstName || lastName,
+        lastName: firstName ? lastName : '',
+        dateOfBirth:
+          readOptionalDate(issues, `${path}.resource.birthDate`, resource.birthDate) ?? '',
+        diagnosis: readExtension(resource, DIAGNOSIS_EXTENSION),
+        notes: readExtension(resource, NOTES_EXTENSION),
+        createdAt: now,
+        updatedAt: now,
+        isActive: resource.active !== false,
+      };
+      clients.push(client);
+      clientPaths.push(path);
+      if (fullUrl) clientRefs.set(fullUrl, client);
+      if (id) clientRefs.set(`Patient/${id}`, client);
+    });
+
+  const goals: Goal[] = [];
+  const goalPaths: string[] = [];
+  entries
+    .filter(({ resource }) => resource.resourceType === 'Goal')
+    .forEach(({ path, resource }) => {
+      const subject = isObject(resource.subject) ? readText(resource.subject.reference) : undefined;
+      const client = subject && clientRefs.get(subject);
+      if (!client) {
+        issues.push({
+          path: `${path}.resource.subject`,
+          message: 'is not a patient in this file',
+          severity: 'warning',
+        });
+        return;
+      }
+
+      const description = isObject(resource.description) ? resource.description : {};
+      const name = readText(description.text) || readText(readCodings(description)[0]?.display);
+      if (!name) {
+        issues.push({
+          path: `${path}.resource.description`,
+          message: 'is missing',
+          severity: 'warning',
+        });
+        return;
+      }
+
+      const targets = readObjects(resource.target);
+      const target = targets
+        .map((t) => t.detailQuantity)
+        .filter(isObject)
+        .find((quantity) => quantity.unit === '%' || quantity.code === '%');
+      const targetAccuracy = target?.value;
+      const dueDate = readOptionalDate(
+        issues,
+        `${path}.resource.target.dueDate`,
+        targets.find((t) => t.dueDate !== undefined)?.dueDate
+      );
+
+      goals.push({
+        id: readId(readText(resource.id), goals),
+        clientId: client.id,
+        name,
+        description: readObjects(resource.note)
+          .map((note) => readText(note.text))
+          .filter(Boolean)
+          .join('\n'),
+        targetAccuracy:
+          typeof targetAccuracy === 'number' && targetAccuracy > 0 && targetAccuracy <= 100
+            ? Math.round(targetAccuracy)
+            : defaultTargetAccuracy,
+        currentAccuracy: 0,
+        ...(dueDate && { targetDate: dueDate }),
+        status: readGoalStatus(resource),
+        category: readGoalCategory(resource),
+        createdAt: now,
+        updatedAt: now,
+      });
+      goalPaths.push(path);
+    });
+
+  // What was read is checked as a backup's records are. Records that fail
+  // are left out, along with the goals of a patient left out, and their
+  // issues are reported against the entries they came from.
+  const failed = { clients: new Set<number>(), goals: new Set<number>() };
+  validateBackupData({ clients, goals, sessions: [], settings: null }).forEach((issue) => {
+    const match = /^(clients|goals)\[(\d+)\](.*)$/.exec(issue.path);
+    if (!match) return;
+    const [, collection, index, field] = match;
+    const paths = collection === 'clients' ? clientPaths : goalPaths;
+    if (issue.severity === 'error') failed[collection as keyof typeof failed].add(Number(index));
+    issues.push({
+      path: `${paths[Number(index)]}.resource${field}`,
+      message: issue.message,
+      severity: 'warning',
+    });
+  });
+
+  const keptClients = clients.filter((_, index) => !failed.clients.has(index));
+  const keptClientIds = new Set(keptClients.map((client) => client.id));
+  const keptGoals = goals.filter((goal, index) => {
+    if (failed.goals.has(index)) return false;
+    if (keptClientIds.has(goal.clientId)) return true;
+    issues.push({
+      path: `${goalPaths[index]}.resource.subject`,
+      message: 'is a patient that was left out',
+      severity: 'warning',
+    });
+    return false;
+  });
+
+  if (keptClients.length === 0) {
+    issues.push({ path: '', message: 'has no patients to import', severity: 'error' });
+    return { ok: false, issues };
+  }
+
+  return { ok: true, records: { clients: keptClients, goals: keptGoals, sessions: [] }, issues };
+};
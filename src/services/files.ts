@@ -0,0 +1,28 @@
+// Saving files to hand to other apps, and opening files the user picks
+
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+// Write content to the document directory and open the share sheet. Returns
+// false where sharing isn't available, leaving the file saved.
+export const shareTextFile = async (
+  fileName: string,
+  content: string,
+  options: { mimeType: string; dialogTitle: string }
+): Promise<boolean> => {
+  const file = new FileSystem.File(FileSystem.Paths.document, fileName);
+  await file.create({ overwrite: true });
+  await file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) return false;
+  await Sharing.shareAsync(file.uri, options);
+  return true;
+};
+
+// Returns null if the user cancels
+export const pickTextFile = async (type: string | string[]): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  return new FileSystem.File(result.assets[0].uri).text();
+};
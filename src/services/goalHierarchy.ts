@@ -0,0 +1,55 @@
+// Long-term goals and their short-term objectives
+//
+// A treatment plan or IEP sets a long-term goal and measures it through a
+// few benchmark objectives. Objectives are ordinary goals with a
+// parentGoalId; they have their own target, trials and status. The
+// hierarchy is one level deep, and a long-term goal with objectives takes
+// its progress from them rather than from its own trials.
+
+import { Goal } from '../types';
+
+export interface GoalNode {
+  goal: Goal;
+  objectives: Goal[];
+}
+
+export interface GoalRollup {
+  accuracy: number;
+  objectives: number; // not counting discontinued ones
+  achievedObjectives: number;
+}
+
+export const isObjective = (goal: Goal): boolean => !!goal.parentGoalId;
+
+export const getObjectives = (goalId: string, goals: Goal[]): Goal[] =>
+  goals.filter((goal) => goal.parentGoalId === goalId);
+
+// Goals in the order given, each followed by its objectives. Objectives
+// whose long-term goal isn't in the list, or is an objective itself, stand
+// on their own.
+export const buildGoalTree = (goals: Goal[]): GoalNode[] => {
+  const longTermIds = new Set(goals.filter((goal) => !isObjective(goal)).map((goal) => goal.id));
+  return goals
+    .filter((goal) => !goal.parentGoalId || !longTermIds.has(goal.parentGoalId))
+    .map((goal) => ({
+      goal,
+      objectives: longTermIds.has(goal.id) ? getObjectives(goal.id, goals) : [],
+    }));
+};
+
+// The mean accuracy of a goal's objectives, or its own accuracy when it
+// has none to measure it by
+export const getGoalRollup = (goal: Goal, goals: Goal[]): GoalRollup => {
+  const objectives = getObjectives(goal.id, goals).filter(
+    (objective) => objective.status !== 'discontinued'
+  );
+  if (objectives.length === 0) {
+    return { accuracy: goal.currentAccuracy, objectives: 0, achievedObjectives: 0 };
+  }
+  const total = objectives.reduce((sum, objective) => sum + objective.currentAccuracy, 0);
+  return {
+    accuracy: Math.round(total / objectives.length),
+    objectives: objectives.length,
+    achievedObjectives: objectives.filter((objective) => objective.status === 'achieved').length,
+  };
+};
@@ -0,0 +1,64 @@
+// Snapshots of stored records for undo and redo
+//
+// A snapshot holds the stored state of each record an action touched, taken
+// just before it ran. Writing a snapshot back undoes the action; a snapshot
+// taken just before that write redoes it.
+
+import { Client, Goal, Session, AppSettings } from '../types';
+import { ClientStorage, GoalStorage, SessionStorage, SettingsStorage, runTransaction } from './storage';
+
+export interface Snapshot {
+  // null means the record didn't exist
+  clients: Map<string, Client | null>;
+  goals: Map<string, Goal | null>;
+  sessions: Map<string, Session | null>;
+  settings: AppSettings | null; // null when the action didn't touch settings
+}
+
+export interface SnapshotIds {
+  clients?: string[];
+  goals?: string[];
+  sessions?: string[];
+  settings?: boolean;
+}
+
+const readRecords = async <T>(
+  ids: string[],
+  getById: (id: string) => Promise<T | null>
+): Promise<Map<string, T | null>> => {
+  const records = new Map<string, T | null>();
+  for (const id of ids) {
+    records.set(id, await getById(id));
+  }
+  return records;
+};
+
+export const captureSnapshot = async (ids: SnapshotIds): Promise<Snapshot> => ({
+  clients: await readRecords(ids.clients || [], (id) => ClientStorage.getById(id)),
+  goals: await readRecords(ids.goals || [], (id) => GoalStorage.getById(id)),
+  sessions: await readRecords(ids.sessions || [], (id) => SessionStorage.getById(id)),
+  settings: ids.settings ? await SettingsStorage.get() : null,
+});
+
+// The current state of the records in another snapshot
+export const recaptureSnapshot = (snapshot: Snapshot): Promise<Snapshot> =>
+  captureSnapshot({
+    clients: [...snapshot.clients.keys()],
+    goals: [...snapshot.goals.keys()],
+    sessions: [...snapshot.sessions.keys()],
+    settings: snapshot.settings !== null,
+  });
+
+// Write every record back as it was in the snapshot, in one transaction.
+// Records that didn't exist are deleted outright, not moved to the trash.
+export const applySnapshot = (snapshot: Snapshot): Promise<boolean> =>
+  runTransaction((tx) => {
+    snapshot.clients.forEach((client, id) => (client ? tx.saveClient(client) : tx.deleteClient(id)));
+    snapshot.goals.forEach((goal, id) => (goal ? tx.saveGoal(goal) : tx.deleteGoal(id)));
+    snapshot.sessions.forEach((session, id) =>
+      session ? tx.saveSession(session) : tx.deleteSession(id)
+    );
+    if (snapshot.settings) {
+      tx.saveSettings(snapshot.settings);
+    }
+  });
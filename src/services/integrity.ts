@@ -0,0 +1,434 @@
+// Data integrity checks: records pointing at records that are gone, ids used
+// twice, and values that disagree with the records they are worked out from
+//
+// Checks and repairs only look at the records given; storage reads them and
+// commits what a repair returns in one transaction.
+
+import { AccuracyMethod, Goal, Session, Trial } from '../types';
+import { generateId } from '../utils/helpers';
+import { calculateGoalAccuracy, getAccuracyMethod } from './accuracy';
+import { BundleRecords } from './clientBundle';
+import { deletionGroupOf, isDeleted, markDeleted } from './trash';
+
+export type IntegrityIssueKind =
+  | 'orphanedGoal'
+  | 'orphanedSession'
+  | 'notTrashedWithClient'
+  | 'invalidParentGoal'
+  | 'orphanedTrial'
+  | 'missingSessionGoal'
+  | 'unlistedTrialGoal'
+  | 'trialSessionId'
+  | 'duplicateId'
+  | 'accuracyMismatch';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  entityType: 'goal' | 'session';
+  id: string; // the record holding the problem
+  clientId: string;
+  detail: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  scanned: { clients: number; goals: number; sessions: number; trials: number };
+  issues: IntegrityIssue[];
+}
+
+export interface IntegrityRepair {
+  records: BundleRecords; // changed records to save
+  removed: { goals: string[]; sessions: string[] };
+  repaired: Partial<Record<IntegrityIssueKind, number>>;
+}
+
+// Every kind of issue, in the order repairs are made: records that go
+// first, so later checks don't report problems with them, and accuracy
+// last, once trials are settled
+export const ISSUE_KINDS: {
+  kind: IntegrityIssueKind;
+  title: string;
+  description: string;
+  repair: 'fix' | 'remove';
+}[] = [
+  {
+    kind: 'orphanedGoal',
+    title: 'Goals without a client',
+    description: 'The client these goals belong to no longer exists. The goals are removed.',
+    repair: 'remove',
+  },
+  {
+    kind: 'orphanedSession',
+    title: 'Sessions without a client',
+    description: 'The client these sessions belong to no longer exists. The sessions are removed.',
+    repair: 'remove',
+  },
+  {
+    kind: 'notTrashedWithClient',
+    title: 'Records of clients in the trash',
+    description:
+      'The client is in the trash but these goals and sessions are not. They are moved to the trash with the client.',
+    repair: 'fix',
+  },
+  {
+    kind: 'invalidParentGoal',
+    title: 'Objectives without a long-term goal',
+    description:
+      "These objectives' long-term goal no longer exists, belongs to another client, or is an objective itself. They become long-term goals.",
+    repair: 'fix',
+  },
+  {
+    kind: 'orphanedTrial',
+    title: 'Trials without a goal',
+    description:
+      "These trials are for a goal that no longer exists or belongs to another client. The trials are removed from their sessions.",
+    repair: 'remove',
+  },
+  {
+    kind: 'missingSessionGoal',
+    title: 'Sessions listing missing goals',
+    description: 'A goal these sessions worked on no longer exists. It is taken off their goal lists.',
+    repair: 'fix',
+  },
+  {
+    kind: 'unlistedTrialGoal',
+    title: 'Trials for goals not in the session',
+    description: "These sessions have trials for a goal missing from their goal lists. It is added.",
+    repair: 'fix',
+  },
+  {
+    kind: 'trialSessionId',
+    title: 'Trials with the wrong session',
+    description: "These trials don't carry the id of the session they are in. It is set.",
+    repair: 'fix',
+  },
+  {
+    kind: 'duplicateId',
+    title: 'Duplicate ids',
+    description:
+      'Trials sharing an id, or goals listed twice in a session. Trials get new ids and repeated goals are dropped.',
+    repair: 'fix',
+  },
+  {
+    kind: 'accuracyMismatch',
+    title: "Accuracy that doesn't match the trials",
+    description: "These goals' current accuracy differs from their session history. It is recalculated.",
+    repair: 'fix',
+  },
+];
+
+// A goal's accuracy as its live sessions give it
+export const expectedAccuracy = (
+  goal: Goal,
+  sessions: Session[],
+  defaultMethod: AccuracyMethod
+): number => calculateGoalAccuracy(goal.id, sessions, getAccuracyMethod(goal, defaultMethod));
+
+const countTrials = (sessions: Session[]) =>
+  sessions.reduce((sum, session) => sum + session.trials.length, 0);
+
+// Trials whose goal is gone or is another client's
+const isOrphanedTrial = (trial: Trial, session: Session, goals: Map<string, Goal>) =>
+  goals.get(trial.goalId)?.clientId !== session.clientId;
+
+const findIssues = (
+  { clients, goals, sessions }: BundleRecords,
+  kind: IntegrityIssueKind,
+  defaultMethod: AccuracyMethod
+): IntegrityIssue[] => {
+  const clientsById = new Map(clients.map((client) => [client.id, client]));
+  const goalsById = new Map(goals.map((goal) => [goal.id, goal]));
+  const goalIssue = (goal: Goal, detail: string): IntegrityIssue => ({
+    kind,
+    entityType: 'goal',
+    id: goal.id,
+    clientId: goal.clientId,
+    detail,
+  });
+  const sessionIssue = (session: Session, detail: string): IntegrityIssue => ({
+    kind,
+    entityType: 'session',
+    id: session.id,
+    clientId: session.clientId,
+    detail,
+  });
+  const sessionLabel = (session: Session) => `Session on ${session.date.slice(0, 10)}`;
+
+  switch (kind) {
+    case 'orphanedGoal':
+      return goals
+        .filter((goal) => !clientsById.has(goal.clientId))
+        .map((goal) => goalIssue(goal, `"${goal.name}"`));
+
+    case 'orphanedSession':
+      return sessions
+        .filter((session) => !clientsById.has(session.clientId))
+        .map((session) => sessionIssue(session, sessionLabel(session)));
+
+    case 'notTrashedWithClient': {
+      const inTrash = (clientId: string) => {
+        const client = clientsById.get(clientId);
+        return !!client && isDeleted(client);
+      };
+      return [
+        ...goals
+          .filter((goal) => !isDeleted(goal) && inTrash(goal.clientId))
+          .map((goal) => goalIssue(goal, `"${goal.name}"`)),
+        ...sessions
+          .filter((session) => !isDeleted(session) && inTrash(session.clientId))
+          .map((session) => sessionIssue(session, sessionLabel(session))),
+      ];
+    }
+
+    case 'invalidParentGoal':
+      return goals
+        .filter((goal) => {
+          if (!goal.parentGoalId) return false;
+          const parent = goalsById.get(goal.parentGoalId);
+          return !parent || parent.clientId !== goal.clientId || !!parent.parentGoalId;
+        })
+        .map((goal) => goalIssue(goal, `"${goal.name}"`));
+
+    case 'orphanedTrial':
+      return sessions.flatMap((session) => {
+        const count = session.trials.filter((trial) =>
+          isOrphanedTrial(trial, session, goalsById)
+        ).length;
+        return count > 0
+          ? [sessionIssue(session, `${sessionLabel(session)}: ${count} trial${count !== 1 ? 's' : ''}`)]
+          : [];
+      });
+
+    case 'missingSessionGoal':
+      return sessions.flatMap((session) => {
+        const count = session.goals.filter((goalId) => !goalsById.has(goalId)).length;
+        return count > 0
+          ? [sessionIssue(session, `${sessionLabel(session)}: ${count} goal${count !== 1 ? 's' : ''}`)]
+          : [];
+      });
+
+    case 'unlistedTrialGoal':
+      return sessions.flatMap((session) => {
+        const unlisted = new Set(
+          session.trials
+            .filter(
+              (trial) =>
+                !isOrphanedTrial(trial, session, goalsById) && !session.goals.includes(trial.goalId)
+            )
+            .map((trial) => goalsById.get(trial.goalId)!.name)
+        );
+        return unlisted.size > 0
+          ? [sessionIssue(session, `${sessionLabel(session)}: ${[...unlisted].join(', ')}`)]
+          : [];
+      });
+
+    case 'trialSessionId':
+      return sessions.flatMap((session) => {
+        const count = session.trials.filter((trial) => trial.sessionId !== session.id).length;
+        return count > 0
+          ? [sessionIssue(session, `${sessionLabel(session)}: ${count} trial${count !== 1 ? 's' : ''}`)]
+          : [];
+      });
+
+    case 'duplicateId': {
+      const seenTrialIds = new Set<string>();
+      return sessions.flatMap((session) => {
+        const repeatedGoals = session.goals.length - new Set(session.goals).size;
+        const repeatedTrials = session.trials.filter((trial) => {
+          const seen = seenTrialIds.has(trial.id);
+          seenTrialIds.add(trial.id);
+          return seen;
+        }).length;
+        const parts = [
+          repeatedGoals > 0 && `${repeatedGoals} goal${repeatedGoals !== 1 ? 's' : ''} listed twice`,
+          repeatedTrials > 0 && `${repeatedTrials} trial id${repeatedTrials !== 1 ? 's' : ''} in use`,
+        ].filter(Boolean);
+        return parts.length > 0
+          ? [sessionIssue(session, `${sessionLabel(session)}: ${parts.join(', ')}`)]
+          : [];
+      });
+    }
+
+    case 'accuracyMismatch':
+      return goals
+        .filter((goal) => !isDeleted(goal))
+        .flatMap((goal) => {
+          const expected = expectedAccuracy(goal, sessions, defaultMethod);
+          return goal.currentAccuracy !== expected
+            ? [goalIssue(goal, `"${goal.name}": ${goal.currentAccuracy}%, trials give ${expected}%`)]
+            : [];
+        });
+  }
+};
+
+export const checkIntegrity = (
+  records: BundleRecords,
+  defaultMethod: AccuracyMethod
+): IntegrityReport => ({
+  checkedAt: new Date().toISOString(),
+  scanned: {
+    clients: records.clients.length,
+    goals: records.goals.length,
+    sessions: records.sessions.length,
+    trials: countTrials(records.sessions),
+  },
+  issues: ISSUE_KINDS.flatMap(({ kind }) => findIssues(records, kind, defaultMethod)),
+});
+
+// Repair the chosen kinds of issue, in ISSUE_KINDS order. Each kind is
+// checked again against the records as earlier repairs left them.
+export const repairIntegrity = (
+  records: BundleRecords,
+  kinds: IntegrityIssueKind[],
+  defaultMethod: AccuracyMethod,
+  createId: () => string = generateId
+): IntegrityRepair => {
+  const clients = new Map(records.clients.map((client) => [client.id, client]));
+  const goals = new Map(records.goals.map((goal) => [goal.id, goal]));
+  const sessions = new Map(records.sessions.map((session) => [session.id, session]));
+  const changedGoals = new Set<string>();
+  const changedSessions = new Set<string>();
+  const removed = { goals: [] as string[], sessions: [] as string[] };
+  const repaired: IntegrityRepair['repaired'] = {};
+
+  const saveGoal = (goal: Goal) => {
+    goals.set(goal.id, goal);
+    changedGoals.add(goal.id);
+  };
+  const saveSession = (session: Session) => {
+    sessions.set(session.id, session);
+    changedSessions.add(session.id);
+  };
+  const current = (): BundleRecords => ({
+    clients: [...clients.values()],
+    goals: [...goals.values()],
+    sessions: [...sessions.values()],
+  });
+
+  ISSUE_KINDS.filter(({ kind }) => kinds.includes(kind)).forEach(({ kind }) => {
+    const issues = findIssues(current(), kind, defaultMethod);
+    if (issues.length === 0) return;
+    repaired[kind] = issues.length;
+
+    const now = new Date().toISOString();
+
+    if (kind === 'duplicateId') {
+      // The first trial with an id keeps it, in the order findIssues reads them
+      const taken = new Set([...sessions.values()].flatMap((s) => s.trials.map((t) => t.id)));
+      const seen = new Set<string>();
+      const flagged = new Set(issues.map((issue) => issue.id));
+      [...sessions.values()].forEach((session) => {
+        const trials = session.trials.map((trial) => {
+          if (!seen.has(trial.id)) {
+            seen.add(trial.id);
+            return trial;
+          }
+          let id = createId();
+          while (taken.has(id)) id = createId();
+          taken.add(id);
+          return { ...trial, id };
+        });
+        if (flagged.has(session.id)) {
+          saveSession({ ...session, goals: [...new Set(session.goals)], trials });
+        }
+      });
+      return;
+    }
+
+    issues.forEach((issue) => {
+      const goal = goals.get(issue.id);
+      const session = sessions.get(issue.id);
+
+      switch (kind) {
+        case 'orphanedGoal':
+          goals.delete(issue.id);
+          changedGoals.delete(issue.id);
+          removed.goals.push(issue.id);
+          break;
+
+        case 'orphanedSession':
+          sessions.delete(issue.id);
+          changedSessions.delete(issue.id);
+          removed.sessions.push(issue.id);
+          break;
+
+        case 'notTrashedWithClient': {
+          const client = clients.get(issue.clientId)!;
+          const groupId = deletionGroupOf(client);
+          if (issue.entityType === 'goal') {
+            saveGoal(markDeleted({ ...goal!, updatedAt: now }, groupId, client.deletedAt!));
+          } else {
+            saveSession(markDeleted(session!, groupId, client.deletedAt!));
+          }
+          break;
+        }
+
+        case 'invalidParentGoal': {
+          const { parentGoalId, ...rest } = goal!;
+          saveGoal({ ...rest, updatedAt: now });
+          break;
+        }
+
+        case 'orphanedTrial':
+          saveSession({
+            ...session!,
+            trials: session!.trials.filter((trial) => !isOrphanedTrial(trial, session!, goals)),
+          });
+          break;
+
+        case 'missingSessionGoal':
+          saveSession({ ...session!, goals: session!.goals.filter((goalId) => goals.has(goalId)) });
+          break;
+
+        case 'unlistedTrialGoal':
+          saveSession({
+            ...session!,
+            goals: [
+              ...session!.goals,
+              ...new Set(
+                session!.trials
+                  .filter((trial) => !isOrphanedTrial(trial, session!, goals))
+                  .map((trial) => trial.goalId)
+                  .filter((goalId) => !session!.goals.includes(goalId))
+              ),
+            ],
+          });
+          break;
+
+        case 'trialSessionId':
+          saveSession({
+            ...session!,
+            trials: session!.trials.map((trial) => ({ ...trial, sessionId: session!.id })),
+          });
+          break;
+
+        case 'accuracyMismatch':
+          saveGoal({
+            ...goal!,
+            currentAccuracy: expectedAccuracy(goal!, [...sessions.values()], defaultMethod),
+            updatedAt: now,
+          });
+          break;
+      }
+    });
+  });
+
+  return {
+    records: {
+      clients: [],
+      goals: [...changedGoals].map((id) => goals.get(id)!),
+      sessions: [...changedSessions].map((id) => sessions.get(id)!),
+    },
+    removed,
+    repaired,
+  };
+};
+
+// How many issues of each kind there are
+export const countIssues = (
+  issues: IntegrityIssue[]
+): Partial<Record<IntegrityIssueKind, number>> =>
+  issues.reduce<Partial<Record<IntegrityIssueKind, number>>>((counts, issue) => {
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+    return counts;
+  }, {});
@@ -0,0 +1,102 @@
+// Mastery criteria: when a goal has been reached often enough to call it
+// achieved
+//
+// One good session isn't mastery, so a goal is judged on its most recent
+// sessions, e.g. 80% in 3 consecutive sessions, or 90% in 2 of the last 3
+// with at least 20 trials each. Meeting the criteria only suggests marking
+// the goal achieved; the clinician decides.
+
+import { Goal, MasteryCriteria, Session } from '../types';
+import { calculateSessionStats } from '../utils/helpers';
+import { getGoalRollup, getObjectives } from './goalHierarchy';
+import { isDeleted } from './trash';
+
+export interface SessionMastery {
+  sessionId: string;
+  date: string;
+  trials: number;
+  accuracy: number;
+  meets: boolean;
+}
+
+export interface MasteryEvaluation {
+  criteria: MasteryCriteria;
+  sessions: SessionMastery[]; // the recent sessions judged, newest first
+  metCount: number;
+  isMet: boolean;
+}
+
+export const getMasteryCriteria = (goal: Goal, defaults: MasteryCriteria): MasteryCriteria =>
+  goal.mastery ?? defaults;
+
+// Newest first; sessions on the same date in the order they were made
+const newestFirst = (a: Session, b: Session) =>
+  b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt);
+
+export const evaluateMastery = (
+  goal: Goal,
+  sessions: Session[],
+  criteria: MasteryCriteria
+): MasteryEvaluation => {
+  const recent = sessions
+    .filter((session) => !isDeleted(session) && session.goals.includes(goal.id))
+    .sort(newestFirst)
+    .slice(0, criteria.outOfSessions)
+    .map((session): SessionMastery => {
+      const trials = session.trials.filter((trial) => trial.goalId === goal.id);
+      const counted = criteria.independentOnly
+        ? trials.map((trial) =>
+            trial.cueLevel === 'independent' ? trial : { ...trial, response: 'incorrect' as const }
+          )
+        : trials;
+      const { accuracy } = calculateSessionStats(counted);
+      return {
+        sessionId: session.id,
+        date: session.date,
+        trials: trials.length,
+        accuracy,
+        meets:
+          trials.length > 0 &&
+          trials.length >= criteria.minTrials &&
+          accuracy >= goal.targetAccuracy,
+      };
+    });
+
+  const metCount = recent.filter((session) => session.meets).length;
+  return { criteria, sessions: recent, metCount, isMet: metCount >= criteria.sessionsMet };
+};
+
+// Whether to suggest marking an active goal achieved. A long-term goal
+// with objectives is ready once every objective still being worked toward
+// has been achieved.
+export const shouldSuggestAchieved = (
+  goal: Goal,
+  goals: Goal[],
+  sessions: Session[],
+  defaults: MasteryCriteria
+): boolean => {
+  if (goal.status !== 'active') return false;
+  if (getObjectives(goal.id, goals).length > 0) {
+    const progress = getGoalRollup(goal, goals);
+    return progress.objectives > 0 && progress.achievedObjectives === progress.objectives;
+  }
+  return evaluateMastery(goal, sessions, getMasteryCriteria(goal, defaults)).isMet;
+};
+
+// e.g. "80% in 2 of the last 3 sessions, with at least 20 trials, independent only"
+export const describeMastery = (criteria: MasteryCriteria, targetAccuracy: number): string => {
+  const { sessionsMet, outOfSessions, minTrials, independentOnly } = criteria;
+  const sessions =
+    sessionsMet === outOfSessions
+      ? sessionsMet === 1
+        ? 'in a session'
+        : `in ${sessionsMet} consecutive sessions`
+      : `in ${sessionsMet} of the last ${outOfSessions} sessions`;
+  return [
+    `${targetAccuracy}% ${sessions}`,
+    minTrials > 0 && `with at least ${minTrials} trials`,
+    independentOnly && 'independent only',
+  ]
+    .filter(Boolean)
+    .join(', ');
+};
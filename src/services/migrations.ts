@@ -0,0 +1,106 @@
+// Schema migrations for persisted data
+//
+// Every change to the shape of a stored record gets a new entry in MIGRATIONS.
+// Entries run in order, each one taking the data from the previous version to
+// its own version. Migrations must be pure and safe to re-run, so the time
+// stamped on records that lack one is passed in rather than read from the clock.
+
+import { Client, Goal, Session, AppSettings } from '../types';
+import { DEFAULT_ACCURACY_METHOD, calculateGoalAccuracy, getAccuracyMethod } from './accuracy';
+import { isObject } from './validation';
+
+export interface StoredData {
+  clients: Client[];
+  goals: Goal[];
+  sessions: Session[];
+  settings: AppSettings | null;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StoredData, migratedAt: string) => StoredData;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Fill in fields missing from records saved before schema versioning',
+    migrate: (data, migratedAt) => ({
+      ...data,
+      clients: data.clients.map((client) => ({
+        ...client,
+        lastName: client.lastName ?? '',
+        dateOfBirth: client.dateOfBirth ?? '',
+        isActive: client.isActive ?? true,
+        createdAt: client.createdAt ?? migratedAt,
+        updatedAt: client.updatedAt ?? client.createdAt ?? migratedAt,
+      })),
+      goals: data.goals.map((goal) => ({
+        ...goal,
+        description: goal.description ?? '',
+        currentAccuracy: goal.currentAccuracy ?? 0,
+        status: goal.status ?? 'active',
+        category: goal.category ?? 'other',
+        createdAt: goal.createdAt ?? migratedAt,
+        updatedAt: goal.updatedAt ?? goal.createdAt ?? migratedAt,
+      })),
+      sessions: data.sessions.map((session) => ({
+        ...session,
+        goals: session.goals ?? [],
+        trials: session.trials ?? [],
+        createdAt: session.createdAt ?? session.date,
+      })),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Store each record under its own key with per-client indexes',
+    // Records keep their shape; storage.ts reads the old arrays and writes
+    // the new layout when moving from version 1
+    migrate: (data) => data,
+  },
+  {
+    version: 3,
+    description: 'Work out goal accuracy from trial history instead of a running average',
+    migrate: (data) => {
+      // Settings from before the field existed get the default method
+      const defaultMethod = data.settings?.accuracyMethod ?? DEFAULT_ACCURACY_METHOD;
+      // Backups are only validated once migrated, so leave out sessions
+      // too malformed to read; validation reports them afterwards
+      const sessions = data.sessions.filter(
+        (session) =>
+          typeof session.date === 'string' &&
+          typeof session.createdAt === 'string' &&
+          Array.isArray(session.goals) &&
+          Array.isArray(session.trials) &&
+          session.trials.every(isObject)
+      );
+      return {
+        ...data,
+        goals: data.goals.map((goal) => ({
+          ...goal,
+          currentAccuracy: calculateGoalAccuracy(
+            goal.id,
+            sessions,
+            getAccuracyMethod(goal, defaultMethod)
+          ),
+        })),
+      };
+    },
+  },
+];
+
+// The version written by this build of the app
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every migration newer than fromVersion, in order
+export const applyMigrations = (
+  data: StoredData,
+  fromVersion: number,
+  migratedAt: string
+): StoredData => {
+  return MIGRATIONS.filter((m) => m.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((acc, migration) => migration.migrate(acc, migratedAt), data);
+};
@@ -0,0 +1,200 @@
+// Search across clients, goals and sessions
+//
+// Every searchable field is folded once into an index: lower case, with
+// accents dropped, one character for one so match positions line up with
+// the original text. A record matches when each word of the query appears
+// in at least one of its fields.
+
+import { Client, Goal, Session } from '../types';
+import { formatSessionDate } from '../utils/helpers';
+import { BundleRecords } from './clientBundle';
+
+export type SearchResultKind = 'client' | 'goal' | 'session';
+
+// Parts of a snippet: [start, end) ranges of matched text
+export type HighlightRange = [number, number];
+
+export interface SearchSnippet {
+  field: string; // label of the field that matched
+  text: string;
+  highlights: HighlightRange[];
+}
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  clientId: string;
+  title: string;
+  titleHighlights: HighlightRange[];
+  subtitle: string;
+  snippets: SearchSnippet[];
+  date?: string; // sessions only, for ordering
+}
+
+export interface SearchResults {
+  clients: SearchResult[];
+  goals: SearchResult[];
+  sessions: SearchResult[];
+}
+
+interface IndexedField {
+  label: string;
+  text: string;
+  folded: string;
+}
+
+interface IndexedRecord {
+  kind: SearchResultKind;
+  id: string;
+  clientId: string;
+  title: IndexedField;
+  subtitle: string;
+  fields: IndexedField[];
+  date?: string;
+}
+
+export type SearchIndex = IndexedRecord[];
+
+// Queries shorter than this match too much to be useful
+export const MIN_QUERY_LENGTH = 2;
+
+// Text shown either side of a match in a long field
+const SNIPPET_CONTEXT = 40;
+
+// Fields shown for each result
+const MAX_SNIPPETS = 3;
+
+const fold = (text: string): string =>
+  text
+    .split('')
+    .map((char) => char.normalize('NFD').charAt(0).toLowerCase().charAt(0))
+    .join('');
+
+const field = (label: string, text: string | undefined): IndexedField[] =>
+  text?.trim() ? [{ label, text, folded: fold(text) }] : [];
+
+const clientName = (client: Client) => `${client.firstName} ${client.lastName}`.trim();
+
+export const buildSearchIndex = ({ clients, goals, sessions }: BundleRecords): SearchIndex => {
+  const clientNames = new Map(clients.map((client) => [client.id, clientName(client)]));
+
+  const indexClient = (client: Client): IndexedRecord => ({
+    kind: 'client',
+    id: client.id,
+    clientId: client.id,
+    title: { label: 'Name', text: clientName(client), folded: fold(clientName(client)) },
+    subtitle: client.diagnosis ?? '',
+    fields: [...field('Diagnosis', client.diagnosis), ...field('Notes', client.notes)],
+  });
+
+  const indexGoal = (goal: Goal): IndexedRecord => ({
+    kind: 'goal',
+    id: goal.id,
+    clientId: goal.clientId,
+    title: { label: 'Goal', text: goal.name, folded: fold(goal.name) },
+    subtitle: clientNames.get(goal.clientId) ?? '',
+    fields: field('Description', goal.description),
+  });
+
+  const indexSession = (session: Session): IndexedRecord => {
+    const title = `Session on ${formatSessionDate(session.date)}`;
+    // Prompts repeat from trial to trial; each is searched once
+    const prompts = [...new Set(session.trials.map((trial) => trial.prompt))];
+    return {
+      kind: 'session',
+      id: session.id,
+      clientId: session.clientId,
+      title: { label: 'Session', text: title, folded: fold(title) },
+      subtitle: clientNames.get(session.clientId) ?? '',
+      fields: [
+        ...field('Notes', session.notes),
+        ...prompts.flatMap((prompt) => field('Trial prompt', prompt)),
+        ...session.trials.flatMap((trial) => field('Trial notes', trial.notes)),
+      ],
+      date: session.date,
+    };
+  };
+
+  return [
+    ...clients.map(indexClient),
+    ...goals.map(indexGoal),
+    ...sessions.map(indexSession),
+  ];
+};
+
+const findRanges = (folded: string, terms: string[]): HighlightRange[] => {
+  const ranges: HighlightRange[] = [];
+  terms.forEach((term) => {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      ranges.push([from, from + term.length]);
+      from = folded.indexOf(term, from + term.length);
+    }
+  });
+
+  // Sorted, with overlapping ranges joined
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce<HighlightRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+// Long text cut down to the part around its first match
+const toSnippet = (indexed: IndexedField, ranges: HighlightRange[]): SearchSnippet => {
+  const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+  const end = Math.min(indexed.text.length, ranges[0][1] + SNIPPET_CONTEXT * 2);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < indexed.text.length ? '…' : '';
+  const shift = prefix.length - start;
+
+  return {
+    field: indexed.label,
+    text: `${prefix}${indexed.text.slice(start, end)}${suffix}`,
+    highlights: ranges
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + shift, to + shift]),
+  };
+};
+
+const byTitle = (a: SearchResult, b: SearchResult) => a.title.localeCompare(b.title);
+
+export const searchIndex = (index: SearchIndex, query: string): SearchResults => {
+  const results: SearchResults = { clients: [], goals: [], sessions: [] };
+  const terms = [...new Set(fold(query).split(/\s+/).filter(Boolean))];
+  if (query.trim().length < MIN_QUERY_LENGTH || terms.length === 0) return results;
+
+  index.forEach((record) => {
+    const all = [record.title, ...record.fields];
+    if (!terms.every((term) => all.some((f) => f.folded.includes(term)))) return;
+
+    const snippets = record.fields
+      .map((f) => ({ f, ranges: findRanges(f.folded, terms) }))
+      .filter(({ ranges }) => ranges.length > 0)
+      .slice(0, MAX_SNIPPETS)
+      .map(({ f, ranges }) => toSnippet(f, ranges));
+
+    const result: SearchResult = {
+      kind: record.kind,
+      id: record.id,
+      clientId: record.clientId,
+      title: record.title.text,
+      titleHighlights: findRanges(record.title.folded, terms),
+      subtitle: record.subtitle,
+      snippets,
+      date: record.date,
+    };
+    results[`${record.kind}s` as keyof SearchResults].push(result);
+  });
+
+  results.clients.sort(byTitle);
+  results.goals.sort(byTitle);
+  results.sessions.sort((a, b) => b.date!.localeCompare(a.date!));
+  return results;
+};
@@ -0,0 +1,14 @@
+// SQLite on iOS and Android, through expo-sqlite
+
+import { openDatabaseAsync } from 'expo-sqlite';
+import type { SQLiteConnection } from './storageAdapters';
+
+export const openSQLiteConnection = async (name: string): Promise<SQLiteConnection | null> => {
+  const database = await openDatabaseAsync(`${name}.db`);
+  return {
+    execute: async (sql, params = []) => {
+      await database.runAsync(sql, params);
+    },
+    select: (sql, params = []) => database.getAllAsync(sql, params),
+  };
+};
@@ -0,0 +1,21 @@
+// SQLite on web builds: only inside the desktop app, through the Tauri SQL
+// plugin. A plain browser gets null and uses IndexedDB instead.
+//
+// Native builds load sqliteConnection.native.ts in place of this file.
+
+import { isTauri } from '@tauri-apps/api/core';
+import Database from '@tauri-apps/plugin-sql';
+import type { SQLiteConnection } from './storageAdapters';
+
+// Stored in the app's config directory
+export const openSQLiteConnection = async (name: string): Promise<SQLiteConnection | null> => {
+  if (!isTauri()) return null;
+
+  const database = await Database.load(`sqlite:${name}.db`);
+  return {
+    execute: async (sql, params = []) => {
+      await database.execute(sql, params);
+    },
+    select: (sql, params = []) => database.select(sql, params),
+  };
+};
@@ -1,80 +1,783 @@
-// AsyncStorage service for persistent data
+// Storage service for persistent data, encrypted at rest
+//
+// Values live in a key-value backend from storageAdapters.ts: SQLite on
+// native and the desktop app, IndexedDB in the browser.
+//
+// Each client, goal and session is stored under its own key. Id lists for
+// every collection, and for each client's goals and sessions, are kept in
+// index keys so saving one record only rewrites that record and its indexes.
 
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Client, Goal, Session, AppSettings } from '../types';
+import {
+  Client,
+  Goal,
+  Session,
+  AccuracyMethod,
+  AppSettings,
+  AuditEntry,
+  AuditSource,
+  AuditEntityType,
+  GoalAlertState,
+  SyncChange,
+  SyncEntityType,
+  SyncMeta,
+  SyncState,
+} from '../types';
+import { generateId } from '../utils/helpers';
+import { CURRENT_SCHEMA_VERSION, StoredData, applyMigrations } from './migrations';
+import { ImportMode, ImportPreview, parseBackup, mergeData } from './backup';
+import { ValidationIssue } from './validation';
+import {
+  BundleImportResult,
+  BundleRecords,
+  createClientBundle,
+  isClientBundle,
+  parseClientBundle,
+  rekeyClientBundle,
+} from './clientBundle';
+import {
+  TrashGroup,
+  isDeleted,
+  deletionGroupOf,
+  markDeleted,
+  clearDeleted,
+  buildTrashGroups,
+  findExpiredGroups,
+} from './trash';
+import { createFhirBundle, parseFhirBundle } from './fhir';
+import {
+  IntegrityIssueKind,
+  IntegrityReport,
+  IntegrityRepair,
+  checkIntegrity,
+  repairIntegrity,
+} from './integrity';
+import {
+  DEFAULT_ACCURACY_METHOD,
+  isSameAccuracyMethod,
+  recalculateGoals,
+} from './accuracy';
+import { AuditOrigin, createAuditEntry } from './audit';
+import { defaultFieldTimestamps, diffFieldNames, mergeSyncChange, touchSyncMeta } from './sync';
+import { StorageAdapter, asyncStorageAdapter, openPreferredAdapter } from './storageAdapters';
+import {
+  EncryptionKey,
+  EncryptionMetadata,
+  createKeyDerivation,
+  createMetadata,
+  deriveKey,
+  verifyKey,
+  encryptString,
+  decryptString,
+  isEncryptedPayload,
+  isEncryptedBackup,
+  encryptBackup,
+  decryptBackup,
+  createRandomSecret,
+} from './encryption';
+
+// Every data key starts with this, so the app's keys can be found in bulk
+const KEY_PREFIX = '@speech_therapy_';
 
 const STORAGE_KEYS = {
+  SETTINGS: '@speech_therapy_settings',
+  SCHEMA_VERSION: '@speech_therapy_schema_version',
+};
+
+// Not data: never encrypted, and survive "Clear All Data"
+const ENCRYPTION_METADATA_KEY = '@speech_therapy_encryption';
+const LOCKOUT_KEY = '@speech_therapy_lockout';
+const BACKEND_KEY = '@speech_therapy_backend';
+// A batch being written where multiSet isn't atomic; see multiSetAtomic
+const JOURNAL_KEY = '@speech_therapy_journal';
+
+// Kept in AsyncStorage: the backend the data lives in once it has one
+const DATA_BACKEND_KEY = '@speech_therapy_data_backend';
+
+// Up to schema 1 each collection was one array under a single key
+const LEGACY_KEYS = {
   CLIENTS: '@speech_therapy_clients',
   GOALS: '@speech_therapy_goals',
   SESSIONS: '@speech_therapy_sessions',
-  SETTINGS: '@speech_therapy_settings',
 };
+const LEGACY_LAYOUT_VERSION = 1;
+
+// The audit log is stored in pages so appending only rewrites the last one
+const AUDIT_HEAD_KEY = '@speech_therapy_audit_head';
+const AUDIT_PAGE_PREFIX = '@speech_therapy_audit_page:';
+const AUDIT_PAGE_SIZE = 200;
+
+const isAuditKey = (key: string): boolean =>
+  key === AUDIT_HEAD_KEY || key.startsWith(AUDIT_PAGE_PREFIX);
+
+// Sync configuration and progress, per-record field timestamps, and the
+// records changed since the last push
+const SYNC_STATE_KEY = '@speech_therapy_sync_state';
+const SYNC_META_PREFIX = '@speech_therapy_sync_meta:';
+const SYNC_PENDING_KEY = '@speech_therapy_sync_pending';
+
+const isSyncKey = (key: string): boolean =>
+  key === SYNC_STATE_KEY || key === SYNC_PENDING_KEY || key.startsWith(SYNC_META_PREFIX);
+
+// Dismissed and snoozed goal alerts, by alert id
+const ALERT_STATES_KEY = '@speech_therapy_alert_states';
+
+// The passphrase automatic backups are encrypted with. Encrypted like data,
+// but kept when data is cleared or replaced so earlier backups still open.
+const BACKUP_PASSPHRASE_KEY = '@speech_therapy_backup_passphrase';
+const PSEUDONYM_KEY = '@speech_therapy_pseudonym_key';
+
+// Made once and kept through replacing or clearing data: older backups
+// must still open, and clients must keep their pseudonyms
+const KEPT_SECRET_KEYS = new Set([BACKUP_PASSPHRASE_KEY, PSEUDONYM_KEY]);
+
+const isDataKey = (key: string): boolean =>
+  key.startsWith(KEY_PREFIX) && key !== ENCRYPTION_METADATA_KEY &&
+  key !== LOCKOUT_KEY &&
+  key !== BACKEND_KEY &&
+  key !== JOURNAL_KEY &&
+  key !== DATA_BACKEND_KEY;
 
 // Default app settings
-const DEFAULT_SETTINGS: AppSettings = {
+export const DEFAULT_SETTINGS: AppSettings = {
   defaultSessionDuration: 30,
   defaultTargetAccuracy: 80,
   enableNotifications: true,
   theme: 'system',
   cueLevels: ['independent', 'verbal_cue', 'visual_cue', 'model', 'partial_physical', 'full_physical'],
   responseOptions: ['correct', 'incorrect', 'approximation', 'no_response'],
+  autoLockMinutes: 5,
+  trashRetentionDays: 30,
+  autoBackupFrequency: 'daily',
+  autoBackupSessionInterval: 0,
+  autoBackupKeep: 7,
+  autoBackupFolder: '',
+  defaultMastery: { sessionsMet: 3, outOfSessions: 3, minTrials: 0, independentOnly: false },
+  accuracyMethod: DEFAULT_ACCURACY_METHOD,
+  trendWindow: 8,
+};
+
+// Values are encrypted with the unlocked passcode key; plaintext values left
+// from before encryption still read.
+function decodeValue<T>(storedValue: string): T {
+  if (!isEncryptedPayload(storedValue)) return JSON.parse(storedValue);
+
+  const encryptionKey = EncryptionKey.get();
+  if (!encryptionKey) {
+    throw new Error('Storage is locked');
+  }
+  return JSON.parse(decryptString(encryptionKey, storedValue));
+}
+
+function encodeValue(value: unknown): string {
+  const encryptionKey = EncryptionKey.get();
+  if (!encryptionKey) {
+    // Never write client data in the clear
+    throw new Error('Storage is locked');
+  }
+  return encryptString(encryptionKey, JSON.stringify(value));
+}
+
+// Before the storage backends, everything was kept in AsyncStorage. The first
+// time another backend opens, every app key is copied over as stored (still
+// encrypted, so this runs before unlocking) and then removed from
+// AsyncStorage. BACKEND_KEY is written with the copy, so a move interrupted
+// before the removal just finishes the removal next time. Only keys the
+// backend holds with the same value count as moved; anything else is left
+// in AsyncStorage rather than lost.
+async function moveFromAsyncStorage(
+  backend: StorageAdapter,
+  dataBackend: string | null
+): Promise<void> {
+  const keys = (await asyncStorageAdapter.getAllKeys()).filter(
+    (key) => key.startsWith(KEY_PREFIX) && key !== DATA_BACKEND_KEY
+  );
+  const entries = (await asyncStorageAdapter.multiGet(keys)).filter(
+    (entry): entry is [string, string] => entry[1] != null
+  );
+
+  if (entries.length > 0) {
+    const [[, moved]] = await backend.multiGet([BACKEND_KEY]);
+    if (moved == null) {
+      await backend.multiSet([
+        ...entries,
+        [BACKEND_KEY, JSON.stringify({ movedFrom: 'asyncStorage', movedAt: new Date().toISOString() })],
+      ]);
+    }
+  }
+
+  // From here on, failing to open the backend must not fall back
+  if (dataBackend !== backend.name) {
+    await asyncStorageAdapter.multiSet([[DATA_BACKEND_KEY, backend.name]]);
+  }
+
+  const stored = new Map(await backend.multiGet(entries.map(([key]) => key)));
+  const copied = entries.filter(([key, value]) => stored.get(key) === value).map(([key]) => key);
+  if (copied.length < entries.length) {
+    console.warn(
+      `Left ${entries.length - copied.length} values in AsyncStorage that differ from the ${backend.name} copy`
+    );
+  }
+  await asyncStorageAdapter.multiRemove(copied);
+}
+
+// Finish a batch the app stopped partway through writing
+async function replayJournal(adapter: StorageAdapter): Promise<void> {
+  const [[, journal]] = await adapter.multiGet([JOURNAL_KEY]);
+  if (journal == null) return;
+  await adapter.multiSet(JSON.parse(journal));
+  await adapter.multiRemove([JOURNAL_KEY]);
+}
+
+async function openBackend(): Promise<StorageAdapter> {
+  // Before anything reads AsyncStorage or moves it elsewhere
+  await replayJournal(asyncStorageAdapter);
+  const backend = await openPreferredAdapter();
+  const [[, dataBackend]] = await asyncStorageAdapter.multiGet([DATA_BACKEND_KEY]);
+
+  // The data is somewhere else. Carrying on would show an empty app, ask for
+  // a new passcode and keep new records where the next move would drop them.
+  if (dataBackend && dataBackend !== backend.name) {
+    throw new Error(
+      `The ${dataBackend} storage holding your data could not be opened. Nothing has been changed; restart the app to try again.`
+    );
+  }
+  if (backend === asyncStorageAdapter) return backend;
+
+  try {
+    await moveFromAsyncStorage(backend, dataBackend);
+    return backend;
+  } catch (error) {
+    console.error('Error moving data to the new storage backend:', error);
+    // Once the copy is recorded the data is in the backend, and clearing
+    // AsyncStorage is retried next start. Before that, keep using
+    // AsyncStorage, where the data still is.
+    const [[, movedTo]] = await asyncStorageAdapter.multiGet([DATA_BACKEND_KEY]);
+    return movedTo === backend.name ? backend : asyncStorageAdapter;
+  }
+}
+
+// Opened on first use
+let backendPromise: Promise<StorageAdapter> | null = null;
+
+const getBackend = (): Promise<StorageAdapter> => {
+  if (!backendPromise) backendPromise = openBackend();
+  return backendPromise;
 };
 
+export const getStorageBackendName = async (): Promise<StorageAdapter['name']> =>
+  (await getBackend()).name;
+
 // Generic storage functions
+// Null only when nothing is stored under key. A value that can't be read
+// throws, so a write that depends on it is abandoned rather than made as if
+// the value were missing.
 async function getItem<T>(key: string): Promise<T | null> {
+  const [[, storedValue]] = await (await getBackend()).multiGet([key]);
+  return storedValue == null ? null : decodeValue<T>(storedValue);
+}
+
+// Missing records are skipped, and so are ones that can't be decrypted, so
+// one damaged record doesn't hide the rest. A failed read throws.
+async function getItems<T>(keys: string[]): Promise<T[]> {
+  if (keys.length === 0) return [];
+  const entries = await (await getBackend()).multiGet(keys);
+  const values: T[] = [];
+  for (const [key, storedValue] of entries) {
+    if (storedValue == null) continue;
+    try {
+      values.push(decodeValue<T>(storedValue));
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+    }
+  }
+  return values;
+}
+
+// Like getItem for several keys, keyed by storage key; missing ones are
+// left out
+async function getItemMap<T>(keys: string[]): Promise<Map<string, T>> {
+  const values = new Map<string, T>();
+  if (keys.length === 0) return values;
+  const entries = await (await getBackend()).multiGet(keys);
+  for (const [key, storedValue] of entries) {
+    if (storedValue != null) values.set(key, decodeValue<T>(storedValue));
+  }
+  return values;
+}
+
+// Set stored strings all or none. Where the backend's multiSet isn't atomic
+// the batch is saved whole under JOURNAL_KEY first, and finished when storage
+// is next opened if the app stops before it's applied. That holds if applying
+// it fails now, too.
+async function multiSetAtomic(entries: [string, string][]): Promise<void> {
+  const backend = await getBackend();
+  if (backend.atomic || entries.length <= 1) {
+    await backend.multiSet(entries);
+    return;
+  }
+  await backend.multiSet([[JOURNAL_KEY, JSON.stringify(entries)]]);
+  await backend.multiSet(entries);
+  await backend.multiRemove([JOURNAL_KEY]);
+}
+
+// Written all or none
+async function setItems(entries: [string, unknown][]): Promise<boolean> {
+  if (entries.length === 0) return true;
   try {
-    const jsonValue = await AsyncStorage.getItem(key);
-    return jsonValue != null ? JSON.parse(jsonValue) : null;
+    await multiSetAtomic(entries.map(([key, value]) => [key, encodeValue(value)]));
+    return true;
   } catch (error) {
-    console.error(`Error reading ${key}:`, error);
-    return null;
+    console.error(`Error saving ${entries.length} values:`, error);
+    return false;
   }
 }
 
-async function setItem<T>(key: string, value: T): Promise<boolean> {
+async function removeItems(keys: string[]): Promise<boolean> {
+  if (keys.length === 0) return true;
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(value));
+    await (await getBackend()).multiRemove(keys);
     return true;
   } catch (error) {
-    console.error(`Error saving ${key}:`, error);
+    console.error(`Error removing ${keys.length} values:`, error);
     return false;
   }
 }
 
+async function getDataKeys(): Promise<string[]> {
+  const keys = await (await getBackend()).getAllKeys();
+  return keys.filter(isDataKey);
+}
+
+// Read every data key as plaintext JSON with the active key
+async function readAllRaw(): Promise<[string, string][]> {
+  const entries = await (await getBackend()).multiGet(await getDataKeys());
+  const encryptionKey = EncryptionKey.get();
+  return entries
+    .filter((entry): entry is [string, string] => entry[1] != null)
+    .map(([key, value]) => {
+      if (!isEncryptedPayload(value)) return [key, value];
+      if (!encryptionKey) throw new Error('Storage is locked');
+      return [key, decryptString(encryptionKey, value)];
+    });
+}
+
+// All writes run one at a time, in the order they were requested. Without
+// this two overlapping saves both read the same index and the second one
+// drops the first one's id.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function serialize<T>(write: () => Promise<T>): Promise<T> {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+// A set of writes ready to commit: values to set, then keys to remove
+interface WritePlan {
+  entries: [string, unknown][];
+  removedKeys: string[];
+}
+
+// Values and indexes land together, all or none (see multiSetAtomic). Keys
+// left over from deletes go afterwards; by then no index points at them, so
+// failing to remove one loses nothing.
+async function commitWrites({ entries, removedKeys }: WritePlan): Promise<boolean> {
+  if (!(await setItems(entries))) return false;
+  await removeItems(removedKeys);
+  return true;
+}
+
+// Keys and indexes for one record type. getClientId is given for records
+// that belong to a client, to keep the per-client index.
+const createRecordStore = <T extends { id: string }>(
+  collection: string,
+  getClientId?: (record: T) => string
+) => {
+  const recordKey = (id: string) => `${KEY_PREFIX}${collection}:${id}`;
+  const indexKey = `${KEY_PREFIX}index:${collection}`;
+  const clientIndexKey = (clientId: string) => `${KEY_PREFIX}index:${collection}:client:${clientId}`;
+
+  const getIds = async (): Promise<string[]> => (await getItem<string[]>(indexKey)) || [];
+
+  const getClientIds = async (clientId: string): Promise<string[]> =>
+    (await getItem<string[]>(clientIndexKey(clientId))) || [];
+
+  return {
+    getIds,
+    getClientIds,
+
+    async getAll(): Promise<T[]> {
+      return getItems<T>((await getIds()).map(recordKey));
+    },
+
+    getById(id: string): Promise<T | null> {
+      return getItem<T>(recordKey(id));
+    },
+
+    getByIds(ids: string[]): Promise<T[]> {
+      return getItems<T>(ids.map(recordKey));
+    },
+
+    async getByClientId(clientId: string): Promise<T[]> {
+      return getItems<T>((await getClientIds(clientId)).map(recordKey));
+    },
+
+    // Work out the writes for a batch of changes, keyed by id (null deletes)
+    async plan(changes: Map<string, T | null>): Promise<WritePlan> {
+      const plan: WritePlan = { entries: [], removedKeys: [] };
+      if (changes.size === 0) return plan;
+
+      const ids = await getIds();
+      const existing = new Set(ids);
+      const added: string[] = [];
+      const deleted = new Set<string>();
+
+      changes.forEach((record, id) => {
+        if (record) {
+          plan.entries.push([recordKey(id), record]);
+          if (!existing.has(id)) added.push(id);
+        } else {
+          plan.removedKeys.push(recordKey(id));
+          deleted.add(id);
+        }
+      });
+
+      if (added.length > 0 || deleted.size > 0) {
+        plan.entries.push([indexKey, [...ids.filter((id) => !deleted.has(id)), ...added]]);
+      }
+
+      if (getClientId) {
+        // Which client each changed record belonged to before this batch
+        const changedIds = [...changes.keys()].filter((id) => existing.has(id));
+        const previous = await getItems<T>(changedIds.map(recordKey));
+        const previousClientIds = new Map(previous.map((record) => [record.id, getClientId(record)]));
+
+        const moves = new Map<string, { added: string[]; removed: Set<string> }>();
+        const movesFor = (clientId: string) => {
+          if (!moves.has(clientId)) moves.set(clientId, { added: [], removed: new Set() });
+          return moves.get(clientId)!;
+        };
+
+        changes.forEach((record, id) => {
+          const from = previousClientIds.get(id);
+          const to = record ? getClientId(record) : undefined;
+          if (from === to) return;
+          if (from) movesFor(from).removed.add(id);
+          if (to) movesFor(to).added.push(id);
+        });
+
+        for (const [clientId, move] of moves) {
+          const current = await getClientIds(clientId);
+          const present = new Set(current);
+          const next = [
+            ...current.filter((id) => !move.removed.has(id)),
+            ...move.added.filter((id) => !present.has(id)),
+          ];
+          if (next.length > 0) {
+            plan.entries.push([clientIndexKey(clientId), next]);
+          } else {
+            plan.removedKeys.push(clientIndexKey(clientId));
+          }
+        }
+      }
+
+      return plan;
+    },
+
+    // Every key needed to store exactly these records, indexes included
+    entriesFor(records: T[]): [string, unknown][] {
+      const entries: [string, unknown][] = records.map((record) => [recordKey(record.id), record]);
+      entries.push([indexKey, records.map((record) => record.id)]);
+
+      if (getClientId) {
+        const byClient = new Map<string, string[]>();
+        for (const record of records) {
+          const clientId = getClientId(record);
+          byClient.set(clientId, [...(byClient.get(clientId) || []), record.id]);
+        }
+        byClient.forEach((ids, clientId) => entries.push([clientIndexKey(clientId), ids]));
+      }
+
+      return entries;
+    },
+  };
+};
+
+// Work out the writes that append entries to the audit log
+const planAuditAppend = async (newEntries: AuditEntry[]): Promise<WritePlan> => {
+  const plan: WritePlan = { entries: [], removedKeys: [] };
+  if (newEntries.length === 0) return plan;
+
+  const pageCount = (await getItem<number>(AUDIT_HEAD_KEY)) || 0;
+  let pageIndex = Math.max(0, pageCount - 1);
+  let page = pageCount > 0 ? (await getItem<AuditEntry[]>(`${AUDIT_PAGE_PREFIX}${pageIndex}`)) || [] : [];
+
+  for (const entry of newEntries) {
+    if (page.length >= AUDIT_PAGE_SIZE) {
+      plan.entries.push([`${AUDIT_PAGE_PREFIX}${pageIndex}`, page]);
+      pageIndex += 1;
+      page = [];
+    }
+    page = [...page, entry];
+  }
+  plan.entries.push([`${AUDIT_PAGE_PREFIX}${pageIndex}`, page]);
+  plan.entries.push([AUDIT_HEAD_KEY, pageIndex + 1]);
+
+  return plan;
+};
+
+// Audit log operations. There is deliberately no way to edit or remove
+// entries.
+export const AuditStorage = {
+  // Oldest first
+  async getAll(): Promise<AuditEntry[]> {
+    const pageCount = (await getItem<number>(AUDIT_HEAD_KEY)) || 0;
+    const keys = Array.from({ length: pageCount }, (_, index) => `${AUDIT_PAGE_PREFIX}${index}`);
+    const pages = await getItems<AuditEntry[]>(keys);
+    return pages.flat();
+  },
+};
+
+const clientRecords = createRecordStore<Client>('client');
+const goalRecords = createRecordStore<Goal>('goal', (goal) => goal.clientId);
+const sessionRecords = createRecordStore<Session>('session', (session) => session.clientId);
+
+// Changes staged by runTransaction. Nothing is written until the stage
+// function returns.
+export interface Transaction {
+  saveClient: (client: Client) => void;
+  deleteClient: (id: string) => void;
+  saveGoal: (goal: Goal) => void;
+  deleteGoal: (id: string) => void;
+  saveSession: (session: Session) => void;
+  deleteSession: (id: string) => void;
+  saveSettings: (settings: AppSettings) => void;
+  // Add entries made elsewhere (from a backup) to the audit log
+  appendAuditEntries: (entries: AuditEntry[]) => void;
+  // Audit the changes as received from the sync server or read from a file,
+  // rather than made on this device
+  setAuditSource: (source: AuditSource) => void;
+  // Set a record's sync metadata outright (null removes it) instead of
+  // stamping the fields this transaction changes. Used when applying
+  // changes from the sync server.
+  setSyncMeta: (entityType: SyncEntityType, id: string, meta: SyncMeta | null) => void;
+}
+
+// Staged changes to one record type, with the records as they are stored now
+interface RecordChanges<T extends Client | Goal | Session> {
+  entityType: SyncEntityType;
+  changes: Map<string, T | null>;
+  previous: Map<string, T>;
+}
+
+const loadRecordChanges = async <T extends Client | Goal | Session>(
+  entityType: SyncEntityType,
+  store: { getByIds: (ids: string[]) => Promise<T[]> },
+  changes: Map<string, T | null>
+): Promise<RecordChanges<T>> => ({
+  entityType,
+  changes,
+  previous: new Map((await store.getByIds([...changes.keys()])).map((record) => [record.id, record])),
+});
+
+// Audit entries for staged changes to one record type
+const auditChanges = <T extends Client | Goal | Session>(
+  { entityType, changes, previous }: RecordChanges<T>,
+  timestamp: string,
+  origin: AuditOrigin
+): AuditEntry[] => {
+  const entries: AuditEntry[] = [];
+  changes.forEach((record, id) => {
+    const entry = createAuditEntry(
+      entityType,
+      id,
+      previous.get(id) ?? null,
+      record,
+      timestamp,
+      origin
+    );
+    if (entry) entries.push(entry);
+  });
+  return entries;
+};
+
+const syncMetaId = (entityType: SyncEntityType, id: string) => `${entityType}:${id}`;
+
+// Work out the writes that record staged changes for sync: new field
+// timestamps for whatever changed, and the pending list
+const planSyncMeta = async (
+  recordChanges: RecordChanges<Client | Goal | Session>[],
+  staged: Map<string, SyncMeta | null>,
+  timestamp: string
+): Promise<WritePlan> => {
+  const plan: WritePlan = { entries: [], removedKeys: [] };
+  const updates = new Map(staged);
+
+  for (const { entityType, changes, previous } of recordChanges) {
+    const ids = [...changes.keys()].filter((id) => !staged.has(syncMetaId(entityType, id)));
+    const existing = await getItemMap<SyncMeta>(
+      ids.map((id) => `${SYNC_META_PREFIX}${syncMetaId(entityType, id)}`)
+    );
+    ids.forEach((id) => {
+      const metaId = syncMetaId(entityType, id);
+      const meta = touchSyncMeta(
+        existing.get(`${SYNC_META_PREFIX}${metaId}`) ?? null,
+        previous.get(id) ?? null,
+        changes.get(id) ?? null,
+        timestamp
+      );
+      if (meta) updates.set(metaId, meta);
+    });
+  }
+  if (updates.size === 0) return plan;
+
+  const pending = new Set((await getItem<string[]>(SYNC_PENDING_KEY)) || []);
+  updates.forEach((meta, metaId) => {
+    if (meta) {
+      plan.entries.push([`${SYNC_META_PREFIX}${metaId}`, meta]);
+    } else {
+      plan.removedKeys.push(`${SYNC_META_PREFIX}${metaId}`);
+    }
+    if (meta?.pending) {
+      pending.add(metaId);
+    } else {
+      pending.delete(metaId);
+    }
+  });
+  plan.entries.push([SYNC_PENDING_KEY, [...pending]]);
+
+  return plan;
+};
+
+// Stage changes across collections and commit them all or none, along with
+// their audit log entries and sync metadata. Goals whose sessions change get
+// their accuracy worked out again here, whichever path wrote the sessions.
+// stage may read storage but must not call the write methods below (they
+// would wait on this transaction forever); returning false abandons the
+// transaction.
+export const runTransaction = (
+  stage: (tx: Transaction) => void | boolean | Promise<void | boolean>
+): Promise<boolean> => {
+  return serialize(async () => {
+    try {
+      const clients = new Map<string, Client | null>();
+      const goals = new Map<string, Goal | null>();
+      const sessions = new Map<string, Session | null>();
+      let settings: AppSettings | null = null;
+      const importedAuditEntries: AuditEntry[] = [];
+      let auditSource: AuditSource = 'local';
+      const syncMeta = new Map<string, SyncMeta | null>();
+
+      const tx: Transaction = {
+        saveClient: (client) => clients.set(client.id, client),
+        deleteClient: (id) => clients.set(id, null),
+        saveGoal: (goal) => goals.set(goal.id, goal),
+        deleteGoal: (id) => goals.set(id, null),
+        saveSession: (session) => sessions.set(session.id, session),
+        deleteSession: (id) => sessions.set(id, null),
+        saveSettings: (newSettings) => {
+          settings = newSettings;
+        },
+        appendAuditEntries: (entries) => {
+          importedAuditEntries.push(...entries);
+        },
+        setAuditSource: (source) => {
+          auditSource = source;
+        },
+        setSyncMeta: (entityType, id, meta) => syncMeta.set(syncMetaId(entityType, id), meta),
+      };
+
+      if ((await stage(tx)) === false) return false;
+      await stageSessionGoalAccuracy(tx, goals, sessions, settings);
+
+      const timestamp = new Date().toISOString();
+      // The device id lives in the sync state, made here if nothing has yet
+      const storedSyncState = await getItem<SyncState>(SYNC_STATE_KEY);
+      const syncState = storedSyncState ?? createSyncState();
+      const origin: AuditOrigin = { source: auditSource, deviceId: syncState.deviceId };
+      const recordChanges: RecordChanges<Client | Goal | Session>[] = [
+        await loadRecordChanges('client', clientRecords, clients),
+        await loadRecordChanges('goal', goalRecords, goals),
+        await loadRecordChanges('session', sessionRecords, sessions),
+      ];
+      const auditEntries = [
+        ...importedAuditEntries,
+        ...recordChanges.flatMap((changes) => auditChanges(changes, timestamp, origin)),
+      ];
+      if (settings) {
+        const previousSettings = await getItem<AppSettings>(STORAGE_KEYS.SETTINGS);
+        const entry = createAuditEntry(
+          'settings',
+          'settings',
+          previousSettings,
+          settings,
+          timestamp,
+          origin
+        );
+        if (entry) auditEntries.push(entry);
+      }
+
+      const plans = [
+        await clientRecords.plan(clients),
+        await goalRecords.plan(goals),
+        await sessionRecords.plan(sessions),
+        await planAuditAppend(auditEntries),
+        await planSyncMeta(recordChanges, syncMeta, timestamp),
+      ];
+      const entries = plans.flatMap((plan) => plan.entries);
+      if (settings) {
+        entries.push([STORAGE_KEYS.SETTINGS, settings]);
+      }
+      if (!storedSyncState) {
+        entries.push([SYNC_STATE_KEY, syncState]);
+      }
+
+      return commitWrites({ entries, removedKeys: plans.flatMap((plan) => plan.removedKeys) });
+    } catch (error) {
+      console.error('Error committing transaction:', error);
+      return false;
+    }
+  });
+};
+
+const byDateDescending = (a: Session, b: Session) =>
+  new Date(b.date).getTime() - new Date(a.date).getTime();
+
 // Client operations
 export const ClientStorage = {
   async getAll(): Promise<Client[]> {
-    const clients = await getItem<Client[]>(STORAGE_KEYS.CLIENTS);
-    return clients || [];
+    return clientRecords.getAll();
   },
 
   async getById(id: string): Promise<Client | null> {
-    const clients = await this.getAll();
-    return clients.find((c) => c.id === id) || null;
+    return clientRecords.getById(id);
   },
 
   async save(client: Client): Promise<boolean> {
-    const clients = await this.getAll();
-    const existingIndex = clients.findIndex((c) => c.id === client.id);
-
-    if (existingIndex >= 0) {
-      clients[existingIndex] = { ...client, updatedAt: new Date().toISOString() };
-    } else {
-      clients.push(client);
-    }
-
-    return setItem(STORAGE_KEYS.CLIENTS, clients);
+    return runTransaction(async (tx) => {
+      const exists = (await clientRecords.getIds()).includes(client.id);
+      tx.saveClient(exists ? { ...client, updatedAt: new Date().toISOString() } : client);
+    });
   },
 
+  // Moves the client to the trash with its goals and sessions, as one group
+  // that is restored together
   async delete(id: string): Promise<boolean> {
-    const clients = await this.getAll();
-    const filtered = clients.filter((c) => c.id !== id);
+    return runTransaction(async (tx) => {
+      const client = await clientRecords.getById(id);
+      if (!client) return false;
 
-    // Also delete related goals and sessions
-    await GoalStorage.deleteByClientId(id);
-    await SessionStorage.deleteByClientId(id);
+      const deletedAt = new Date().toISOString();
+      tx.saveClient(markDeleted({ ...client, updatedAt: deletedAt }, id, deletedAt));
 
-    return setItem(STORAGE_KEYS.CLIENTS, filtered);
+      // Anything already in the trash stays in the group it was deleted with
+      (await goalRecords.getByClientId(id))
+        .filter((goal) => !isDeleted(goal))
+        .forEach((goal) => tx.saveGoal(markDeleted({ ...goal, updatedAt: deletedAt }, id, deletedAt)));
+      (await sessionRecords.getByClientId(id))
+        .filter((session) => !isDeleted(session))
+        .forEach((session) => tx.saveSession(markDeleted(session, id, deletedAt)));
+    });
   },
 
   async getActive(): Promise<Client[]> {
@@ -86,18 +789,15 @@ export const ClientStorage = {
 // Goal operations
 export const GoalStorage = {
   async getAll(): Promise<Goal[]> {
-    const goals = await getItem<Goal[]>(STORAGE_KEYS.GOALS);
-    return goals || [];
+    return goalRecords.getAll();
   },
 
   async getById(id: string): Promise<Goal | null> {
-    const goals = await this.getAll();
-    return goals.find((g) => g.id === id) || null;
+    return goalRecords.getById(id);
   },
 
   async getByClientId(clientId: string): Promise<Goal[]> {
-    const goals = await this.getAll();
-    return goals.filter((g) => g.clientId === clientId);
+    return goalRecords.getByClientId(clientId);
   },
 
   async getActiveByClientId(clientId: string): Promise<Goal[]> {
@@ -105,100 +805,219 @@ export const GoalStorage = {
     return goals.filter((g) => g.status === 'active');
   },
 
+  // Accuracy comes from the goal's history, whatever the goal arrives with,
+  // so a new accuracy method takes effect as it's saved
   async save(goal: Goal): Promise<boolean> {
-    const goals = await this.getAll();
-    const existingIndex = goals.findIndex((g) => g.id === goal.id);
-
-    if (existingIndex >= 0) {
-      goals[existingIndex] = { ...goal, updatedAt: new Date().toISOString() };
-    } else {
-      goals.push(goal);
-    }
-
-    return setItem(STORAGE_KEYS.GOALS, goals);
+    return runTransaction(async (tx) => {
+      const exists = (await goalRecords.getIds()).includes(goal.id);
+      const saved = exists ? { ...goal, updatedAt: new Date().toISOString() } : goal;
+      tx.saveGoal(saved);
+      stageGoalAccuracy(
+        tx,
+        [saved],
+        await sessionRecords.getByClientId(goal.clientId),
+        (await SettingsStorage.get()).accuracyMethod
+      );
+    });
   },
 
+  // Moves the goal to the trash. Sessions that worked on it are kept.
   async delete(id: string): Promise<boolean> {
-    const goals = await this.getAll();
-    const filtered = goals.filter((g) => g.id !== id);
-    return setItem(STORAGE_KEYS.GOALS, filtered);
-  },
+    return runTransaction(async (tx) => {
+      const goal = await goalRecords.getById(id);
+      if (!goal) return false;
+
+      const deletedAt = new Date().toISOString();
+      tx.saveGoal(markDeleted({ ...goal, updatedAt: deletedAt }, id, deletedAt));
 
-  async deleteByClientId(clientId: string): Promise<boolean> {
-    const goals = await this.getAll();
-    const filtered = goals.filter((g) => g.clientId !== clientId);
-    return setItem(STORAGE_KEYS.GOALS, filtered);
+      // A long-term goal takes its objectives with it
+      (await goalRecords.getByClientId(goal.clientId))
+        .filter((objective) => objective.parentGoalId === id && !isDeleted(objective))
+        .forEach((objective) =>
+          tx.saveGoal(markDeleted({ ...objective, updatedAt: deletedAt }, id, deletedAt))
+        );
+    });
   },
+};
 
-  async updateAccuracy(id: string, accuracy: number): Promise<boolean> {
-    const goal = await this.getById(id);
-    if (!goal) return false;
+// Stage new accuracy for the goals whose history gives a different one
+const stageGoalAccuracy = (
+  tx: Transaction,
+  goals: Goal[],
+  sessions: Session[],
+  defaultMethod: AccuracyMethod
+) => {
+  const updatedAt = new Date().toISOString();
+  recalculateGoals(goals.filter((goal) => !isDeleted(goal)), sessions, defaultMethod).forEach(
+    (goal) => tx.saveGoal({ ...goal, updatedAt })
+  );
+};
 
-    goal.currentAccuracy = accuracy;
-    if (accuracy >= goal.targetAccuracy) {
-      goal.status = 'achieved';
-    }
+// Work out again the accuracy of every goal the staged sessions list, or
+// listed before, from the goals and sessions as they will be once committed
+const stageSessionGoalAccuracy = async (
+  tx: Transaction,
+  goals: Map<string, Goal | null>,
+  sessions: Map<string, Session | null>,
+  settings: AppSettings | null
+) => {
+  if (sessions.size === 0) return;
 
-    return this.save(goal);
-  },
+  const previous = await sessionRecords.getByIds([...sessions.keys()]);
+  const changed = [...sessions.values()].filter((session): session is Session => !!session);
+  const goalIds = new Set([...previous, ...changed].flatMap((session) => session.goals));
+  const { accuracyMethod } = settings ?? (await SettingsStorage.get());
+
+  // Stored records with the staged ones laid over them
+  const overlay = <T extends { id: string }>(stored: T[], staged: Map<string, T | null>) => {
+    const byId = new Map(stored.map((record) => [record.id, record]));
+    staged.forEach((record, id) => (record ? byId.set(id, record) : byId.delete(id)));
+    return [...byId.values()];
+  };
+
+  for (const clientId of new Set([...previous, ...changed].map((session) => session.clientId))) {
+    const clientGoals = overlay(await goalRecords.getByClientId(clientId), goals).filter(
+      (goal) => goal.clientId === clientId && goalIds.has(goal.id)
+    );
+    const clientSessions = overlay(await sessionRecords.getByClientId(clientId), sessions).filter(
+      (session) => session.clientId === clientId
+    );
+    stageGoalAccuracy(tx, clientGoals, clientSessions, accuracyMethod);
+  }
 };
 
 // Session operations
 export const SessionStorage = {
   async getAll(): Promise<Session[]> {
-    const sessions = await getItem<Session[]>(STORAGE_KEYS.SESSIONS);
-    return sessions || [];
+    return sessionRecords.getAll();
   },
 
   async getById(id: string): Promise<Session | null> {
-    const sessions = await this.getAll();
-    return sessions.find((s) => s.id === id) || null;
+    return sessionRecords.getById(id);
   },
 
   async getByClientId(clientId: string): Promise<Session[]> {
-    const sessions = await this.getAll();
-    return sessions
-      .filter((s) => s.clientId === clientId)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    const sessions = await sessionRecords.getByClientId(clientId);
+    return sessions.sort(byDateDescending);
   },
 
   async getByGoalId(goalId: string): Promise<Session[]> {
     const sessions = await this.getAll();
-    return sessions
-      .filter((s) => s.goals.includes(goalId))
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    return sessions.filter((s) => s.goals.includes(goalId)).sort(byDateDescending);
   },
 
   async getRecent(limit: number = 10): Promise<Session[]> {
     const sessions = await this.getAll();
-    return sessions
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, limit);
+    return sessions.sort(byDateDescending).slice(0, limit);
   },
 
   async save(session: Session): Promise<boolean> {
-    const sessions = await this.getAll();
-    const existingIndex = sessions.findIndex((s) => s.id === session.id);
+    return runTransaction((tx) => tx.saveSession(session));
+  },
 
-    if (existingIndex >= 0) {
-      sessions[existingIndex] = session;
-    } else {
-      sessions.push(session);
-    }
+  // Moves the session to the trash
+  async delete(id: string): Promise<boolean> {
+    return runTransaction(async (tx) => {
+      const session = await sessionRecords.getById(id);
+      if (!session) return false;
 
-    return setItem(STORAGE_KEYS.SESSIONS, sessions);
+      tx.saveSession(markDeleted(session, id, new Date().toISOString()));
+    });
   },
+};
 
-  async delete(id: string): Promise<boolean> {
-    const sessions = await this.getAll();
-    const filtered = sessions.filter((s) => s.id !== id);
-    return setItem(STORAGE_KEYS.SESSIONS, filtered);
+// Trash operations
+export const TrashStorage = {
+  async getGroups(): Promise<TrashGroup[]> {
+    return buildTrashGroups(
+      await clientRecords.getAll(),
+      await goalRecords.getAll(),
+      await sessionRecords.getAll()
+    );
   },
 
-  async deleteByClientId(clientId: string): Promise<boolean> {
-    const sessions = await this.getAll();
-    const filtered = sessions.filter((s) => s.clientId !== clientId);
-    return setItem(STORAGE_KEYS.SESSIONS, filtered);
+  async restore(groupId: string): Promise<boolean> {
+    return runTransaction(async (tx) => {
+      const restoredAt = new Date().toISOString();
+      const inGroup = (record: Client | Goal | Session) =>
+        isDeleted(record) && deletionGroupOf(record) === groupId;
+
+      (await clientRecords.getAll())
+        .filter(inGroup)
+        .forEach((client) => tx.saveClient(clearDeleted({ ...client, updatedAt: restoredAt })));
+      (await goalRecords.getAll())
+        .filter(inGroup)
+        .forEach((goal) => tx.saveGoal(clearDeleted({ ...goal, updatedAt: restoredAt })));
+      (await sessionRecords.getAll())
+        .filter(inGroup)
+        .forEach((session) => tx.saveSession(clearDeleted(session)));
+    });
+  },
+
+  // Delete groups for good. Goals and sessions of a purged client that sit in
+  // other trash groups go too, so nothing is left pointing at the client.
+  async purge(groupIds: string[]): Promise<boolean> {
+    return runTransaction(async (tx) => {
+      const purging = new Set(groupIds);
+      const isPurged = (record: Client | Goal | Session) =>
+        isDeleted(record) && purging.has(deletionGroupOf(record));
+
+      const clients = (await clientRecords.getAll()).filter(isPurged);
+      const purgedClientIds = new Set(clients.map((client) => client.id));
+      const belongsToPurged = (record: Goal | Session) =>
+        isPurged(record) || (isDeleted(record) && purgedClientIds.has(record.clientId));
+
+      clients.forEach((client) => tx.deleteClient(client.id));
+      (await goalRecords.getAll())
+        .filter(belongsToPurged)
+        .forEach((goal) => tx.deleteGoal(goal.id));
+      (await sessionRecords.getAll())
+        .filter(belongsToPurged)
+        .forEach((session) => tx.deleteSession(session.id));
+    });
+  },
+
+  // Purge everything deleted more than retentionDays ago (0 keeps it all)
+  async purgeExpired(retentionDays: number): Promise<boolean> {
+    const expired = findExpiredGroups(await this.getGroups(), retentionDays);
+    return expired.length === 0 || this.purge(expired.map((group) => group.id));
+  },
+};
+
+// Integrity checks over every record, trash included
+export const IntegrityStorage = {
+  async check(): Promise<IntegrityReport> {
+    return checkIntegrity(
+      {
+        clients: await clientRecords.getAll(),
+        goals: await goalRecords.getAll(),
+        sessions: await sessionRecords.getAll(),
+      },
+      (await SettingsStorage.get()).accuracyMethod
+    );
+  },
+
+  // Repair the chosen kinds of issue in one transaction. Resolves to how
+  // many of each were repaired, or null if nothing could be saved.
+  async repair(kinds: IntegrityIssueKind[]): Promise<IntegrityRepair['repaired'] | null> {
+    let repaired: IntegrityRepair['repaired'] = {};
+    const committed = await runTransaction(async (tx) => {
+      const repair = repairIntegrity(
+        {
+          clients: await clientRecords.getAll(),
+          goals: await goalRecords.getAll(),
+          sessions: await sessionRecords.getAll(),
+        },
+        kinds,
+        (await SettingsStorage.get()).accuracyMethod
+      );
+      repair.records.goals.forEach(tx.saveGoal);
+      repair.records.sessions.forEach(tx.saveSession);
+      repair.removed.goals.forEach(tx.deleteGoal);
+      repair.removed.sessions.forEach(tx.deleteSession);
+      repaired = repair.repaired;
+    });
+    return committed ? repaired : null;
   },
 };
 
@@ -206,66 +1025,726 @@ export const SessionStorage = {
 export const SettingsStorage = {
   async get(): Promise<AppSettings> {
     const settings = await getItem<AppSettings>(STORAGE_KEYS.SETTINGS);
-    return settings || DEFAULT_SETTINGS;
+    // Merge so settings saved before a field existed still get its default
+    return { ...DEFAULT_SETTINGS, ...settings };
   },
 
+  // A new accuracy method changes every goal that follows it
   async save(settings: AppSettings): Promise<boolean> {
-    return setItem(STORAGE_KEYS.SETTINGS, settings);
+    return runTransaction(async (tx) => {
+      tx.saveSettings(settings);
+      if (!isSameAccuracyMethod((await this.get()).accuracyMethod, settings.accuracyMethod)) {
+        stageGoalAccuracy(
+          tx,
+          await goalRecords.getAll(),
+          await sessionRecords.getAll(),
+          settings.accuracyMethod
+        );
+      }
+    });
   },
 
   async reset(): Promise<boolean> {
-    return setItem(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS);
+    return this.save(DEFAULT_SETTINGS);
+  },
+};
+
+// Sync bookkeeping. The engine that talks to the server is syncEngine.ts.
+const syncStores = {
+  client: clientRecords,
+  goal: goalRecords,
+  session: sessionRecords,
+} as const;
+
+const getSyncStore = (entityType: SyncEntityType) =>
+  syncStores[entityType] as {
+    getIds: () => Promise<string[]>;
+    getById: (id: string) => Promise<Client | Goal | Session | null>;
+  };
+
+const stageSyncedRecord = (tx: Transaction, entityType: SyncEntityType, record: Client | Goal | Session) => {
+  if (entityType === 'client') tx.saveClient(record as Client);
+  if (entityType === 'goal') tx.saveGoal(record as Goal);
+  if (entityType === 'session') tx.saveSession(record as Session);
+};
+
+const stageSyncedPurge = (tx: Transaction, entityType: SyncEntityType, id: string) => {
+  if (entityType === 'client') tx.deleteClient(id);
+  if (entityType === 'goal') tx.deleteGoal(id);
+  if (entityType === 'session') tx.deleteSession(id);
+};
+
+const getSyncMeta = (entityType: SyncEntityType, id: string): Promise<SyncMeta | null> =>
+  getItem<SyncMeta>(`${SYNC_META_PREFIX}${syncMetaId(entityType, id)}`);
+
+// This device's copy of a record in sync form, or null if it has none
+const readLocalChange = async (entityType: SyncEntityType, id: string): Promise<SyncChange | null> => {
+  const record = await getSyncStore(entityType).getById(id);
+  const meta = await getSyncMeta(entityType, id);
+  if (!record && !meta?.purgedAt) return null;
+  return {
+    entityType,
+    id,
+    record,
+    fieldTimestamps: meta?.fieldTimestamps ?? (record ? defaultFieldTimestamps(record) : {}),
+    ...(meta?.purgedAt && { purgedAt: meta.purgedAt }),
+  };
+};
+
+const SYNC_ENTITY_ORDER: SyncEntityType[] = ['client', 'goal', 'session'];
+
+const createSyncState = (): SyncState => ({
+  deviceId: generateId(),
+  serverUrl: '',
+  token: '',
+  cursor: null,
+  lastSyncedAt: null,
+  lastError: null,
+});
+
+export const SyncStorage = {
+  // The device id is made on first use and kept until all data is cleared.
+  // A state that can't be read throws rather than being made again, which
+  // would give the device a new id.
+  async getState(): Promise<SyncState> {
+    const state = await getItem<SyncState>(SYNC_STATE_KEY);
+    if (state) return state;
+
+    return serialize(async () => {
+      const existing = await getItem<SyncState>(SYNC_STATE_KEY);
+      if (existing) return existing;
+      const initial = createSyncState();
+      await setItems([[SYNC_STATE_KEY, initial]]);
+      return initial;
+    });
+  },
+
+  // Read and write in one step, so the engine's progress and a change of
+  // server from Settings can't overwrite each other
+  async updateState(changes: Partial<SyncState>): Promise<SyncState | null> {
+    const initial = await this.getState();
+    return serialize(async () => {
+      const current = (await getItem<SyncState>(SYNC_STATE_KEY)) || initial;
+      const state = { ...current, ...changes };
+      return (await setItems([[SYNC_STATE_KEY, state]])) ? state : null;
+    });
+  },
+
+  async getPendingCount(): Promise<number> {
+    return ((await getItem<string[]>(SYNC_PENDING_KEY)) || []).length;
+  },
+
+  // Changes to push: the pending ones, or every record for a first sync.
+  // Clients come first so a server never sees a goal before its client.
+  async getOutgoingChanges(includeAll: boolean): Promise<SyncChange[]> {
+    const metaIds = new Set((await getItem<string[]>(SYNC_PENDING_KEY)) || []);
+    if (includeAll) {
+      for (const entityType of SYNC_ENTITY_ORDER) {
+        (await getSyncStore(entityType).getIds()).forEach((id) =>
+          metaIds.add(syncMetaId(entityType, id))
+        );
+      }
+    }
+
+    const changes: SyncChange[] = [];
+    for (const entityType of SYNC_ENTITY_ORDER) {
+      const prefix = `${entityType}:`;
+      for (const metaId of metaIds) {
+        if (!metaId.startsWith(prefix)) continue;
+        const change = await readLocalChange(entityType, metaId.slice(prefix.length));
+        if (change) changes.push(change);
+      }
+    }
+    return changes;
+  },
+
+  // Clear pending for pushed records, unless they changed again meanwhile.
+  // Purged records stop being tracked once the server has the purge.
+  async markPushed(changes: SyncChange[]): Promise<boolean> {
+    return runTransaction(async (tx) => {
+      for (const change of changes) {
+        const meta = await getSyncMeta(change.entityType, change.id);
+        if (!meta?.pending) continue;
+        const isUnchanged =
+          JSON.stringify(meta.fieldTimestamps) === JSON.stringify(change.fieldTimestamps) &&
+          meta.purgedAt === change.purgedAt;
+        if (!isUnchanged) continue;
+        tx.setSyncMeta(change.entityType, change.id, change.record ? { ...meta, pending: false } : null);
+      }
+    });
+  },
+
+  // Merge changes from the server into the stored records, in one transaction
+  async applyRemoteChanges(changes: SyncChange[]): Promise<boolean> {
+    return runTransaction(async (tx) => {
+      tx.setAuditSource('sync');
+      for (const remote of changes) {
+        const local = await readLocalChange(remote.entityType, remote.id);
+        const { change, localNewer } = mergeSyncChange(local, remote);
+
+        if (!change.record) {
+          if (local?.record) stageSyncedPurge(tx, remote.entityType, remote.id);
+          tx.setSyncMeta(
+            remote.entityType,
+            remote.id,
+            localNewer ? { fieldTimestamps: {}, pending: true, purgedAt: change.purgedAt } : null
+          );
+          continue;
+        }
+
+        if (!local?.record || diffFieldNames(local.record, change.record).length > 0) {
+          stageSyncedRecord(tx, remote.entityType, change.record);
+        }
+        tx.setSyncMeta(remote.entityType, remote.id, {
+          fieldTimestamps: change.fieldTimestamps,
+          pending: localNewer,
+        });
+      }
+    });
+  },
+};
+
+// Goal alerts set aside (alerts.ts). Not records, so neither audited nor
+// synced; a state outlives its goal harmlessly.
+export const AlertStorage = {
+  async getStates(): Promise<Record<string, GoalAlertState>> {
+    return (await getItem<Record<string, GoalAlertState>>(ALERT_STATES_KEY)) || {};
   },
+
+  saveState(alertId: string, state: GoalAlertState): Promise<boolean> {
+    return serialize(async () => {
+      const states = await AlertStorage.getStates();
+      return setItems([[ALERT_STATES_KEY, { ...states, [alertId]: state }]]);
+    });
+  },
+};
+
+// Automatic backups (autoBackup.ts)
+// A secret made on first use
+const getOrCreateSecret = async (key: string, name: string): Promise<string> => {
+  const secret = await getItem<string>(key);
+  if (secret) return secret;
+
+  return serialize(async () => {
+    const existing = await getItem<string>(key);
+    if (existing) return existing;
+    const created = createRandomSecret();
+    if (!(await setItems([[key, created]]))) {
+      throw new Error(`Could not save the ${name}`);
+    }
+    return created;
+  });
 };
 
-// Export all data (for backup)
-export const exportAllData = async (): Promise<string> => {
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+// Random until the user sets one, and shown in Settings either way, so
+// backups can still be opened if this device is lost
+export const BackupStorage = {
+  getPassphrase(): Promise<string> {
+    return getOrCreateSecret(BACKUP_PASSPHRASE_KEY, 'backup passphrase');
+  },
+
+  // Backups already made keep the passphrase they were made with
+  setPassphrase(passphrase: string): Promise<boolean> {
+    return serialize(() => setItems([[BACKUP_PASSPHRASE_KEY, passphrase]]));
+  },
+};
+
+// Key for the pseudonyms and date shifts of de-identified exports
+export const PseudonymStorage = {
+  getKey(): Promise<string> {
+    return getOrCreateSecret(PSEUDONYM_KEY, 'pseudonym key');
+  },
+};
+
+// Passcode and encryption
+export type SecurityStatus = 'setup' | 'locked' | 'unlocked';
+
+export const MIN_PASSCODE_LENGTH = 6;
+
+// Wrong passcodes allowed before unlocking is delayed
+const FREE_ATTEMPTS = 4;
+const BASE_LOCKOUT_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 15 * 60;
+
+export interface Lockout {
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export type UnlockResult =
+  | { success: true }
+  | { success: false; lockedUntil: string | null };
+
+// 30s after the 5th wrong passcode, doubling with each one after, up to 15 min
+const getLockoutSeconds = (failedAttempts: number): number => {
+  if (failedAttempts <= FREE_ATTEMPTS) return 0;
+  const doublings = failedAttempts - FREE_ATTEMPTS - 1;
+  return Math.min(MAX_LOCKOUT_SECONDS, BASE_LOCKOUT_SECONDS * 2 ** doublings);
+};
+
+const getEncryptionMetadata = async (): Promise<EncryptionMetadata | null> => {
+  const [[, value]] = await (await getBackend()).multiGet([ENCRYPTION_METADATA_KEY]);
+  return value ? JSON.parse(value) : null;
+};
+
+export const SecurityStorage = {
+  async getStatus(): Promise<SecurityStatus> {
+    if (EncryptionKey.get()) return 'unlocked';
+    const metadata = await getEncryptionMetadata();
+    return metadata ? 'locked' : 'setup';
+  },
+
+  // First run: create the passcode and encrypt anything already stored
+  async setup(passcode: string): Promise<boolean> {
+    return serialize(async () => {
+      try {
+        if (await getEncryptionMetadata()) return false;
+
+        const plaintext = await readAllRaw();
+        const kdf = createKeyDerivation();
+        const key = await deriveKey(passcode, kdf);
+
+        // Metadata goes first: until the rewrite below finishes, reads still
+        // accept the old plaintext values
+        const backend = await getBackend();
+        await backend.multiSet([
+          [ENCRYPTION_METADATA_KEY, JSON.stringify(createMetadata(key, kdf))],
+        ]);
+        await backend.multiSet(
+          plaintext.map(([storageKey, value]) => [storageKey, encryptString(key, value)])
+        );
+
+        EncryptionKey.set(key);
+        return true;
+      } catch (error) {
+        console.error('Error setting up encryption:', error);
+        return false;
+      }
+    });
+  },
+
+  // Failed attempts persist so restarting the app doesn't reset the back-off
+  async getLockout(): Promise<Lockout> {
+    const [[, value]] = await (await getBackend()).multiGet([LOCKOUT_KEY]);
+    return value ? JSON.parse(value) : { failedAttempts: 0, lockedUntil: null };
+  },
+
+  async unlock(passcode: string): Promise<UnlockResult> {
+    const lockout = await this.getLockout();
+    if (lockout.lockedUntil && new Date(lockout.lockedUntil).getTime() > Date.now()) {
+      return { success: false, lockedUntil: lockout.lockedUntil };
+    }
+
+    const metadata = await getEncryptionMetadata();
+    if (!metadata) return { success: false, lockedUntil: null };
+
+    const key = await deriveKey(passcode, metadata.kdf);
+    if (!verifyKey(key, metadata)) {
+      const failedAttempts = lockout.failedAttempts + 1;
+      const seconds = getLockoutSeconds(failedAttempts);
+      const lockedUntil = seconds > 0 ? new Date(Date.now() + seconds * 1000).toISOString() : null;
+      await (await getBackend()).multiSet([
+        [LOCKOUT_KEY, JSON.stringify({ failedAttempts, lockedUntil })],
+      ]);
+      return { success: false, lockedUntil };
+    }
+
+    await (await getBackend()).multiRemove([LOCKOUT_KEY]);
+    EncryptionKey.set(key);
+    return { success: true };
+  },
+
+  // Drop the key so nothing can be read until the passcode is entered again.
+  // Queued behind any write in progress, which still needs it.
+  async lock(): Promise<void> {
+    return serialize(async () => {
+      EncryptionKey.clear();
+    });
+  },
+
+  // Re-encrypt every stored value under a key derived from the new passcode
+  async changePasscode(currentPasscode: string, newPasscode: string): Promise<boolean> {
+    return serialize(async () => {
+      try {
+        const metadata = await getEncryptionMetadata();
+        if (!metadata) return false;
+
+        const currentKey = await deriveKey(currentPasscode, metadata.kdf);
+        if (!verifyKey(currentKey, metadata)) return false;
+
+        EncryptionKey.set(currentKey);
+        const plaintext = await readAllRaw();
+
+        const kdf = createKeyDerivation();
+        const newKey = await deriveKey(newPasscode, kdf);
+
+        // Written together so the metadata and data switch keys together
+        await multiSetAtomic([
+          [ENCRYPTION_METADATA_KEY, JSON.stringify(createMetadata(newKey, kdf))],
+          ...plaintext.map(([storageKey, value]): [string, string] => [
+            storageKey,
+            encryptString(newKey, value),
+          ]),
+        ]);
+
+        EncryptionKey.set(newKey);
+        return true;
+      } catch (error) {
+        console.error('Error changing passcode:', error);
+        return false;
+      }
+    });
+  },
+};
+
+// Schema versioning
+export type MigrationResult =
+  | { status: 'current'; version: number }
+  | { status: 'migrated'; fromVersion: number; version: number }
+  | { status: 'newer'; version: number }
+  | { status: 'failed'; version: number };
+
+export const getSchemaVersion = async (): Promise<number> => {
+  // Data written before versioning existed has no version key
+  const version = await getItem<number>(STORAGE_KEYS.SCHEMA_VERSION);
+  return version ?? 0;
+};
+
+// Read every collection as stored by the given schema version
+const readStoredData = async (version: number): Promise<StoredData> => {
+  if (version > LEGACY_LAYOUT_VERSION) {
+    return readAllData();
+  }
+  return {
+    clients: (await getItem<Client[]>(LEGACY_KEYS.CLIENTS)) || [],
+    goals: (await getItem<Goal[]>(LEGACY_KEYS.GOALS)) || [],
+    sessions: (await getItem<Session[]>(LEGACY_KEYS.SESSIONS)) || [],
+    settings: await getItem<AppSettings>(STORAGE_KEYS.SETTINGS),
+  };
+};
+
+// Replace everything stored with data at the current schema version, in the
+// new layout. Records, indexes and the version are committed together;
+// everything else except the audit log, sync state, alert states and kept
+// secrets (including the legacy arrays) is removed afterwards.
+// Callers must hold the write queue.
+const writeStoredData = async (data: StoredData): Promise<boolean> => {
+  const entries: [string, unknown][] = [
+    ...clientRecords.entriesFor(data.clients),
+    ...goalRecords.entriesFor(data.goals),
+    ...sessionRecords.entriesFor(data.sessions),
+    [STORAGE_KEYS.SCHEMA_VERSION, CURRENT_SCHEMA_VERSION],
+  ];
+  if (data.settings) {
+    entries.push([STORAGE_KEYS.SETTINGS, data.settings]);
+  }
+
+  const written = new Set(entries.map(([key]) => key));
+  const removedKeys = (await getDataKeys()).filter(
+    (key) =>
+      !written.has(key) &&
+      key !== STORAGE_KEYS.SETTINGS &&
+      !KEPT_SECRET_KEYS.has(key) &&
+      key !== ALERT_STATES_KEY &&
+      !isAuditKey(key) &&
+      !isSyncKey(key)
+  );
+  return commitWrites({ entries, removedKeys });
+};
+
+// Stage whatever it takes to turn the stored records into data's: changed
+// or new records are saved, records data doesn't have are deleted
+const stageReplacement = (tx: Transaction, existing: StoredData, data: StoredData) => {
+  const stageCollection = <T extends { id: string }>(
+    current: T[],
+    next: T[],
+    save: (record: T) => void,
+    remove: (id: string) => void
+  ) => {
+    const currentById = new Map(current.map((record) => [record.id, JSON.stringify(record)]));
+    const nextIds = new Set(next.map((record) => record.id));
+    next
+      .filter((record) => currentById.get(record.id) !== JSON.stringify(record))
+      .forEach(save);
+    current.filter((record) => !nextIds.has(record.id)).forEach((record) => remove(record.id));
+  };
+
+  stageCollection(existing.clients, data.clients, tx.saveClient, tx.deleteClient);
+  stageCollection(existing.goals, data.goals, tx.saveGoal, tx.deleteGoal);
+  stageCollection(existing.sessions, data.sessions, tx.saveSession, tx.deleteSession);
+  if (data.settings) {
+    tx.saveSettings(data.settings);
+  }
+};
+
+// Upgrade stored data to the current schema. Must run before anything reads it.
+export const migrateStorage = async (): Promise<MigrationResult> => {
+  return serialize(async (): Promise<MigrationResult> => {
+    const storedVersion = await getSchemaVersion();
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+      // Written by a newer app; leave it untouched rather than corrupt it
+      return { status: 'newer', version: storedVersion };
+    }
+    if (storedVersion === CURRENT_SCHEMA_VERSION) {
+      return { status: 'current', version: storedVersion };
+    }
+
+    const data = await readStoredData(storedVersion);
+    const migrated = applyMigrations(data, storedVersion, new Date().toISOString());
+
+    // The version is written together with the data, so a failed write
+    // leaves the old layout and version in place to retry next launch
+    if (!(await writeStoredData(migrated))) {
+      return { status: 'failed', version: storedVersion };
+    }
+
+    return { status: 'migrated', fromVersion: storedVersion, version: CURRENT_SCHEMA_VERSION };
+  });
+};
+
+// Export all data (for backup). With a passphrase the backup is encrypted.
+export const exportAllData = async (passphrase?: string): Promise<string> => {
   const clients = await ClientStorage.getAll();
   const goals = await GoalStorage.getAll();
   const sessions = await SessionStorage.getAll();
   const settings = await SettingsStorage.get();
+  const auditLog = await AuditStorage.getAll();
 
   const data = {
     exportDate: new Date().toISOString(),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     clients,
     goals,
     sessions,
     settings,
+    auditLog,
   };
 
-  return JSON.stringify(data, null, 2);
+  const json = JSON.stringify(data, null, 2);
+  return passphrase ? encryptBackup(json, passphrase) : json;
 };
 
-// Import data (from backup)
-export const importData = async (jsonString: string): Promise<boolean> => {
-  try {
-    const data = JSON.parse(jsonString);
+// Read every collection as stored
+const readAllData = async (): Promise<StoredData> => ({
+  clients: await ClientStorage.getAll(),
+  goals: await GoalStorage.getAll(),
+  sessions: await SessionStorage.getAll(),
+  settings: await SettingsStorage.get(),
+});
 
-    if (data.clients) {
-      await setItem(STORAGE_KEYS.CLIENTS, data.clients);
-    }
-    if (data.goals) {
-      await setItem(STORAGE_KEYS.GOALS, data.goals);
+// Decrypt an encrypted backup, or pass a plain one through
+const readBackupFile = async (
+  jsonString: string,
+  passphrase?: string
+): Promise<string | null> => {
+  if (!isEncryptedBackup(jsonString)) return jsonString;
+  if (!passphrase) return null;
+  return decryptBackup(jsonString, passphrase);
+};
+
+const PASSPHRASE_ISSUE: ValidationIssue = {
+  path: '',
+  message: 'is encrypted and the passphrase is missing or incorrect',
+  severity: 'error',
+};
+
+// Replacing everything with a few clients' records would lose the rest. An
+// encrypted client export only shows what it is once decrypted.
+const CLIENT_BUNDLE_ISSUE: ValidationIssue = {
+  path: '',
+  message: 'holds exported clients, not a full backup. Import it from the Clients tab.',
+  severity: 'error',
+};
+
+// Validate a backup and preview what a merge import would change, without
+// writing anything. preview is null when the backup has errors.
+export const previewImport = async (
+  fileContent: string,
+  passphrase?: string
+): Promise<{ preview: ImportPreview | null; issues: ValidationIssue[] }> => {
+  const jsonString = await readBackupFile(fileContent, passphrase);
+  if (jsonString === null) {
+    return { preview: null, issues: [PASSPHRASE_ISSUE] };
+  }
+  if (isClientBundle(jsonString)) {
+    return { preview: null, issues: [CLIENT_BUNDLE_ISSUE] };
+  }
+
+  const parsed = parseBackup(jsonString);
+  if (!parsed.ok) {
+    return { preview: null, issues: parsed.issues };
+  }
+
+  const existing = await readAllData();
+  return { preview: mergeData(existing, parsed.data).preview, issues: parsed.issues };
+};
+
+// Import data (from backup). 'replace' swaps all stored records for the
+// backup's; 'merge' keeps the newer copy of each record.
+export const importData = async (
+  fileContent: string,
+  mode: ImportMode = 'replace',
+  passphrase?: string
+): Promise<ImportPreview | null> => {
+  try {
+    const jsonString = await readBackupFile(fileContent, passphrase);
+    if (jsonString === null) {
+      console.error('Backup is encrypted and the passphrase is missing or incorrect');
+      return null;
     }
-    if (data.sessions) {
-      await setItem(STORAGE_KEYS.SESSIONS, data.sessions);
+    if (isClientBundle(jsonString)) {
+      console.error('File is a client export, not a full backup');
+      return null;
     }
-    if (data.settings) {
-      await setItem(STORAGE_KEYS.SETTINGS, data.settings);
+
+    const parsed = parseBackup(jsonString);
+    if (!parsed.ok) {
+      console.error('Backup failed validation:', parsed.issues);
+      return null;
     }
 
-    return true;
+    // Read, merge and write in one transaction so nothing saved meanwhile
+    // is lost, and a failed import leaves the existing data untouched
+    let preview: ImportPreview | undefined;
+    const committed = await runTransaction(async (tx) => {
+      tx.setAuditSource('import');
+      const existing = await readAllData();
+      const merged = mergeData(existing, parsed.data);
+      preview = merged.preview;
+      stageReplacement(tx, existing, mode === 'merge' ? merged.data : parsed.data);
+
+      // The backup's history is added to ours in either mode; entries we
+      // already have are skipped
+      const knownIds = new Set((await AuditStorage.getAll()).map((entry) => entry.id));
+      tx.appendAuditEntries(parsed.auditLog.filter((entry) => !knownIds.has(entry.id)));
+    });
+
+    return committed && preview ? preview : null;
   } catch (error) {
     console.error('Error importing data:', error);
-    return false;
+    return null;
+  }
+};
+
+// Export some clients with their goals and sessions, to hand over. With a
+// passphrase the export is encrypted the same way as a backup.
+export const exportClients = async (clientIds: string[], passphrase?: string): Promise<string> => {
+  const { clients, goals, sessions } = await readAllData();
+  const json = JSON.stringify(createClientBundle({ clients, goals, sessions }, clientIds), null, 2);
+  return passphrase ? encryptBackup(json, passphrase) : json;
+};
+
+export type BundleImport =
+  | { success: true; result: BundleImportResult; warnings: ValidationIssue[] }
+  | { success: false; issues: ValidationIssue[] };
+
+// Add records from another caseload to the stored ones. Nothing stored is
+// changed: records whose ids are taken, even by something in the trash, get
+// new ones.
+const addRecords = async (
+  records: BundleRecords,
+  warnings: ValidationIssue[]
+): Promise<BundleImport> => {
+  let result: BundleImportResult | undefined;
+  const committed = await runTransaction(async (tx) => {
+    tx.setAuditSource('import');
+    const [clientIds, goalIds, sessionIds] = await Promise.all([
+      clientRecords.getIds(),
+      goalRecords.getIds(),
+      sessionRecords.getIds(),
+    ]);
+    const rekeyed = rekeyClientBundle(records, {
+      clients: new Set(clientIds),
+      goals: new Set(goalIds),
+      sessions: new Set(sessionIds),
+    });
+
+    rekeyed.records.clients.forEach(tx.saveClient);
+    rekeyed.records.goals.forEach(tx.saveGoal);
+    rekeyed.records.sessions.forEach(tx.saveSession);
+    result = {
+      clients: rekeyed.records.clients.length,
+      goals: rekeyed.records.goals.length,
+      sessions: rekeyed.records.sessions.length,
+      rekeyed: rekeyed.rekeyed,
+    };
+  });
+
+  if (!committed || !result) {
+    return {
+      success: false,
+      issues: [{ path: '', message: 'could not be saved', severity: 'error' }],
+    };
+  }
+  return { success: true, result, warnings };
+};
+
+// Add clients from a client export
+export const importClients = async (fileContent: string): Promise<BundleImport> => {
+  const parsed = parseClientBundle(fileContent);
+  if (!parsed.ok) {
+    return { success: false, issues: parsed.issues };
+  }
+  return addRecords(parsed.records, parsed.issues);
+};
+
+export const exportFhir = async (clientIds: string[]): Promise<string> => {
+  const { clients, goals, sessions } = await readAllData();
+  return JSON.stringify(createFhirBundle({ clients, goals, sessions }, clientIds), null, 2);
+};
+
+// Add the Patients and Goals in a FHIR Bundle as clients and goals
+export const importFhir = async (
+  fileContent: string,
+  defaultTargetAccuracy: number
+): Promise<BundleImport> => {
+  const parsed = parseFhirBundle(fileContent, defaultTargetAccuracy);
+  if (!parsed.ok) {
+    return { success: false, issues: parsed.issues };
   }
+  return addRecords(parsed.records, parsed.issues);
 };
 
-// Clear all data
+// Add clients and goals made from a roster spreadsheet, all or none
+export const importRoster = async (clients: Client[], goals: Goal[]): Promise<boolean> =>
+  runTransaction((tx) => {
+    tx.setAuditSource('import');
+    clients.forEach(tx.saveClient);
+    goals.forEach(tx.saveGoal);
+  });
+
+// Clear all data. The audit log is kept, so it stays append-only: it ends
+// with a purge entry for every record cleared.
 export const clearAllData = async (): Promise<boolean> => {
   try {
-    await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
-    return true;
+    return await serialize(async () => {
+      const timestamp = new Date().toISOString();
+      const syncState = (await getItem<SyncState>(SYNC_STATE_KEY)) ?? createSyncState();
+      const origin: AuditOrigin = { source: 'local', deviceId: syncState.deviceId };
+      const settings = await getItem<AppSettings>(STORAGE_KEYS.SETTINGS);
+      const purges = [
+        ...(await clientRecords.getAll()).map((client) =>
+          createAuditEntry('client', client.id, client, null, timestamp, origin)
+        ),
+        ...(await goalRecords.getAll()).map((goal) =>
+          createAuditEntry('goal', goal.id, goal, null, timestamp, origin)
+        ),
+        ...(await sessionRecords.getAll()).map((session) =>
+          createAuditEntry('session', session.id, session, null, timestamp, origin)
+        ),
+        settings && createAuditEntry('settings', 'settings', settings, null, timestamp, origin),
+      ].filter((entry): entry is AuditEntry => !!entry);
+      if (!(await setItems((await planAuditAppend(purges)).entries))) return false;
+
+      const keys = (await getDataKeys()).filter(
+        (key) => !KEPT_SECRET_KEYS.has(key) && !isAuditKey(key)
+      );
+      await (await getBackend()).multiRemove(keys);
+      return true;
+    });
   } catch (error) {
     console.error('Error clearing data:', error);
     return false;
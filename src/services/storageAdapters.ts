@@ -0,0 +1,174 @@
+// Key-value backends for storage.ts
+//
+// Every adapter stores strings under string keys, with the same bulk
+// operations as AsyncStorage. A transaction commits with a single multiSet,
+// so a half-applied one would corrupt the indexes: adapters whose multiSet
+// isn't atomic say so, and storage.ts journals their batches.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { openSQLiteConnection } from './sqliteConnection';
+
+export type StorageBackendName = 'asyncStorage' | 'indexedDB' | 'sqlite';
+
+export interface StorageAdapter {
+  name: StorageBackendName;
+  atomic: boolean; // multiSet applies every entry or none
+  getAllKeys(): Promise<string[]>;
+  // Values come back in the order of the keys, null where a key is missing
+  multiGet(keys: string[]): Promise<[string, string | null][]>;
+  multiSet(entries: [string, string][]): Promise<void>;
+  multiRemove(keys: string[]): Promise<void>;
+}
+
+// A SQLite database opened by expo-sqlite or the Tauri SQL plugin; see
+// sqliteConnection.ts and sqliteConnection.native.ts
+export interface SQLiteConnection {
+  execute(sql: string, params?: string[]): Promise<void>;
+  select<T>(sql: string, params?: string[]): Promise<T[]>;
+}
+
+const DATABASE_NAME = 'speech_therapy';
+
+// localStorage on web, which holds about 5 MB. multiSet writes key by key
+// on iOS and on web.
+export const asyncStorageAdapter: StorageAdapter = {
+  name: 'asyncStorage',
+  atomic: false,
+  getAllKeys: async () => [...(await AsyncStorage.getAllKeys())],
+  multiGet: async (keys) => [...(await AsyncStorage.multiGet(keys))] as [string, string | null][],
+  multiSet: (entries) => AsyncStorage.multiSet(entries),
+  multiRemove: (keys) => AsyncStorage.multiRemove(keys),
+};
+
+// IndexedDB (web)
+
+const KV_STORE = 'kv';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openIndexedDB = (name: string): Promise<IDBDatabase> => {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KV_STORE);
+  };
+  return requestResult(request);
+};
+
+// All writes in one call share an IndexedDB transaction, which applies them
+// together or not at all
+export const createIndexedDBAdapter = async (name: string = DATABASE_NAME): Promise<StorageAdapter> => {
+  const database = await openIndexedDB(name);
+  const begin = (mode: IDBTransactionMode) => {
+    const transaction = database.transaction(KV_STORE, mode);
+    return { transaction, store: transaction.objectStore(KV_STORE) };
+  };
+
+  return {
+    name: 'indexedDB',
+    atomic: true,
+
+    async getAllKeys() {
+      const keys = await requestResult(begin('readonly').store.getAllKeys());
+      return keys.map(String);
+    },
+
+    async multiGet(keys) {
+      const { store } = begin('readonly');
+      const values = await Promise.all(
+        keys.map((key) => requestResult<string | undefined>(store.get(key)))
+      );
+      return keys.map((key, index): [string, string | null] => [key, values[index] ?? null]);
+    },
+
+    async multiSet(entries) {
+      const { transaction, store } = begin('readwrite');
+      entries.forEach(([key, value]) => store.put(value, key));
+      await transactionComplete(transaction);
+    },
+
+    async multiRemove(keys) {
+      const { transaction, store } = begin('readwrite');
+      keys.forEach((key) => store.delete(key));
+      await transactionComplete(transaction);
+    },
+  };
+};
+
+// SQLite (native and the desktop app)
+//
+// Keys and values are passed as one JSON parameter and unpacked with
+// json_each, so each operation is a single statement no matter how many keys
+// it covers. A single statement is atomic without an explicit transaction,
+// which the Tauri SQL plugin can't hold open across calls.
+
+export const createSQLiteAdapter = async (connection: SQLiteConnection): Promise<StorageAdapter> => {
+  await connection.execute(
+    'CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)'
+  );
+
+  return {
+    name: 'sqlite',
+    atomic: true,
+
+    async getAllKeys() {
+      const rows = await connection.select<{ key: string }>('SELECT key FROM kv');
+      return rows.map((row) => row.key);
+    },
+
+    async multiGet(keys) {
+      if (keys.length === 0) return [];
+      const rows = await connection.select<{ key: string; value: string }>(
+        'SELECT key, value FROM kv WHERE key IN (SELECT value FROM json_each(?))',
+        [JSON.stringify(keys)]
+      );
+      const values = new Map(rows.map((row) => [row.key, row.value]));
+      return keys.map((key): [string, string | null] => [key, values.get(key) ?? null]);
+    },
+
+    async multiSet(entries) {
+      if (entries.length === 0) return;
+      await connection.execute(
+        `INSERT OR REPLACE INTO kv (key, value)
+         SELECT json_extract(value, '$[0]'), json_extract(value, '$[1]') FROM json_each(?)`,
+        [JSON.stringify(entries)]
+      );
+    },
+
+    async multiRemove(keys) {
+      if (keys.length === 0) return;
+      await connection.execute('DELETE FROM kv WHERE key IN (SELECT value FROM json_each(?))', [
+        JSON.stringify(keys),
+      ]);
+    },
+  };
+};
+
+// SQLite where it's available, then IndexedDB, then AsyncStorage; one that
+// fails to open is passed over for the next
+export const openPreferredAdapter = async (): Promise<StorageAdapter> => {
+  try {
+    const connection = await openSQLiteConnection(DATABASE_NAME);
+    if (connection) return await createSQLiteAdapter(connection);
+  } catch (error) {
+    console.error('Error opening SQLite storage:', error);
+  }
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDBAdapter();
+    } catch (error) {
+      console.error('Error opening IndexedDB storage:', error);
+    }
+  }
+  return asyncStorageAdapter;
+};
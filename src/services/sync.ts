@@ -0,0 +1,145 @@
+// Field-level change tracking and conflict resolution for sync
+//
+// Every committed change to a client, goal or session stamps the fields it
+// changed with the commit time and marks the record pending until it has
+// been pushed. When the same record changes on two devices, each field is
+// resolved on its own: the later change wins. The reference server
+// (server/sync-server.js) resolves conflicts with the same rules, so every
+// device ends up with the same record.
+
+import { Client, Goal, Session, SyncChange, SyncEntityType, SyncMeta } from '../types';
+import { hasErrors, isObject, validateRecord } from './validation';
+
+type SyncedRecord = Client | Goal | Session;
+type Fields = { [field: string]: unknown };
+
+const fieldsOf = (record: SyncedRecord | null): Fields => ({ ...record });
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Fields whose values differ, a field missing on one side included
+export const diffFieldNames = (before: SyncedRecord | null, after: SyncedRecord | null): string[] => {
+  const beforeFields = fieldsOf(before);
+  const afterFields = fieldsOf(after);
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+  return [...fields].filter(
+    (field) => field !== 'id' && !isSame(beforeFields[field], afterFields[field])
+  );
+};
+
+// Records changed before sync existed have no field timestamps; their last
+// update stands in for every field
+export const defaultFieldTimestamps = (record: SyncedRecord): SyncMeta['fieldTimestamps'] => {
+  const timestamp = ('updatedAt' in record && record.updatedAt) || record.createdAt;
+  const timestamps: SyncMeta['fieldTimestamps'] = {};
+  Object.keys(record).forEach((field) => {
+    if (field !== 'id') timestamps[field] = timestamp;
+  });
+  return timestamps;
+};
+
+// The record's metadata after a local change, or null if nothing changed
+export const touchSyncMeta = (
+  meta: SyncMeta | null,
+  before: SyncedRecord | null,
+  after: SyncedRecord | null,
+  timestamp: string
+): SyncMeta | null => {
+  const fieldTimestamps = {
+    ...(before ? defaultFieldTimestamps(before) : {}),
+    ...meta?.fieldTimestamps,
+  };
+
+  if (!after) {
+    return before ? { fieldTimestamps, pending: true, purgedAt: timestamp } : null;
+  }
+
+  const changed = diffFieldNames(before, after);
+  if (changed.length === 0) return null;
+  changed.forEach((field) => {
+    fieldTimestamps[field] = timestamp;
+  });
+  return { fieldTimestamps, pending: true };
+};
+
+// Timestamps are ISO strings, so they compare as text. Changes made at the
+// same moment are settled by comparing the values, so both sides pick the
+// same one.
+const isLocalNewer = (localTime: string, remoteTime: string, local: unknown, remote: unknown) =>
+  localTime > remoteTime ||
+  (localTime === remoteTime && JSON.stringify(local ?? null) > JSON.stringify(remote ?? null));
+
+// Combine this device's copy of a record with the server's. localNewer is
+// true when the result keeps something the server doesn't have yet, so the
+// record still needs pushing.
+export const mergeSyncChange = (
+  local: SyncChange | null,
+  remote: SyncChange
+): { change: SyncChange; localNewer: boolean } => {
+  if (!local) return { change: remote, localNewer: false };
+
+  // Purging is final, whichever side did it
+  if (!remote.record) return { change: remote, localNewer: false };
+  if (!local.record) return { change: local, localNewer: true };
+
+  const localFields = fieldsOf(local.record);
+  const remoteFields = fieldsOf(remote.record);
+  const localTimes = { ...defaultFieldTimestamps(local.record), ...local.fieldTimestamps };
+  const remoteTimes = { ...defaultFieldTimestamps(remote.record), ...remote.fieldTimestamps };
+  const fields = new Set([
+    ...Object.keys(remoteFields),
+    ...Object.keys(localFields),
+    ...Object.keys(remoteTimes),
+    ...Object.keys(localTimes),
+  ]);
+  fields.delete('id');
+
+  const merged: Fields = { id: remote.id };
+  const fieldTimestamps: SyncMeta['fieldTimestamps'] = {};
+  let localNewer = false;
+
+  fields.forEach((field) => {
+    const localTime = localTimes[field] || '';
+    const remoteTime = remoteTimes[field] || '';
+    const useLocal = isLocalNewer(localTime, remoteTime, localFields[field], remoteFields[field]);
+    const value = useLocal ? localFields[field] : remoteFields[field];
+    const time = useLocal ? localTime : remoteTime;
+
+    if (value !== undefined) merged[field] = value;
+    if (time) fieldTimestamps[field] = time;
+    if (useLocal && !isSame(localFields[field], remoteFields[field])) localNewer = true;
+  });
+
+  return {
+    change: {
+      entityType: remote.entityType,
+      id: remote.id,
+      record: merged as unknown as SyncedRecord,
+      fieldTimestamps,
+    },
+    localNewer,
+  };
+};
+
+const SYNC_ENTITY_TYPES: SyncEntityType[] = ['client', 'goal', 'session'];
+
+// A change from the server that is safe to merge: the record, unless it was
+// purged, passes the same checks as one read from a backup
+export const isSyncChange = (value: unknown): value is SyncChange => {
+  if (!isObject(value)) return false;
+  const { entityType, id, fieldTimestamps, record } = value;
+  if (
+    !SYNC_ENTITY_TYPES.includes(entityType as SyncEntityType) ||
+    typeof id !== 'string' ||
+    !id ||
+    !isObject(fieldTimestamps)
+  ) {
+    return false;
+  }
+  return (
+    record === null ||
+    (isObject(record) &&
+      record.id === id &&
+      !hasErrors(validateRecord(entityType as SyncEntityType, record)))
+  );
+};
@@ -0,0 +1,149 @@
+// Sync with a self-hosted server
+//
+// The protocol is documented in server/README.md, and server/sync-server.js
+// implements it. A sync pushes the records changed here (every record on the
+// first sync with a server), then pulls everything the server has received
+// since the last pull and merges it field by field (see sync.ts).
+
+import { SyncChange, SyncState } from '../types';
+import { SyncStorage } from './storage';
+import { isSyncChange } from './sync';
+
+const PROTOCOL_PATH = '/v1';
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const PUSH_BATCH_SIZE = 200;
+const PULL_PAGE_SIZE = 500;
+
+export type SyncResult =
+  | { success: true; pushed: number; pulled: number }
+  | { success: false; error: string };
+
+interface PullResponse {
+  changes: unknown[];
+  cursor: string;
+  hasMore: boolean;
+}
+
+const request = async <T>(
+  state: SyncState,
+  path: string,
+  init: { method: 'GET' | 'POST'; body?: unknown }
+): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${state.serverUrl.replace(/\/+$/, '')}${PROTOCOL_PATH}${path}`, {
+      method: init.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(state.token && { Authorization: `Bearer ${state.token}` }),
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+      signal: controller.signal,
+    });
+    if (response.status === 401) {
+      throw new Error('The server rejected the access token');
+    }
+    if (!response.ok) {
+      throw new Error(`The server responded with ${response.status}`);
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error('The server took too long to respond');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const push = async (state: SyncState): Promise<number> => {
+  const changes = await SyncStorage.getOutgoingChanges(state.cursor === null);
+
+  for (let start = 0; start < changes.length; start += PUSH_BATCH_SIZE) {
+    const batch = changes.slice(start, start + PUSH_BATCH_SIZE);
+    await request(state, '/push', {
+      method: 'POST',
+      body: { deviceId: state.deviceId, changes: batch },
+    });
+    await SyncStorage.markPushed(batch);
+  }
+
+  return changes.length;
+};
+
+// The cursor is saved after each page, so an interrupted pull resumes where
+// it stopped
+const pull = async (state: SyncState): Promise<number> => {
+  let cursor = state.cursor;
+  let pulled = 0;
+
+  for (;;) {
+    const query = `?since=${encodeURIComponent(cursor ?? '')}&limit=${PULL_PAGE_SIZE}`;
+    const page = await request<PullResponse>(state, `/pull${query}`, { method: 'GET' });
+    if (!Array.isArray(page.changes) || typeof page.cursor !== 'string') {
+      throw new Error('The server sent an unexpected response');
+    }
+
+    // Records that fail validation are skipped rather than stored
+    const changes: SyncChange[] = page.changes.filter(isSyncChange);
+    const skipped = page.changes.length - changes.length;
+    if (skipped > 0) {
+      console.error(`Skipped ${skipped} invalid changes from the server`);
+    }
+    if (changes.length > 0 && !(await SyncStorage.applyRemoteChanges(changes))) {
+      throw new Error('Changes from the server could not be saved');
+    }
+    pulled += changes.length;
+    cursor = page.cursor;
+    await SyncStorage.updateState({ cursor });
+
+    if (!page.hasMore) return pulled;
+  }
+};
+
+const describeError = (error: unknown): string => {
+  if (error instanceof TypeError) return 'Could not reach the sync server';
+  return error instanceof Error ? error.message : String(error);
+};
+
+export const runSync = async (): Promise<SyncResult> => {
+  let state: SyncState;
+  try {
+    state = await SyncStorage.getState();
+  } catch (error) {
+    console.error('Error reading sync state:', error);
+    return { success: false, error: 'The sync settings could not be read' };
+  }
+  if (!state.serverUrl) {
+    return { success: false, error: 'No sync server is set up' };
+  }
+
+  try {
+    const pushed = await push(state);
+    const pulled = await pull(state);
+    await SyncStorage.updateState({ lastSyncedAt: new Date().toISOString(), lastError: null });
+    return { success: true, pushed, pulled };
+  } catch (error) {
+    const message = describeError(error);
+    console.error('Error syncing:', error);
+    await SyncStorage.updateState({ lastError: message });
+    return { success: false, error: message };
+  }
+};
+
+// Point sync at another server, or turn it off with an empty URL. A new
+// server starts from scratch: everything is pushed and pulled again.
+export const configureSync = async (serverUrl: string, token: string): Promise<boolean> => {
+  const state = await SyncStorage.getState();
+  const trimmedUrl = serverUrl.trim();
+  const isNewServer = trimmedUrl !== state.serverUrl;
+  const updated = await SyncStorage.updateState({
+    serverUrl: trimmedUrl,
+    token: token.trim(),
+    ...(isNewServer && { cursor: null, lastSyncedAt: null, lastError: null }),
+  });
+  return updated !== null;
+};
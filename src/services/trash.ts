@@ -0,0 +1,89 @@
+// Soft-deleted records and the groups they were deleted in
+//
+// Deleting a record marks it with deletedAt instead of removing it. Records
+// deleted by the same action share a deletionGroupId (the id of the record
+// the user deleted), so a client comes back together with the goals and
+// sessions that were deleted along with it.
+
+import { Client, Goal, Session } from '../types';
+
+export type TrashKind = 'client' | 'goal' | 'session';
+
+export interface TrashGroup {
+  id: string;
+  kind: TrashKind;
+  deletedAt: string;
+  clients: Client[];
+  goals: Goal[];
+  sessions: Session[];
+}
+
+interface Deletable {
+  id: string;
+  deletedAt?: string;
+  deletionGroupId?: string;
+}
+
+export const isDeleted = (record: Deletable): boolean => !!record.deletedAt;
+
+export const deletionGroupOf = (record: Deletable): string => record.deletionGroupId || record.id;
+
+export const markDeleted = <T extends Deletable>(
+  record: T,
+  groupId: string,
+  deletedAt: string
+): T => ({ ...record, deletedAt, deletionGroupId: groupId });
+
+export const clearDeleted = <T extends Deletable>(record: T): T => {
+  const { deletedAt, deletionGroupId, ...rest } = record;
+  return rest as T;
+};
+
+// Newest first
+export const buildTrashGroups = (
+  clients: Client[],
+  goals: Goal[],
+  sessions: Session[]
+): TrashGroup[] => {
+  const groups = new Map<string, TrashGroup>();
+  const groupFor = (record: Deletable, kind: TrashKind): TrashGroup | null => {
+    if (!record.deletedAt) return null;
+    const id = deletionGroupOf(record);
+    if (!groups.has(id)) {
+      groups.set(id, { id, kind, deletedAt: record.deletedAt, clients: [], goals: [], sessions: [] });
+    }
+    return groups.get(id)!;
+  };
+
+  // The record the group is named after decides its kind, and is always
+  // the broadest one, so clients go first
+  clients.forEach((client) => groupFor(client, 'client')?.clients.push(client));
+  goals.forEach((goal) => groupFor(goal, 'goal')?.goals.push(goal));
+  sessions.forEach((session) => groupFor(session, 'session')?.sessions.push(session));
+
+  return [...groups.values()].sort(
+    (a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+  );
+};
+
+// Groups that have been in the trash longer than the retention period
+export const findExpiredGroups = (
+  groups: TrashGroup[],
+  retentionDays: number,
+  now: Date = new Date()
+): TrashGroup[] => {
+  if (retentionDays <= 0) return [];
+  const cutoff = now.getTime() - retentionDays * 24 * 60 * 60 * 1000;
+  return groups.filter((group) => new Date(group.deletedAt).getTime() < cutoff);
+};
+
+// Whole days until a group is purged automatically, or null if it never is
+export const daysUntilPurge = (
+  group: TrashGroup,
+  retentionDays: number,
+  now: Date = new Date()
+): number | null => {
+  if (retentionDays <= 0) return null;
+  const purgeAt = new Date(group.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000;
+  return Math.max(0, Math.ceil((purgeAt - now.getTime()) / (24 * 60 * 60 * 1000)));
+};
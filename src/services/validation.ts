@@ -0,0 +1,496 @@
+// Validation of backup files, and records from the sync server, against the
+// app's record shapes
+
+import { parseISO, isValid } from 'date-fns';
+import {
+  AccuracyMethod,
+  CueLevel,
+  Goal,
+  GoalCategory,
+  Trial,
+  AppSettings,
+  AuditAction,
+  AuditEntityType,
+  AuditSource,
+  SyncEntityType,
+} from '../types';
+import { StoredData } from './migrations';
+
+// A problem found in a backup. Errors stop the import; warnings are shown
+// but allowed through (for example trials of a goal that was later deleted,
+// which the app intentionally keeps).
+export interface ValidationIssue {
+  path: string; // e.g. 'sessions[4].trials[2].goalId'
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+const GOAL_STATUSES: Goal['status'][] = ['active', 'achieved', 'discontinued'];
+
+const GOAL_CATEGORIES: GoalCategory[] = [
+  'articulation',
+  'language',
+  'fluency',
+  'voice',
+  'pragmatics',
+  'phonology',
+  'other',
+];
+
+const CUE_LEVELS: CueLevel[] = [
+  'independent',
+  'verbal_cue',
+  'visual_cue',
+  'model',
+  'partial_physical',
+  'full_physical',
+];
+
+const RESPONSES: Trial['response'][] = ['correct', 'incorrect', 'approximation', 'no_response'];
+
+const THEMES: AppSettings['theme'][] = ['light', 'dark', 'system'];
+const BACKUP_FREQUENCIES: AppSettings['autoBackupFrequency'][] = ['off', 'daily', 'weekly'];
+
+const ACCURACY_METHOD_KINDS: AccuracyMethod['kind'][] = ['lastSessions', 'trialWindow', 'exponential'];
+
+const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore', 'purge'];
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['client', 'goal', 'session', 'settings'];
+
+const AUDIT_SOURCES: AuditSource[] = ['local', 'sync', 'import'];
+
+export type UnknownRecord = { [key: string]: unknown };
+
+export const isObject = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+};
+
+// Collects issues for one record, prefixing each with the record's path
+const createChecker = (issues: ValidationIssue[], basePath: string, record: UnknownRecord) => {
+  const add = (field: string, message: string, severity: ValidationIssue['severity'] = 'error') => {
+    issues.push({ path: `${basePath}.${field}`, message, severity });
+  };
+
+  return {
+    requiredString(field: string, { allowEmpty = false } = {}) {
+      const value = record[field];
+      if (typeof value !== 'string') {
+        add(field, `must be text, but is ${describe(value)}`);
+      } else if (!allowEmpty && !value.trim()) {
+        add(field, 'must not be empty');
+      }
+    },
+
+    optionalString(field: string) {
+      const value = record[field];
+      if (value !== undefined && typeof value !== 'string') {
+        add(field, `must be text if present, but is ${describe(value)}`);
+      }
+    },
+
+    date(field: string, { optional = false, allowEmpty = false } = {}) {
+      const value = record[field];
+      if (value === undefined && optional) return;
+      if (value === '' && allowEmpty) return;
+      if (typeof value !== 'string' || !isValid(parseISO(value))) {
+        add(field, `must be a date, but is ${describe(value)}`);
+      }
+    },
+
+    number(field: string, min: number, max: number) {
+      const value = record[field];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        add(field, `must be a number, but is ${describe(value)}`);
+      } else if (value < min || value > max) {
+        add(field, `must be between ${min} and ${max}, but is ${value}`);
+      }
+    },
+
+    boolean(field: string) {
+      const value = record[field];
+      if (typeof value !== 'boolean') {
+        add(field, `must be true or false, but is ${describe(value)}`);
+      }
+    },
+
+    oneOf<T extends string>(field: string, allowed: T[]) {
+      const value = record[field];
+      if (!allowed.includes(value as T)) {
+        add(field, `must be one of ${allowed.join(', ')}, but is ${describe(value)}`);
+      }
+    },
+
+    listOf<T extends string>(field: string, allowed?: T[]) {
+      const value = record[field];
+      if (!Array.isArray(value)) {
+        add(field, `must be a list, but is ${describe(value)}`);
+        return;
+      }
+      value.forEach((item, index) => {
+        if (typeof item !== 'string' || (allowed && !allowed.includes(item as T))) {
+          add(`${field}[${index}]`, `is not valid: ${describe(item)}`);
+        }
+      });
+    },
+
+    reference(field: string, ids: Set<string>, target: string, severity: ValidationIssue['severity']) {
+      const value = record[field];
+      if (typeof value === 'string' && value && !ids.has(value)) {
+        add(field, `refers to ${target} "${value}", which is not in the backup`, severity);
+      }
+    },
+  };
+};
+
+// Check the top-level layout before anything tries to read records
+export const validateBackupStructure = (raw: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isObject(raw)) {
+    issues.push({ path: '', message: 'is not a Speech Therapy Pro backup', severity: 'error' });
+    return issues;
+  }
+
+  // Migrations read every record, so each one has to be an object first
+  (['clients', 'goals', 'sessions', 'auditLog'] as const).forEach((key) => {
+    const records = raw[key];
+    if (records === undefined) return;
+    if (!Array.isArray(records)) {
+      issues.push({ path: key, message: `must be a list, but is ${describe(records)}`, severity: 'error' });
+      return;
+    }
+    records.forEach((record, index) => {
+      if (!isObject(record)) {
+        issues.push({ path: `${key}[${index}]`, message: `must be an object, but is ${describe(record)}`, severity: 'error' });
+      }
+    });
+  });
+
+  if (raw.settings !== undefined && raw.settings !== null && !isObject(raw.settings)) {
+    issues.push({ path: 'settings', message: `must be an object, but is ${describe(raw.settings)}`, severity: 'error' });
+  }
+
+  if (raw.schemaVersion !== undefined && typeof raw.schemaVersion !== 'number') {
+    issues.push({ path: 'schemaVersion', message: `must be a number, but is ${describe(raw.schemaVersion)}`, severity: 'error' });
+  }
+
+  return issues;
+};
+
+const checkDuplicateIds = (
+  issues: ValidationIssue[],
+  collection: string,
+  records: unknown[]
+): Set<string> => {
+  const ids = new Set<string>();
+  records.forEach((record, index) => {
+    const id = isObject(record) ? record.id : undefined;
+    if (typeof id !== 'string' || !id) return;
+    if (ids.has(id)) {
+      issues.push({ path: `${collection}[${index}].id`, message: `"${id}" is used by more than one record`, severity: 'error' });
+    }
+    ids.add(id);
+  });
+  return ids;
+};
+
+// Mastery criteria, on a goal or as the default in settings
+const checkMastery = (issues: ValidationIssue[], path: string, value: unknown) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `must be an object, but is ${describe(value)}`, severity: 'error' });
+    return;
+  }
+  const check = createChecker(issues, path, value);
+  check.number('sessionsMet', 1, 20);
+  check.number('outOfSessions', 1, 20);
+  check.number('minTrials', 0, 1000);
+  check.boolean('independentOnly');
+  const { sessionsMet, outOfSessions } = value;
+  if (typeof sessionsMet === 'number' && typeof outOfSessions === 'number' && sessionsMet > outOfSessions) {
+    issues.push({
+      path: `${path}.sessionsMet`,
+      message: `must not be more than outOfSessions (${outOfSessions}), but is ${sessionsMet}`,
+      severity: 'error',
+    });
+  }
+};
+
+// An accuracy method, on a goal or as the default in settings
+const checkAccuracyMethod = (issues: ValidationIssue[], path: string, value: unknown) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: `must be an object, but is ${describe(value)}`, severity: 'error' });
+    return;
+  }
+  const check = createChecker(issues, path, value);
+  check.oneOf('kind', ACCURACY_METHOD_KINDS);
+  if (value.kind === 'lastSessions') check.number('sessions', 1, 100);
+  if (value.kind === 'trialWindow') check.number('trials', 1, 10000);
+  if (value.kind === 'exponential') check.number('weight', 0.01, 1);
+};
+
+// Ids in a backup, for checking the references between its records
+interface BackupIds {
+  clientIds: Set<string>;
+  goalIds: Set<string>;
+  goalClient: Map<string, string>; // the client each goal belongs to
+}
+
+// Checks for one record's fields. References to other records are only
+// checked when the ids they may point at are given.
+type RecordCheck = (
+  issues: ValidationIssue[],
+  path: string,
+  record: UnknownRecord,
+  ids?: BackupIds
+) => void;
+
+const checkClient: RecordCheck = (issues, path, client) => {
+  const check = createChecker(issues, path, client);
+  check.requiredString('id');
+  check.requiredString('firstName');
+  check.requiredString('lastName', { allowEmpty: true });
+  check.date('dateOfBirth', { allowEmpty: true });
+  check.optionalString('diagnosis');
+  check.optionalString('notes');
+  check.date('createdAt');
+  check.date('updatedAt');
+  check.boolean('isActive');
+  check.date('deletedAt', { optional: true });
+  check.optionalString('deletionGroupId');
+};
+
+const checkGoal: RecordCheck = (issues, path, goal, ids) => {
+  const check = createChecker(issues, path, goal);
+  check.requiredString('id');
+  check.requiredString('clientId');
+  if (ids) check.reference('clientId', ids.clientIds, 'client', 'error');
+  check.requiredString('name');
+  check.requiredString('description', { allowEmpty: true });
+  check.number('targetAccuracy', 1, 100);
+  check.number('currentAccuracy', 0, 100);
+  check.date('targetDate', { optional: true });
+  check.oneOf('status', GOAL_STATUSES);
+  check.oneOf('category', GOAL_CATEGORIES);
+  check.optionalString('parentGoalId');
+  if (ids) check.reference('parentGoalId', ids.goalIds, 'goal', 'warning');
+  if (goal.mastery !== undefined) checkMastery(issues, `${path}.mastery`, goal.mastery);
+  if (goal.accuracyMethod !== undefined) {
+    checkAccuracyMethod(issues, `${path}.accuracyMethod`, goal.accuracyMethod);
+  }
+  check.date('createdAt');
+  check.date('updatedAt');
+  check.date('deletedAt', { optional: true });
+  check.optionalString('deletionGroupId');
+};
+
+const checkSession: RecordCheck = (issues, path, session, ids) => {
+  const check = createChecker(issues, path, session);
+  check.requiredString('id');
+  check.requiredString('clientId');
+  if (ids) check.reference('clientId', ids.clientIds, 'client', 'error');
+  check.date('date');
+  check.number('duration', 0, 24 * 60);
+  check.optionalString('notes');
+  check.listOf('goals');
+  check.date('createdAt');
+  check.date('deletedAt', { optional: true });
+  check.optionalString('deletionGroupId');
+
+  // Sessions keep the ids of goals deleted after the session was recorded
+  if (ids && Array.isArray(session.goals)) {
+    session.goals.forEach((goalId, goalIndex) => {
+      if (typeof goalId !== 'string') return;
+      const owner = ids.goalClient.get(goalId);
+      if (!ids.goalIds.has(goalId)) {
+        issues.push({
+          path: `${path}.goals[${goalIndex}]`,
+          message: `refers to goal "${goalId}", which is not in the backup`,
+          severity: 'warning',
+        });
+      } else if (owner !== session.clientId) {
+        issues.push({
+          path: `${path}.goals[${goalIndex}]`,
+          message: `refers to goal "${goalId}", which belongs to a different client`,
+          severity: 'error',
+        });
+      }
+    });
+  }
+
+  if (!Array.isArray(session.trials)) {
+    issues.push({ path: `${path}.trials`, message: `must be a list, but is ${describe(session.trials)}`, severity: 'error' });
+    return;
+  }
+
+  session.trials.forEach((trial, trialIndex) => {
+    const trialPath = `${path}.trials[${trialIndex}]`;
+    if (!isObject(trial)) {
+      issues.push({ path: trialPath, message: `must be a trial record, but is ${describe(trial)}`, severity: 'error' });
+      return;
+    }
+    const trialCheck = createChecker(issues, trialPath, trial);
+    trialCheck.requiredString('id');
+    trialCheck.requiredString('goalId');
+    if (ids) trialCheck.reference('goalId', ids.goalIds, 'goal', 'warning');
+    trialCheck.requiredString('prompt', { allowEmpty: true });
+    trialCheck.oneOf('response', RESPONSES);
+    trialCheck.oneOf('cueLevel', CUE_LEVELS);
+    trialCheck.optionalString('notes');
+    trialCheck.date('timestamp');
+
+    if (trial.sessionId !== session.id) {
+      issues.push({
+        path: `${trialPath}.sessionId`,
+        message: `should be "${String(session.id)}", but is ${describe(trial.sessionId)}`,
+        severity: 'warning',
+      });
+    }
+  });
+};
+
+const RECORD_CHECKS: Record<SyncEntityType, RecordCheck> = {
+  client: checkClient,
+  goal: checkGoal,
+  session: checkSession,
+};
+
+// Check one record's own fields, without the records it refers to. Used for
+// records from the sync server, which arrive one at a time.
+export const validateRecord = (entityType: SyncEntityType, record: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(record)) {
+    issues.push({ path: entityType, message: `must be a ${entityType} record, but is ${describe(record)}`, severity: 'error' });
+    return issues;
+  }
+  RECORD_CHECKS[entityType](issues, entityType, record);
+  return issues;
+};
+
+// Check every record's fields and the references between records
+export const validateBackupData = (data: StoredData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  const ids: BackupIds = {
+    clientIds: checkDuplicateIds(issues, 'clients', data.clients),
+    goalIds: checkDuplicateIds(issues, 'goals', data.goals),
+    goalClient: new Map(),
+  };
+  checkDuplicateIds(issues, 'sessions', data.sessions);
+  (data.goals as unknown[]).forEach((goal) => {
+    if (isObject(goal) && typeof goal.id === 'string' && typeof goal.clientId === 'string') {
+      ids.goalClient.set(goal.id, goal.clientId);
+    }
+  });
+
+  (data.clients as unknown[]).forEach((client, index) => {
+    const path = `clients[${index}]`;
+    if (!isObject(client)) {
+      issues.push({ path, message: `must be a client record, but is ${describe(client)}`, severity: 'error' });
+      return;
+    }
+    checkClient(issues, path, client, ids);
+  });
+
+  (data.goals as unknown[]).forEach((goal, index) => {
+    const path = `goals[${index}]`;
+    if (!isObject(goal)) {
+      issues.push({ path, message: `must be a goal record, but is ${describe(goal)}`, severity: 'error' });
+      return;
+    }
+    checkGoal(issues, path, goal, ids);
+  });
+
+  // An objective's long-term goal belongs to the same client
+  (data.goals as unknown[]).forEach((goal, index) => {
+    if (!isObject(goal) || typeof goal.parentGoalId !== 'string') return;
+    const owner = ids.goalClient.get(goal.parentGoalId);
+    if (owner !== undefined && owner !== goal.clientId) {
+      issues.push({
+        path: `goals[${index}].parentGoalId`,
+        message: `refers to goal "${goal.parentGoalId}", which belongs to a different client`,
+        severity: 'warning',
+      });
+    }
+  });
+
+  (data.sessions as unknown[]).forEach((session, index) => {
+    const path = `sessions[${index}]`;
+    if (!isObject(session)) {
+      issues.push({ path, message: `must be a session record, but is ${describe(session)}`, severity: 'error' });
+      return;
+    }
+    checkSession(issues, path, session, ids);
+  });
+
+  // Settings missing from older backups fall back to defaults, so only
+  // check the ones that are present
+  if (isObject(data.settings)) {
+    const settings = data.settings;
+    const check = createChecker(issues, 'settings', settings);
+    const has = (field: string) => settings[field] !== undefined;
+    if (has('defaultSessionDuration')) check.number('defaultSessionDuration', 1, 24 * 60);
+    if (has('defaultTargetAccuracy')) check.number('defaultTargetAccuracy', 1, 100);
+    if (has('enableNotifications')) check.boolean('enableNotifications');
+    if (has('theme')) check.oneOf('theme', THEMES);
+    if (has('cueLevels')) check.listOf('cueLevels', CUE_LEVELS);
+    if (has('responseOptions')) check.listOf('responseOptions', RESPONSES);
+    if (has('autoLockMinutes')) check.number('autoLockMinutes', 0, 24 * 60);
+    if (has('trashRetentionDays')) check.number('trashRetentionDays', 0, 3650);
+    if (has('autoBackupFrequency')) check.oneOf('autoBackupFrequency', BACKUP_FREQUENCIES);
+    if (has('autoBackupSessionInterval')) check.number('autoBackupSessionInterval', 0, 1000);
+    if (has('autoBackupKeep')) check.number('autoBackupKeep', 1, 365);
+    if (has('autoBackupFolder')) check.requiredString('autoBackupFolder', { allowEmpty: true });
+    if (has('defaultMastery')) checkMastery(issues, 'settings.defaultMastery', settings.defaultMastery);
+    if (has('accuracyMethod')) {
+      checkAccuracyMethod(issues, 'settings.accuracyMethod', settings.accuracyMethod);
+    }
+    if (has('trendWindow')) check.number('trendWindow', 3, 100);
+  }
+
+  return issues;
+};
+
+// Audit entries don't reference anything the import depends on, so only
+// their own shape is checked
+export const validateAuditLog = (entries: unknown[]): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  checkDuplicateIds(issues, 'auditLog', entries);
+
+  entries.forEach((entry, index) => {
+    const path = `auditLog[${index}]`;
+    if (!isObject(entry)) {
+      issues.push({ path, message: `must be an audit entry, but is ${describe(entry)}`, severity: 'error' });
+      return;
+    }
+    const check = createChecker(issues, path, entry);
+    check.requiredString('id');
+    check.date('timestamp');
+    check.oneOf('action', AUDIT_ACTIONS);
+    check.oneOf('entityType', AUDIT_ENTITY_TYPES);
+    check.requiredString('entityId');
+    check.optionalString('clientId');
+    check.requiredString('label', { allowEmpty: true });
+    if (entry.source !== undefined) check.oneOf('source', AUDIT_SOURCES);
+    check.optionalString('deviceId');
+    if (!Array.isArray(entry.changes)) {
+      issues.push({ path: `${path}.changes`, message: `must be a list, but is ${describe(entry.changes)}`, severity: 'error' });
+    }
+  });
+
+  return issues;
+};
+
+export const hasErrors = (issues: ValidationIssue[]): boolean =>
+  issues.some((issue) => issue.severity === 'error');
+
+// One line per issue, for display
+export const formatIssue = (issue: ValidationIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : `Backup ${issue.message}`;
@@ -10,6 +10,8 @@ export interface Client {
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
+  deletedAt?: string; // set while in the trash
+  deletionGroupId?: string; // id of the record whose deletion trashed this one
 }
 
 export interface Goal {
@@ -22,10 +24,30 @@ export interface Goal {
   targetDate?: string;
   status: 'active' | 'achieved' | 'discontinued';
   category: GoalCategory;
+  parentGoalId?: string; // set on short-term objectives, to their long-term goal
+  mastery?: MasteryCriteria; // when missing, the default from settings applies
+  accuracyMethod?: AccuracyMethod; // when missing, the method from settings applies
   createdAt: string;
   updatedAt: string;
+  deletedAt?: string;
+  deletionGroupId?: string;
 }
 
+// When a goal counts as mastered: at least sessionsMet of the last
+// outOfSessions sessions at or above its target accuracy
+export interface MasteryCriteria {
+  sessionsMet: number;
+  outOfSessions: number;
+  minTrials: number; // sessions with fewer trials for the goal don't count as met
+  independentOnly: boolean; // only correct trials at the independent cue level count
+}
+
+// How a goal's current accuracy is worked out from its trials
+export type AccuracyMethod =
+  | { kind: 'lastSessions'; sessions: number } // mean of the last N sessions' accuracy
+  | { kind: 'trialWindow'; trials: number } // the last N trials, pooled
+  | { kind: 'exponential'; weight: number }; // each session's share (0-1) against those before
+
 export type GoalCategory =
   | 'articulation'
   | 'language'
@@ -44,6 +66,8 @@ export interface Session {
   goals: string[]; // goal IDs worked on
   trials: Trial[];
   createdAt: string;
+  deletedAt?: string;
+  deletionGroupId?: string;
 }
 
 export interface Trial {
@@ -74,6 +98,8 @@ export interface SessionStats {
   accuracy: number;
 }
 
+export type GoalTrend = 'improving' | 'stable' | 'declining';
+
 export interface GoalProgress {
   goalId: string;
   goalName: string;
@@ -83,7 +109,14 @@ export interface GoalProgress {
     trialCount: number;
   }[];
   overallAccuracy: number;
-  trend: 'improving' | 'stable' | 'declining';
+  slope?: number; // percentage points per session; missing without enough data
+  trend?: GoalTrend; // missing without enough data
+}
+
+// A goal alert (alerts.ts) the clinician has set aside
+export interface GoalAlertState {
+  dismissedBasis?: string; // hidden until the alert is raised on something new
+  snoozedUntil?: string;
 }
 
 export interface AppSettings {
@@ -93,6 +126,74 @@ export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
   cueLevels: CueLevel[];
   responseOptions: Trial['response'][];
+  autoLockMinutes: number; // 0 = never auto-lock
+  trashRetentionDays: number; // 0 = keep until emptied by hand
+  autoBackupFrequency: 'off' | 'daily' | 'weekly';
+  autoBackupSessionInterval: number; // back up after this many new sessions; 0 = off
+  autoBackupKeep: number; // automatic backups kept before the oldest is removed
+  autoBackupFolder: string; // desktop app only; '' = the app's data folder
+  defaultMastery: MasteryCriteria;
+  accuracyMethod: AccuracyMethod;
+  trendWindow: number; // recent sessions a goal's trend is fitted to
+}
+
+// Audit log
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export type AuditEntityType = 'client' | 'goal' | 'session' | 'settings';
+
+export interface AuditFieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Where an audited change came from: made on the device, received from the
+// sync server, or read from an imported file
+export type AuditSource = 'local' | 'sync' | 'import';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  clientId?: string; // client the record belongs to, for filtering
+  label: string; // the record's name at the time of the change
+  changes: AuditFieldChange[];
+  // Missing on entries recorded before they were kept
+  source?: AuditSource;
+  deviceId?: string; // the device that recorded the entry (SyncState.deviceId)
+}
+
+// Sync
+export type SyncEntityType = 'client' | 'goal' | 'session';
+
+// One record as exchanged with the sync server. fieldTimestamps holds when
+// each field last changed, so concurrent edits to different fields both
+// survive and edits to the same field go to the later one.
+export interface SyncChange {
+  entityType: SyncEntityType;
+  id: string;
+  record: Client | Goal | Session | null; // null once purged
+  fieldTimestamps: { [field: string]: string };
+  purgedAt?: string;
+}
+
+// Kept per record on the device
+export interface SyncMeta {
+  fieldTimestamps: { [field: string]: string };
+  pending: boolean; // changed here since it was last pushed
+  purgedAt?: string;
+}
+
+export interface SyncState {
+  deviceId: string;
+  serverUrl: string; // empty when sync is off
+  token: string;
+  cursor: string | null; // position in the server's change feed; null before the first sync
+  lastSyncedAt: string | null;
+  lastError: string | null;
 }
 
 // Navigation Types
@@ -102,12 +203,21 @@ export type RootStackParamList = {
   AddClient: undefined;
   EditClient: { clientId: string };
   GoalDetail: { goalId: string; clientId: string };
-  AddGoal: { clientId: string };
+  AddGoal: { clientId: string; parentGoalId?: string };
   EditGoal: { goalId: string; clientId: string };
   SessionDetail: { sessionId: string; clientId: string };
   NewSession: { clientId: string; goalIds?: string[] };
   Reports: { clientId: string };
   Settings: undefined;
+  Trash: undefined;
+  AuditLog: { clientId?: string } | undefined;
+  Backups: undefined;
+  DataExport: { clientId?: string } | undefined;
+  RosterImport: undefined;
+  Integrity: undefined;
+  DeidentifiedExport: undefined;
+  Search: undefined;
+  Alerts: undefined;
 };
 
 export type MainTabsParamList = {
@@ -1,7 +1,7 @@
 // Utility helper functions
 
 import { format, parseISO, isToday, isYesterday, isThisWeek } from 'date-fns';
-import { Trial, SessionStats, CueLevel, GoalCategory } from '../types';
+import { Trial, SessionStats, CueLevel, GoalCategory, GoalTrend } from '../types';
 
 // Generate unique ID
 export const generateId = (): string => {
@@ -101,6 +101,16 @@ export const getResponseLabel = (response: Trial['response']): string => {
   return labels[response];
 };
 
+// Get readable goal trend
+export const getTrendLabel = (trend: GoalTrend): string => {
+  const labels: Record<GoalTrend, string> = {
+    improving: '↑ Improving',
+    stable: '→ Stable',
+    declining: '↓ Declining',
+  };
+  return labels[trend];
+};
+
 // Calculate age from date of birth
 export const calculateAge = (dateOfBirth: string): number => {
   const today = new Date();
@@ -118,6 +128,20 @@ export const getInitials = (firstName: string, lastName: string): string => {
   return `${firstName.charAt(0)}${lastName.charAt(0)}`.toUpperCase();
 };
 
+// Dates can be typed as MM/DD/YYYY or YYYY-MM-DD
+export const isValidDateInput = (date: string): boolean =>
+  /^(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})$/.test(date);
+
+// Convert a typed date to the YYYY-MM-DD form dates are stored in
+export const formatDateForStorage = (date: string): string => {
+  if (!date) return '';
+  if (date.includes('/')) {
+    const [month, day, year] = date.split('/');
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+  return date;
+};
+
 // Validate email format
 export const isValidEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;